@@ -15,6 +15,15 @@ class McpHttpClient {
     constructor(baseUrl = "http://localhost:3000") {
         this.baseUrl = baseUrl;
         this.requestId = 1;
+        this.sessionId = null;
+    }
+
+    headers() {
+        const headers = { "Content-Type": "application/json" };
+        if (this.sessionId) {
+            headers["Mcp-Session-Id"] = this.sessionId;
+        }
+        return headers;
     }
 
     async makeRequest(method, params = null) {
@@ -27,12 +36,16 @@ class McpHttpClient {
 
         const response = await fetch(`${this.baseUrl}/mcp`, {
             method: "POST",
-            headers: {
-                "Content-Type": "application/json"
-            },
+            headers: this.headers(),
             body: JSON.stringify(request)
         });
 
+        // The server assigns a session on initialize; every later request must carry it
+        const sessionId = response.headers.get("mcp-session-id");
+        if (sessionId) {
+            this.sessionId = sessionId;
+        }
+
         return await response.json();
     }
 
@@ -67,10 +80,12 @@ class McpHttpClient {
             params: { name, arguments: args }
         };
 
-        const response = await fetch(`${this.baseUrl}/mcp/stream`, {
+        // Streamable HTTP: ask for an SSE response on the regular endpoint
+        const response = await fetch(`${this.baseUrl}/mcp`, {
             method: "POST",
             headers: {
-                "Content-Type": "application/json"
+                ...this.headers(),
+                Accept: "application/json, text/event-stream"
             },
             body: JSON.stringify(request)
         });
@@ -81,18 +96,24 @@ class McpHttpClient {
         for await (const chunk of reader) {
             buffer += chunk.toString();
 
-            // Process complete JSON objects
-            const lines = buffer.split("\n");
-            buffer = lines.pop(); // Keep incomplete line in buffer
-
-            for (const line of lines) {
-                if (line.trim()) {
-                    try {
-                        const result = JSON.parse(line);
-                        console.log("📡 Stream chunk:", result);
-                    } catch (e) {
-                        console.log("⚠️  Invalid JSON:", line);
-                    }
+            // SSE events are separated by a blank line
+            const events = buffer.split("\n\n");
+            buffer = events.pop(); // Keep incomplete event in buffer
+
+            for (const event of events) {
+                const data = event
+                    .split("\n")
+                    .filter((line) => line.startsWith("data: "))
+                    .map((line) => line.slice(6))
+                    .join("\n");
+                if (!data) {
+                    continue;
+                }
+                try {
+                    const result = JSON.parse(data);
+                    console.log("📡 Stream event:", result);
+                } catch (e) {
+                    console.log("⚠️  Invalid JSON:", data);
                 }
             }
         }
@@ -125,10 +146,13 @@ async function main() {
             ]
         });
 
-        // Stream tool call
+        // Stream tool call over SSE
         await client.streamToolCall("search_readwise_highlights", {
             vector_search_term: "programming"
         });
+
+        // End the session
+        await fetch(`${client.baseUrl}/mcp`, { method: "DELETE", headers: client.headers() });
     } catch (error) {
         console.error("❌ Error:", error);
     }
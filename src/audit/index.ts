@@ -0,0 +1,6 @@
+export { AuditLog, auditFilterSchema } from './log.js';
+export type { AuditCall, AuditCaller, AuditOptions, CallSummary } from './log.js';
+export { AuditReplayer, ReplayRefusedError } from './replay.js';
+export type { ReplayOptions, ReplayResult, ReplayTarget } from './replay.js';
+export { AuditStore } from './store.js';
+export type { AuditEntry, AuditFilter, AuditOutcome } from './store.js';
@@ -0,0 +1,182 @@
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { DebugLogger } from '../debug-logger.js';
+import { classifyError } from '../errors.js';
+import { currentRequestId } from '../request-context.js';
+import { AuditEntry, AuditFilter, AuditOutcome, AuditStore } from './store.js';
+import { UpstreamTrace, withUpstreamTrace } from './trace.js';
+
+export interface AuditOptions {
+  database: string;
+  // Entries older than this are deleted; 0 keeps them forever
+  retentionMs: number;
+  // Store each result as well as its size
+  results: boolean;
+}
+
+// Who made a call; sessions carry all of it, the legacy streaming endpoint
+// only a principal
+export interface AuditCaller {
+  principal?: string;
+  client?: string;
+  sessionId?: string;
+}
+
+export interface AuditCall extends AuditCaller {
+  method: string;
+  tool: string;
+  arguments: unknown;
+  tenantId: string;
+}
+
+// How a call went, as recorded and as replayed
+export interface CallSummary {
+  outcome: AuditOutcome;
+  resultSize: number | null;
+  latencyMs: number;
+  upstreamRequests: number;
+  upstreamStatus: number | null;
+  error: string | null;
+  errorType: string | null;
+}
+
+// Query parameters of GET /admin/audit
+export const auditFilterSchema = z.object({
+  principal: z.string().min(1).optional(),
+  client: z.string().min(1).optional(),
+  sessionId: z.string().min(1).optional(),
+  tenantId: z.string().min(1).optional(),
+  method: z.string().min(1).optional(),
+  tool: z.string().min(1).optional(),
+  outcome: z.enum(['success', 'error', 'cancelled']).optional(),
+  since: z.string().datetime({ offset: true }).transform(value => new Date(value).toISOString()).optional(),
+  until: z.string().datetime({ offset: true }).transform(value => new Date(value).toISOString()).optional(),
+  before: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+}).strict();
+
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+// `isError` results of our tools carry a classified error as JSON; anything
+// else is reported by its text
+function resultError(result: CallToolResult): { error: string; errorType: string | null } {
+  const text = result.content.find(item => item.type === 'text')?.text ?? '';
+  try {
+    const { error } = JSON.parse(text);
+    if (typeof error?.message === 'string') {
+      return { error: error.message, errorType: typeof error.type === 'string' ? error.type : null };
+    }
+  } catch {
+    // Not JSON
+  }
+  return { error: text.length > 500 ? `${text.slice(0, 500)}…` : text, errorType: null };
+}
+
+// Runs `run` while tracing its Readwise requests, and summarises the outcome
+// whether it returns, fails or is cancelled. Errors are rethrown.
+export async function summarizeCall(
+  run: () => Promise<CallToolResult>,
+  cancelled: () => boolean,
+  done: (summary: CallSummary, result?: CallToolResult) => void
+): Promise<CallToolResult> {
+  const trace: UpstreamTrace = { requests: 0, lastStatus: null };
+  const started = Date.now();
+  const summarize = (outcome: AuditOutcome, resultSize: number | null, failure?: { error: string; errorType: string | null }): CallSummary => ({
+    outcome: cancelled() ? 'cancelled' : outcome,
+    resultSize,
+    latencyMs: Date.now() - started,
+    upstreamRequests: trace.requests,
+    upstreamStatus: trace.lastStatus,
+    error: failure?.error ?? null,
+    errorType: failure?.errorType ?? null
+  });
+
+  let result: CallToolResult;
+  try {
+    result = await withUpstreamTrace(trace, run);
+  } catch (error) {
+    const classified = classifyError(error);
+    done(summarize('error', null, { error: classified.message, errorType: classified.data.type }));
+    throw error;
+  }
+  const resultSize = JSON.stringify(result).length;
+  done(result.isError ? summarize('error', resultSize, resultError(result)) : summarize('success', resultSize), result);
+  return result;
+}
+
+// The audit trail of a shared instance. Writing an entry never fails a call:
+// a broken log is reported and the call goes on.
+export class AuditLog {
+  readonly store: AuditStore;
+  private pruner?: NodeJS.Timeout;
+
+  constructor(readonly options: AuditOptions, private logger: DebugLogger) {
+    this.store = new AuditStore(options.database);
+  }
+
+  async record(call: AuditCall, run: () => Promise<CallToolResult>, cancelled: () => boolean): Promise<CallToolResult> {
+    const timestamp = new Date().toISOString();
+    const requestId = currentRequestId() ?? null;
+    return summarizeCall(run, cancelled, (summary, result) => {
+      try {
+        const id = this.store.append({
+          timestamp,
+          requestId,
+          sessionId: call.sessionId ?? null,
+          principal: call.principal ?? null,
+          client: call.client ?? null,
+          tenantId: call.tenantId,
+          method: call.method,
+          tool: call.tool,
+          arguments: call.arguments,
+          ...summary,
+          result: this.options.results && result ? result : null
+        });
+        this.logger.log('Audit entry written', { id, tool: call.tool, outcome: summary.outcome });
+      } catch (error) {
+        this.logger.error('Failed to write audit entry', error);
+      }
+    });
+  }
+
+  list(filter: AuditFilter): AuditEntry[] {
+    return this.store.query(filter);
+  }
+
+  get(id: number): AuditEntry | undefined {
+    return this.store.get(id);
+  }
+
+  // Prunes now and then hourly
+  start() {
+    if (this.options.retentionMs <= 0 || this.pruner) {
+      return;
+    }
+    this.prune();
+    this.pruner = setInterval(() => this.prune(), PRUNE_INTERVAL_MS);
+    this.pruner.unref();
+  }
+
+  prune(): number {
+    if (this.options.retentionMs <= 0) {
+      return 0;
+    }
+    const cutoff = new Date(Date.now() - this.options.retentionMs).toISOString();
+    try {
+      const deleted = this.store.prune(cutoff);
+      if (deleted > 0) {
+        this.logger.info('Pruned audit log', { deleted, cutoff });
+      }
+      return deleted;
+    } catch (error) {
+      this.logger.error('Failed to prune audit log', error);
+      return 0;
+    }
+  }
+
+  close() {
+    clearInterval(this.pruner);
+    this.pruner = undefined;
+    this.store.close();
+  }
+}
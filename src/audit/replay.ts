@@ -0,0 +1,132 @@
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { AxiosInstance } from "axios";
+import { ResponseCache } from '../cache.js';
+import { DebugLogger } from '../debug-logger.js';
+import { MockReadwiseServer } from '../mock/readwise-mock.js';
+import { CircuitBreaker } from '../resilience.js';
+import { ResurfacingHistory } from '../resurfacing-history.js';
+import { isMutating, ToolContext, ToolRegistry } from '../tools/registry.js';
+import { createReadwiseClient } from '../upstream.js';
+import { CallSummary, summarizeCall } from './log.js';
+import { AuditEntry } from './store.js';
+
+// Runs a recorded call again, for working out why an agent got what it got.
+// Replays use a cache and resurfacing history of their own, so they neither
+// see nor change what clients see, and they are not written to the log.
+
+export type ReplayTarget = 'mock' | 'live';
+
+export interface ReplayOptions {
+  // A running mock server, e.g. `npm run mock` with fixtures or faults; an
+  // in-process one serving the built-in library when unset
+  mockUrl?: string;
+  timeoutMs: number;
+}
+
+export interface ReplayResult extends CallSummary {
+  entryId: number;
+  target: ReplayTarget;
+  tool: string;
+  result: CallToolResult | null;
+  recorded: CallSummary;
+  // Only for entries stored with their result
+  sameResult?: boolean;
+}
+
+// The entry can't be replayed as asked: its tool is gone, its arguments no
+// longer validate, or it would write to the live library
+export class ReplayRefusedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayRefusedError';
+  }
+}
+
+// Any token does for the mock
+const MOCK_TOKEN = 'audit-replay';
+
+function recordedSummary(entry: AuditEntry): CallSummary {
+  const { outcome, resultSize, latencyMs, upstreamRequests, upstreamStatus, error, errorType } = entry;
+  return { outcome, resultSize, latencyMs, upstreamRequests, upstreamStatus, error, errorType };
+}
+
+export class AuditReplayer {
+  constructor(private tools: ToolRegistry, private options: ReplayOptions, private logger: DebugLogger) {}
+
+  // `live` is the context of the account to replay against. Tools that
+  // aren't read-only only run live with `allowWrites`.
+  async replay(entry: AuditEntry, target: ReplayTarget, live: ToolContext, allowWrites = false): Promise<ReplayResult> {
+    const tool = this.tools.get(entry.tool);
+    if (!tool) {
+      throw new ReplayRefusedError(`Tool ${entry.tool} is not available on this server`);
+    }
+    if (target === 'live' && isMutating(tool) && !allowWrites) {
+      throw new ReplayRefusedError(`${entry.tool} changes your Readwise library; send allowWrites: true to replay it against Readwise`);
+    }
+    const parsed = tool.inputSchema.safeParse(entry.arguments);
+    if (!parsed.success) {
+      throw new ReplayRefusedError(`The recorded arguments are no longer valid for ${entry.tool}: ${parsed.error.errors.map(e => e.message).join(', ')}`);
+    }
+
+    this.logger.info('Replaying audit entry', { id: entry.id, tool: entry.tool, target });
+    const run = (axios: AxiosInstance, base: Partial<ToolContext>) => {
+      let summary: CallSummary | undefined;
+      const context: ToolContext = {
+        ...base,
+        axios,
+        logger: this.logger,
+        tenantId: base.tenantId ?? 'replay',
+        cache: new ResponseCache({ ttlMs: 0, maxEntries: 1 }, this.logger),
+        history: new ResurfacingHistory({ maxEntries: 5000, cooldownMs: 0 }, this.logger),
+        exporter: live.exporter
+      };
+      return summarizeCall(() => tool.handler(parsed.data, context), () => false, done => summary = done)
+        .then(result => ({ result, summary: summary! }))
+        .catch(error => {
+          this.logger.warn('Replayed call failed', { id: entry.id, error: (error as Error).message });
+          return { result: null, summary: summary! };
+        });
+    };
+
+    const { result, summary } = target === 'live'
+      ? await run(live.axios, { tenantId: live.tenantId, mirror: live.mirror })
+      : await this.withMock(axios => run(axios, {}));
+
+    return {
+      entryId: entry.id,
+      target,
+      tool: entry.tool,
+      ...summary,
+      result,
+      recorded: recordedSummary(entry),
+      ...(entry.result !== null && { sameResult: JSON.stringify(result) === JSON.stringify(entry.result) })
+    };
+  }
+
+  private async withMock<T>(fn: (axios: AxiosInstance) => Promise<T>): Promise<T> {
+    if (this.options.mockUrl) {
+      return fn(this.mockClient(this.options.mockUrl));
+    }
+    const mock = new MockReadwiseServer();
+    const url = await mock.listen();
+    try {
+      return await fn(this.mockClient(url));
+    } finally {
+      await mock.close();
+    }
+  }
+
+  // No retries, so injected faults show up as they are, and a breaker of its
+  // own so mock failures never open the real one
+  private mockClient(baseURL: string): AxiosInstance {
+    return createReadwiseClient(MOCK_TOKEN, {
+      baseURL,
+      timeout: this.options.timeoutMs,
+      resilience: {
+        retry: { maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0 },
+        breaker: new CircuitBreaker({ failureThreshold: 1000, cooldownMs: 0 }, this.logger),
+        rateLimitMaxWaitMs: 0
+      }
+    }, this.logger);
+  }
+}
@@ -0,0 +1,216 @@
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import path from 'path';
+
+// Append-only SQLite log of tool calls: who called what with which
+// arguments, and how it went. Entries are never updated; the only deletes
+// are of entries older than the retention period.
+
+export type AuditOutcome = 'success' | 'error' | 'cancelled';
+
+export interface NewAuditEntry {
+  timestamp: string;
+  // X-Request-ID of the HTTP request that carried the call
+  requestId: string | null;
+  sessionId: string | null;
+  principal: string | null;
+  // clientInfo.name the session was initialized with
+  client: string | null;
+  tenantId: string;
+  method: string;
+  tool: string;
+  arguments: unknown;
+  outcome: AuditOutcome;
+  // Characters of the JSON result; null when the call threw
+  resultSize: number | null;
+  latencyMs: number;
+  // Readwise requests the call made, retries included; 0 when it was served
+  // from the cache or the local mirror
+  upstreamRequests: number;
+  // Status of the last of them; null without a response
+  upstreamStatus: number | null;
+  error: string | null;
+  errorType: string | null;
+  // Only stored when audit.results is on
+  result: unknown;
+}
+
+export interface AuditEntry extends NewAuditEntry {
+  id: number;
+}
+
+export interface AuditFilter {
+  principal?: string;
+  client?: string;
+  sessionId?: string;
+  tenantId?: string;
+  method?: string;
+  tool?: string;
+  outcome?: AuditOutcome;
+  // ISO timestamps, inclusive
+  since?: string;
+  until?: string;
+  // Entries with a lower ID, for paging back from the newest
+  before?: number;
+  limit: number;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS audit_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    timestamp TEXT NOT NULL,
+    request_id TEXT,
+    session_id TEXT,
+    principal TEXT,
+    client TEXT,
+    tenant_id TEXT NOT NULL,
+    method TEXT NOT NULL,
+    tool TEXT NOT NULL,
+    arguments TEXT NOT NULL,
+    outcome TEXT NOT NULL,
+    result_size INTEGER,
+    latency_ms INTEGER NOT NULL,
+    upstream_requests INTEGER NOT NULL,
+    upstream_status INTEGER,
+    error TEXT,
+    error_type TEXT,
+    result TEXT
+  );
+  CREATE INDEX IF NOT EXISTS audit_log_timestamp ON audit_log (timestamp);
+  CREATE INDEX IF NOT EXISTS audit_log_principal ON audit_log (principal);
+  CREATE INDEX IF NOT EXISTS audit_log_tool ON audit_log (tool);
+  CREATE TRIGGER IF NOT EXISTS audit_log_append_only BEFORE UPDATE ON audit_log
+  BEGIN
+    SELECT RAISE(ABORT, 'The audit log is append-only');
+  END;
+`;
+
+const COLUMNS: Record<Exclude<keyof AuditFilter, 'since' | 'until' | 'before' | 'limit'>, string> = {
+  principal: 'principal',
+  client: 'client',
+  sessionId: 'session_id',
+  tenantId: 'tenant_id',
+  method: 'method',
+  tool: 'tool',
+  outcome: 'outcome'
+};
+
+interface AuditRow {
+  id: number;
+  timestamp: string;
+  request_id: string | null;
+  session_id: string | null;
+  principal: string | null;
+  client: string | null;
+  tenant_id: string;
+  method: string;
+  tool: string;
+  arguments: string;
+  outcome: AuditOutcome;
+  result_size: number | null;
+  latency_ms: number;
+  upstream_requests: number;
+  upstream_status: number | null;
+  error: string | null;
+  error_type: string | null;
+  result: string | null;
+}
+
+function fromRow(row: AuditRow): AuditEntry {
+  return {
+    id: row.id,
+    timestamp: row.timestamp,
+    requestId: row.request_id,
+    sessionId: row.session_id,
+    principal: row.principal,
+    client: row.client,
+    tenantId: row.tenant_id,
+    method: row.method,
+    tool: row.tool,
+    arguments: JSON.parse(row.arguments),
+    outcome: row.outcome,
+    resultSize: row.result_size,
+    latencyMs: row.latency_ms,
+    upstreamRequests: row.upstream_requests,
+    upstreamStatus: row.upstream_status,
+    error: row.error,
+    errorType: row.error_type,
+    result: row.result === null ? null : JSON.parse(row.result)
+  };
+}
+
+export class AuditStore {
+  private db: Database.Database;
+
+  constructor(file: string) {
+    if (file !== ':memory:') {
+      mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+    }
+    this.db = new Database(file);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+  }
+
+  append(entry: NewAuditEntry): number {
+    const { lastInsertRowid } = this.db.prepare(`
+      INSERT INTO audit_log
+        (timestamp, request_id, session_id, principal, client, tenant_id, method, tool, arguments, outcome,
+         result_size, latency_ms, upstream_requests, upstream_status, error, error_type, result)
+      VALUES
+        (@timestamp, @requestId, @sessionId, @principal, @client, @tenantId, @method, @tool, @arguments, @outcome,
+         @resultSize, @latencyMs, @upstreamRequests, @upstreamStatus, @error, @errorType, @result)
+    `).run({
+      ...entry,
+      arguments: JSON.stringify(entry.arguments ?? {}),
+      result: entry.result === null || entry.result === undefined ? null : JSON.stringify(entry.result)
+    });
+    return Number(lastInsertRowid);
+  }
+
+  get(id: number): AuditEntry | undefined {
+    const row = this.db.prepare('SELECT * FROM audit_log WHERE id = ?').get(id) as AuditRow | undefined;
+    return row && fromRow(row);
+  }
+
+  // Newest first
+  query(filter: AuditFilter): AuditEntry[] {
+    const conditions: string[] = [];
+    const params: Record<string, unknown> = { limit: filter.limit };
+    for (const [key, column] of Object.entries(COLUMNS)) {
+      const value = filter[key as keyof typeof COLUMNS];
+      if (value !== undefined) {
+        conditions.push(`${column} = @${key}`);
+        params[key] = value;
+      }
+    }
+    if (filter.since) {
+      conditions.push('timestamp >= @since');
+      params.since = filter.since;
+    }
+    if (filter.until) {
+      conditions.push('timestamp <= @until');
+      params.until = filter.until;
+    }
+    if (filter.before !== undefined) {
+      conditions.push('id < @before');
+      params.before = filter.before;
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db.prepare(`SELECT * FROM audit_log ${where} ORDER BY id DESC LIMIT @limit`).all(params) as AuditRow[];
+    return rows.map(fromRow);
+  }
+
+  count(): number {
+    return (this.db.prepare('SELECT COUNT(*) AS n FROM audit_log').get() as { n: number }).n;
+  }
+
+  // Deletes entries from before `cutoff` (an ISO timestamp)
+  prune(cutoff: string): number {
+    return this.db.prepare('DELETE FROM audit_log WHERE timestamp < ?').run(cutoff).changes;
+  }
+
+  close() {
+    this.db.close();
+  }
+}
@@ -0,0 +1,42 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { AxiosInstance } from 'axios';
+
+// Counts the Readwise requests made on behalf of one tool call. Like the
+// request ID, the trace follows the call through everything it awaits, so
+// tools don't pass it around; concurrent calls each get their own.
+
+export interface UpstreamTrace {
+  requests: number;
+  // Status of the latest response; null before any, or when a request got
+  // no response at all
+  lastStatus: number | null;
+}
+
+const storage = new AsyncLocalStorage<UpstreamTrace>();
+
+export function withUpstreamTrace<T>(trace: UpstreamTrace, fn: () => Promise<T>): Promise<T> {
+  return storage.run(trace, fn);
+}
+
+// Registered before the resilience interceptors, like the metrics, so every
+// attempt is counted
+export function traceClient(client: AxiosInstance) {
+  client.interceptors.response.use(
+    response => {
+      const trace = storage.getStore();
+      if (trace) {
+        trace.requests++;
+        trace.lastStatus = response.status;
+      }
+      return response;
+    },
+    error => {
+      const trace = storage.getStore();
+      if (trace) {
+        trace.requests++;
+        trace.lastStatus = error?.response?.status ?? null;
+      }
+      return Promise.reject(error);
+    }
+  );
+}
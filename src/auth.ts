@@ -0,0 +1,249 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import axios from "axios";
+import express from 'express';
+import { createRemoteJWKSet, JWTPayload, jwtVerify } from 'jose';
+import { DebugLogger } from './debug-logger.js';
+
+// Inbound authentication for the MCP endpoints: static API keys and OAuth 2.1
+// bearer tokens, following the MCP authorization spec.
+
+export interface Principal {
+  // Stable identifier, e.g. `api_key:ci` or `oauth:<sub>`
+  id: string;
+  type: 'api_key' | 'oauth';
+  label: string;
+  scopes: string[];
+  claims?: JWTPayload;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      principal?: Principal;
+    }
+  }
+}
+
+export interface AuthOptions {
+  // label -> key
+  apiKeys: Record<string, string>;
+  oauth?: {
+    issuer: string;
+    // Defaults to the resource URL, `<publicUrl>/mcp`; one of the two is
+    // required so tokens minted for other resources are refused
+    audience?: string;
+    jwksUrl?: string;
+    requiredScopes: string[];
+  };
+  // Public base URL used in the protected-resource metadata; derived from the
+  // request when unset
+  publicUrl?: string;
+}
+
+export const PROTECTED_RESOURCE_METADATA_PATH = '/.well-known/oauth-protected-resource';
+
+// The scheme, any run of whitespace, then exactly one token
+const BEARER = /^Bearer\s+(\S+)\s*$/i;
+
+// Parses `label:key,label2:key2`. A bare key gets a numbered label.
+export function parseApiKeys(value: string | undefined): Record<string, string> {
+  const keys: Record<string, string> = {};
+  (value ?? '').split(',').map(entry => entry.trim()).filter(Boolean).forEach((entry, index) => {
+    const separator = entry.indexOf(':');
+    if (separator > 0) {
+      keys[entry.slice(0, separator)] = entry.slice(separator + 1);
+    } else {
+      keys[`key-${index + 1}`] = entry;
+    }
+  });
+  return keys;
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+class AuthError extends Error {
+  constructor(
+    readonly status: 401 | 403,
+    readonly code: 'invalid_request' | 'invalid_token' | 'insufficient_scope',
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+export class Authenticator {
+  private apiKeyDigests: Array<{ label: string; digest: Buffer }>;
+  private jwks?: Promise<ReturnType<typeof createRemoteJWKSet>>;
+  private audience?: string;
+
+  constructor(private options: AuthOptions, private logger: DebugLogger) {
+    this.apiKeyDigests = Object.entries(options.apiKeys).map(([label, key]) => ({ label, digest: digest(key) }));
+    if (options.oauth) {
+      this.audience = options.oauth.audience
+        ?? (options.publicUrl && `${options.publicUrl.replace(/\/$/, '')}/mcp`);
+      if (!this.audience) {
+        throw new Error('OAuth needs an audience to check tokens against: set auth.oauth.audience or server.publicUrl');
+      }
+    }
+  }
+
+  get enabled(): boolean {
+    return this.apiKeyDigests.length > 0 || !!this.options.oauth;
+  }
+
+  get oauthEnabled(): boolean {
+    return !!this.options.oauth;
+  }
+
+  middleware(): express.RequestHandler {
+    return async (req, res, next) => {
+      try {
+        req.principal = await this.authenticate(req);
+        this.logger.log('Request authenticated', { principal: req.principal.id });
+        next();
+      } catch (error) {
+        if (!(error instanceof AuthError)) {
+          return next(error);
+        }
+        this.logger.warn('Authentication failed', { url: req.url, reason: error.message });
+        res.setHeader('WWW-Authenticate', this.challenge(req, error));
+        res.status(error.status).json({
+          error: error.code,
+          error_description: error.message
+        });
+      }
+    };
+  }
+
+  // RFC 9728 metadata pointing clients at the authorization server
+  metadataHandler(): express.RequestHandler {
+    return (req, res) => {
+      res.json({
+        resource: this.resourceUrl(req),
+        authorization_servers: [this.options.oauth!.issuer],
+        bearer_methods_supported: ['header'],
+        ...(this.options.oauth!.requiredScopes.length > 0 && { scopes_supported: this.options.oauth!.requiredScopes })
+      });
+    };
+  }
+
+  private async authenticate(req: express.Request): Promise<Principal> {
+    const header = req.get('Authorization');
+    const apiKey = req.get('X-API-Key');
+
+    let token: string | undefined;
+    if (header) {
+      const match = header.match(BEARER);
+      if (!match) {
+        throw new AuthError(401, 'invalid_request', 'Authorization header must use the Bearer scheme');
+      }
+      token = match[1];
+    }
+
+    const candidate = apiKey ?? token;
+    if (!candidate) {
+      throw new AuthError(401, 'invalid_token', 'Missing credentials');
+    }
+
+    const keyPrincipal = this.matchApiKey(candidate);
+    if (keyPrincipal) {
+      return keyPrincipal;
+    }
+    if (apiKey || !this.options.oauth) {
+      throw new AuthError(401, 'invalid_token', 'Invalid API key');
+    }
+
+    return this.verifyBearerToken(token!);
+  }
+
+  private matchApiKey(candidate: string): Principal | undefined {
+    const candidateDigest = digest(candidate);
+    const match = this.apiKeyDigests.find(key => timingSafeEqual(key.digest, candidateDigest));
+    if (!match) {
+      return undefined;
+    }
+    return { id: `api_key:${match.label}`, type: 'api_key', label: match.label, scopes: [] };
+  }
+
+  private async verifyBearerToken(token: string): Promise<Principal> {
+    const oauth = this.options.oauth!;
+    let payload: JWTPayload;
+    try {
+      const result = await jwtVerify(token, await this.getJwks(), {
+        issuer: oauth.issuer,
+        audience: this.audience
+      });
+      payload = result.payload;
+    } catch (error) {
+      throw new AuthError(401, 'invalid_token', `Invalid bearer token: ${(error as Error).message}`);
+    }
+    // The subject is the principal, and with it the tenant and audit identity
+    if (typeof payload.sub !== 'string' || payload.sub === '') {
+      throw new AuthError(401, 'invalid_token', 'Bearer token has no subject');
+    }
+
+    const scopes = typeof payload.scope === 'string' ? payload.scope.split(' ').filter(Boolean) : [];
+    const missing = oauth.requiredScopes.filter(scope => !scopes.includes(scope));
+    if (missing.length > 0) {
+      throw new AuthError(403, 'insufficient_scope', `Missing required scopes: ${missing.join(' ')}`);
+    }
+
+    return {
+      id: `oauth:${payload.sub}`,
+      type: 'oauth',
+      label: payload.sub,
+      scopes,
+      claims: payload
+    };
+  }
+
+  // Resolved once: the configured JWKS URL, or the one advertised in the
+  // issuer's authorization server metadata
+  private getJwks() {
+    if (!this.jwks) {
+      this.jwks = this.discoverJwksUrl().then(url => createRemoteJWKSet(new URL(url)));
+      this.jwks.catch(() => { this.jwks = undefined; });
+    }
+    return this.jwks;
+  }
+
+  private async discoverJwksUrl(): Promise<string> {
+    const oauth = this.options.oauth!;
+    if (oauth.jwksUrl) {
+      return oauth.jwksUrl;
+    }
+
+    const issuer = oauth.issuer.replace(/\/$/, '');
+    for (const path of ['/.well-known/oauth-authorization-server', '/.well-known/openid-configuration']) {
+      try {
+        const response = await axios.get(`${issuer}${path}`, { timeout: 5000 });
+        if (response.data?.jwks_uri) {
+          this.logger.info('Discovered JWKS URL', { jwksUrl: response.data.jwks_uri });
+          return response.data.jwks_uri;
+        }
+      } catch (error) {
+        this.logger.log('Authorization server metadata not found', { url: `${issuer}${path}` });
+      }
+    }
+    throw new Error(`Could not discover a JWKS URL for issuer ${oauth.issuer}`);
+  }
+
+  private resourceUrl(req: express.Request): string {
+    const base = this.options.publicUrl ?? `${req.protocol}://${req.get('host')}`;
+    return `${base.replace(/\/$/, '')}/mcp`;
+  }
+
+  private challenge(req: express.Request, error: AuthError): string {
+    const params = [`error="${error.code}"`, `error_description="${error.message.replace(/"/g, "'")}"`];
+    if (this.options.oauth) {
+      const base = this.options.publicUrl ?? `${req.protocol}://${req.get('host')}`;
+      params.push(`resource_metadata="${base.replace(/\/$/, '')}${PROTECTED_RESOURCE_METADATA_PATH}"`);
+    }
+    if (error.code === 'insufficient_scope') {
+      params.push(`scope="${this.options.oauth!.requiredScopes.join(' ')}"`);
+    }
+    return `Bearer ${params.join(', ')}`;
+  }
+}
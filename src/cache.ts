@@ -0,0 +1,242 @@
+import { createHash } from 'crypto';
+import { mkdirSync, readdirSync, statSync } from 'fs';
+import { readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { isCancel } from "axios";
+import { DebugLogger } from './debug-logger.js';
+
+// Response cache for upstream calls that are safe to repeat, with request
+// coalescing: concurrent callers asking for the same key share one upstream
+// call.
+
+interface CacheEntry {
+  expiresAt: number;
+  value: unknown;
+}
+
+interface CacheBackend {
+  readonly name: string;
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  size(): number;
+}
+
+// LRU over a Map: reads re-insert, so the first key is the least recently used
+class MemoryBackend implements CacheBackend {
+  readonly name = 'memory';
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries: number) {}
+
+  async get(key: string) {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry) {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  async delete(key: string) {
+    this.entries.delete(key);
+  }
+
+  async clear() {
+    this.entries.clear();
+  }
+
+  size() {
+    return this.entries.size;
+  }
+}
+
+// One JSON file per entry, so the cache survives restarts. Keys are hashes,
+// which keeps file names safe. An in-memory index in LRU order enforces the
+// size limit without listing the directory on every write.
+class DiskBackend implements CacheBackend {
+  readonly name = 'disk';
+  private index = new Map<string, true>();
+
+  constructor(private directory: string, private maxEntries: number, private logger: DebugLogger) {
+    mkdirSync(directory, { recursive: true });
+    readdirSync(directory)
+      .filter(file => file.endsWith('.json'))
+      .map(file => ({ key: file.slice(0, -5), mtime: statSync(path.join(directory, file)).mtimeMs }))
+      .sort((a, b) => a.mtime - b.mtime)
+      .forEach(({ key }) => this.index.set(key, true));
+  }
+
+  private file(key: string) {
+    return path.join(this.directory, `${key}.json`);
+  }
+
+  async get(key: string) {
+    if (!this.index.has(key)) {
+      return undefined;
+    }
+    try {
+      const entry = JSON.parse(await readFile(this.file(key), 'utf8')) as CacheEntry;
+      this.index.delete(key);
+      this.index.set(key, true);
+      return entry;
+    } catch (error) {
+      this.logger.warn('Discarding unreadable cache file', { key, error: (error as Error).message });
+      await this.delete(key);
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry) {
+    await writeFile(this.file(key), JSON.stringify(entry));
+    this.index.delete(key);
+    this.index.set(key, true);
+    while (this.index.size > this.maxEntries) {
+      await this.delete(this.index.keys().next().value!);
+    }
+  }
+
+  async delete(key: string) {
+    this.index.delete(key);
+    await rm(this.file(key), { force: true });
+  }
+
+  async clear() {
+    await Promise.all([...this.index.keys()].map(key => this.delete(key)));
+  }
+
+  size() {
+    return this.index.size;
+  }
+}
+
+export interface CacheOptions {
+  ttlMs: number;
+  maxEntries: number;
+  // Store entries on disk in this directory instead of in memory
+  directory?: string;
+}
+
+export interface CacheStats {
+  backend: string;
+  entries: number;
+  hits: number;
+  misses: number;
+  coalesced: number;
+  ttlSeconds: number;
+}
+
+// Key-order independent JSON, so equivalent payloads hash the same
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// Tenant is part of the key so accounts never see each other's results
+export function cacheKey(tenantId: string, scope: string, payload: unknown): string {
+  return createHash('sha256').update(`${tenantId}\n${scope}\n${stableStringify(payload)}`).digest('hex');
+}
+
+export class ResponseCache {
+  private backend: CacheBackend;
+  private inFlight = new Map<string, Promise<unknown>>();
+  private hits = 0;
+  private misses = 0;
+  private coalesced = 0;
+  // Bumped by clear(), so fetches that started before it don't store what
+  // may already be stale
+  private generation = 0;
+
+  constructor(private options: CacheOptions, private logger: DebugLogger) {
+    this.backend = options.directory
+      ? new DiskBackend(options.directory, options.maxEntries, logger)
+      : new MemoryBackend(options.maxEntries);
+  }
+
+  get enabled(): boolean {
+    return this.options.ttlMs > 0;
+  }
+
+  // Returns the cached value for `key`, joins an identical in-flight call, or
+  // calls `fetch`. With `bypass` the upstream is always called and the fresh
+  // result replaces the cached one.
+  async getOrFetch<T>(key: string, fetch: () => Promise<T>, bypass = false): Promise<T> {
+    if (!this.enabled) {
+      return fetch();
+    }
+
+    if (!bypass) {
+      const entry = await this.backend.get(key);
+      if (entry && entry.expiresAt > Date.now()) {
+        this.hits++;
+        this.logger.log('Cache hit', { key: key.slice(0, 12) });
+        return entry.value as T;
+      }
+
+      const pending = this.inFlight.get(key);
+      if (pending) {
+        this.coalesced++;
+        this.logger.log('Joining in-flight request', { key: key.slice(0, 12) });
+        // The caller that started the request may cancel it; the others then
+        // fetch for themselves
+        return (pending as Promise<T>).catch(error => {
+          if (!isCancel(error)) {
+            throw error;
+          }
+          return this.getOrFetch(key, fetch, bypass);
+        });
+      }
+    }
+
+    this.misses++;
+    const generation = this.generation;
+    const request = fetch()
+      .then(async value => {
+        if (generation === this.generation) {
+          await this.backend.set(key, { expiresAt: Date.now() + this.options.ttlMs, value });
+        }
+        return value;
+      })
+      .finally(() => {
+        if (this.inFlight.get(key) === request) {
+          this.inFlight.delete(key);
+        }
+      });
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  async clear() {
+    this.generation++;
+    this.inFlight.clear();
+    await this.backend.clear();
+  }
+
+  stats(): CacheStats {
+    return {
+      backend: this.backend.name,
+      entries: this.backend.size(),
+      hits: this.hits,
+      misses: this.misses,
+      coalesced: this.coalesced,
+      ttlSeconds: this.options.ttlMs / 1000
+    };
+  }
+}
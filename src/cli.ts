@@ -0,0 +1,312 @@
+#!/usr/bin/env node
+import { readFileSync, realpathSync } from 'fs';
+import { Readable, Writable } from 'stream';
+import { pathToFileURL } from 'url';
+import { config as loadDotenv } from 'dotenv';
+import { CommandSyntax, ConfigError, LoadedConfig, loadConfig, redactConfig, ServerConfig } from './config.js';
+import { DebugLogger } from './debug-logger.js';
+import { createServer, ServerDependencies } from './mcp-http-server.js';
+import { StdioTransport } from './stdio.js';
+import { MessageStream } from './streamable-http.js';
+
+// `readwise-mcp`: one entry point for every way of running the server. Each
+// command builds the same ReadwiseMcpHttpServer, so tools, resources and
+// prompts behave the same over HTTP, over stdio and from scripts. Settings
+// come from the usual places (config file, environment, flags) for every
+// command.
+
+const USAGE = `Usage: readwise-mcp <command> [options]
+
+Commands:
+  serve [--http | --stdio]      Run the MCP server over HTTP (the default) or
+                                over stdin/stdout for desktop MCP clients
+  call <tool> [--args <json>]   Call one tool and print its result. The
+                                arguments are a JSON object; --args - reads
+                                it from stdin, --args @file from a file
+  check                         Validate the configuration and the Readwise
+                                token, and report readiness
+
+Options:
+  --config <file>               Load settings from a YAML or JSON file
+  --print-config                Print the effective configuration and exit
+  --<setting> <value>           Any setting, named after its environment
+                                variable: --port 8080, --access-token ...
+  -h, --help                    Show this help
+`;
+
+const COMMAND_SYNTAX: CommandSyntax = {
+  options: {
+    http: { type: 'boolean' },
+    stdio: { type: 'boolean' },
+    args: { type: 'string' },
+    help: { type: 'boolean', short: 'h' }
+  },
+  allowPositionals: true
+};
+
+// Exit codes: 1 when the command ran and failed, 2 for a bad command line
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+export interface CliIO {
+  stdin: Readable;
+  stdout: Writable;
+  stderr: Writable;
+  env: NodeJS.ProcessEnv;
+}
+
+const PROCESS_IO: CliIO = {
+  stdin: process.stdin,
+  stdout: process.stdout,
+  stderr: process.stderr,
+  env: process.env
+};
+
+// Runs a command and resolves with the process exit code
+export async function runCli(
+  argv: string[],
+  io: CliIO = PROCESS_IO,
+  dependencies: ServerDependencies = {}
+): Promise<number> {
+  const [command, ...rest] = argv;
+  try {
+    if (!command) {
+      io.stderr.write(USAGE);
+      return 2;
+    }
+    if (command === '--help' || command === '-h') {
+      io.stdout.write(USAGE);
+      return 0;
+    }
+
+    const loaded = loadConfig(rest, io.env, COMMAND_SYNTAX);
+    if (loaded.options.help) {
+      io.stdout.write(USAGE);
+      return 0;
+    }
+    if (loaded.printConfig) {
+      io.stdout.write(JSON.stringify(redactConfig(loaded.config), null, 2) + '\n');
+      return 0;
+    }
+
+    switch (command) {
+      case 'serve':
+        return await serve(loaded, io, dependencies);
+      case 'call':
+        return await call(loaded, io, dependencies);
+      case 'check':
+        return await check(loaded, io, dependencies);
+      default:
+        throw new UsageError(`Unknown command: ${command}`);
+    }
+  } catch (error) {
+    if (error instanceof UsageError) {
+      io.stderr.write(`${error.message}\n\n${USAGE}`);
+      return 2;
+    }
+    if (error instanceof ConfigError) {
+      io.stderr.write(`${error.message}\n`);
+      return 1;
+    }
+    throw error;
+  }
+}
+
+function expectArguments(loaded: LoadedConfig, command: string, count: number, allowed: string[]) {
+  if (loaded.positionals.length !== count) {
+    throw new UsageError(count === 0
+      ? `${command} takes no arguments, got: ${loaded.positionals.join(' ')}`
+      : `${command} needs exactly ${count} argument${count === 1 ? '' : 's'}`);
+  }
+  const unexpected = Object.entries(loaded.options)
+    .filter(([name, value]) => value !== undefined && name !== 'help' && !allowed.includes(name))
+    .map(([name]) => `--${name}`);
+  if (unexpected.length > 0) {
+    throw new UsageError(`${command} does not accept ${unexpected.join(', ')}`);
+  }
+}
+
+// stdio and one-off calls have a single user: the ACCESS_TOKEN holder
+function requireAccessToken(config: ServerConfig, what: string) {
+  if (config.tenants.mode !== 'single') {
+    throw new ConfigError(`${what} uses ACCESS_TOKEN and needs tenants.mode single (TENANT_MODE), not ${config.tenants.mode}`);
+  }
+  if (!config.upstream.accessToken) {
+    throw new ConfigError(`${what} needs a Readwise token: set ACCESS_TOKEN or pass --access-token`);
+  }
+}
+
+// Logs go to stderr whenever stdout carries the command's output. One-off
+// commands only log errors unless debug logging is on.
+function stderrLogger(config: ServerConfig, oneOff: boolean): DebugLogger {
+  const level = oneOff && !config.logging.debug ? 'error' : config.logging.level;
+  return new DebugLogger({ level, format: config.logging.format, stderr: true });
+}
+
+async function serve(loaded: LoadedConfig, io: CliIO, dependencies: ServerDependencies): Promise<number> {
+  expectArguments(loaded, 'serve', 0, ['http', 'stdio']);
+  if (loaded.options.http && loaded.options.stdio) {
+    throw new UsageError('Choose one of --http and --stdio');
+  }
+
+  if (loaded.options.stdio) {
+    requireAccessToken(loaded.config, 'serve --stdio');
+    const logger = stderrLogger(loaded.config, false);
+    const server = createServer(loaded.config, { logger, ...dependencies });
+    const transport = new StdioTransport(io.stdin, io.stdout, logger);
+    logger.info('Serving MCP over stdio');
+    await transport.serve(server.connect(transport));
+    await server.close();
+    return 0;
+  }
+
+  const server = createServer(loaded.config, dependencies);
+  try {
+    await server.start();
+  } catch (error: any) {
+    io.stderr.write(`Cannot start the server: ${error.message}\n`);
+    return 1;
+  }
+  await new Promise<void>(resolve => {
+    process.once('SIGINT', resolve);
+    process.once('SIGTERM', resolve);
+  });
+  await server.close();
+  return 0;
+}
+
+// Server-initiated messages have nowhere to go for a one-off call
+const DISCARD: MessageStream = {
+  isClosed: false,
+  send() {},
+  onClose() {},
+  end() {}
+};
+
+async function readArguments(loaded: LoadedConfig, stdin: Readable): Promise<unknown> {
+  const source = loaded.options.args as string | undefined;
+  if (source === undefined) {
+    return {};
+  }
+  let text = source;
+  if (source === '-') {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stdin) {
+      chunks.push(Buffer.from(chunk));
+    }
+    text = Buffer.concat(chunks).toString('utf8');
+  } else if (source.startsWith('@')) {
+    try {
+      text = readFileSync(source.slice(1), 'utf8');
+    } catch (error: any) {
+      throw new UsageError(`Cannot read --args file: ${error.message}`);
+    }
+  }
+  let args: unknown;
+  try {
+    args = JSON.parse(text);
+  } catch (error: any) {
+    throw new UsageError(`--args is not valid JSON: ${error.message}`);
+  }
+  if (typeof args !== 'object' || args === null || Array.isArray(args)) {
+    throw new UsageError('--args must be a JSON object');
+  }
+  return args;
+}
+
+// Goes through the same initialize and tools/call handling an MCP client
+// would. Prints the text of the result on stdout, or of a failed result on
+// stderr.
+async function call(loaded: LoadedConfig, io: CliIO, dependencies: ServerDependencies): Promise<number> {
+  expectArguments(loaded, 'call', 1, ['args']);
+  const [tool] = loaded.positionals;
+  const args = await readArguments(loaded, io.stdin);
+  requireAccessToken(loaded.config, 'call');
+
+  const server = createServer(loaded.config, {
+    logger: stderrLogger(loaded.config, true),
+    backgroundTasks: false,
+    ...dependencies
+  });
+  const connection = server.connect(DISCARD);
+  try {
+    const initialized = await connection.receive({
+      jsonrpc: "2.0",
+      id: 0,
+      method: "initialize",
+      params: { clientInfo: { name: "readwise-mcp-cli" } }
+    });
+    if (initialized?.error) {
+      io.stderr.write(`Cannot connect to Readwise: ${initialized.error.message}\n`);
+      return 1;
+    }
+
+    const response = await connection.receive({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "tools/call",
+      params: { name: tool, arguments: args }
+    });
+    if (!response || response.error) {
+      io.stderr.write(`${response?.error?.message ?? 'No response'}\n`);
+      return response?.error?.code === -32601 || response?.error?.code === -32602 ? 2 : 1;
+    }
+
+    const text = (response.result.content ?? [])
+      .filter((item: any) => item.type === 'text')
+      .map((item: any) => item.text)
+      .join('\n');
+    (response.result.isError ? io.stderr : io.stdout).write(text + '\n');
+    return response.result.isError ? 1 : 0;
+  } finally {
+    connection.close();
+    await server.close();
+  }
+}
+
+async function check(loaded: LoadedConfig, io: CliIO, dependencies: ServerDependencies): Promise<number> {
+  expectArguments(loaded, 'check', 0, []);
+  const { config } = loaded;
+  io.stdout.write(`Configuration: ok${loaded.file ? ` (${loaded.file})` : ''}\n`);
+
+  if (config.tenants.mode === 'single' && !config.upstream.accessToken) {
+    io.stdout.write('Readwise token: missing, set ACCESS_TOKEN\n');
+    return 1;
+  }
+
+  const server = createServer(config, {
+    logger: stderrLogger(config, true),
+    backgroundTasks: false,
+    ...dependencies
+  });
+  try {
+    if (config.tenants.mode !== 'single') {
+      io.stdout.write(`Readwise token: not checked, tenants.mode ${config.tenants.mode} takes tokens per request\n`);
+    }
+    const report = await server.checkUpstream();
+    for (const [name, component] of Object.entries(report.components)) {
+      const detail = component.lastError ?? component.reason ?? component.state;
+      io.stdout.write(`  ${name}: ${component.status}${detail ? ` (${detail})` : ''}\n`);
+    }
+    io.stdout.write(`Status: ${report.status}\n`);
+    return report.status === 'not_ready' ? 1 : 0;
+  } finally {
+    await server.close();
+  }
+}
+
+// npm installs the bin as a symlink, while the module URL is the real path
+if (process.argv[1] && import.meta.url === pathToFileURL(realpathSync(process.argv[1])).href) {
+  // Load environment variables
+  loadDotenv();
+  runCli(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  }, error => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
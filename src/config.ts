@@ -0,0 +1,398 @@
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { parseArgs, ParseArgsConfig } from 'util';
+import { parse as parseYaml } from 'yaml';
+import { z } from "zod";
+import { parseApiKeys } from './auth.js';
+
+// Server configuration, merged from (lowest precedence first) built-in
+// defaults, an optional YAML or JSON config file, environment variables and
+// command-line flags, then validated as a whole. Durations are in seconds.
+
+// Environment variables that accept `true`/`false`, `1`/`0` or `yes`/`no`
+function flag() {
+  return z.preprocess(value => {
+    if (typeof value !== 'string') {
+      return value;
+    }
+    const normalized = value.trim().toLowerCase();
+    return ['true', '1', 'yes'].includes(normalized) ? true : ['false', '0', 'no'].includes(normalized) ? false : value;
+  }, z.boolean({ invalid_type_error: 'Expected true or false' }));
+}
+
+const NUMBER = { invalid_type_error: 'Expected a number' };
+
+function numeric<Schema extends z.ZodTypeAny>(schema: Schema) {
+  return z.preprocess(value => typeof value === 'string' && value.trim() !== '' ? Number(value) : value, schema);
+}
+
+function seconds() {
+  return numeric(z.number(NUMBER).min(0));
+}
+
+function count() {
+  return numeric(z.number(NUMBER).int().min(0));
+}
+
+// A list given as one string, as environment variables and flags are
+function list(separator: RegExp) {
+  return z.preprocess(
+    value => typeof value === 'string' ? value.split(separator).map(item => item.trim()).filter(Boolean) : value,
+    z.array(z.string())
+  );
+}
+
+const serverSchema = z.object({
+  host: z.string().min(1).default('0.0.0.0'),
+  port: numeric(z.number(NUMBER).int().min(0).max(65535)).default(3000),
+  // `*` allows any origin
+  corsOrigins: list(/,/).default(['*']),
+  publicUrl: z.string().url().optional(),
+  sessionIdleTimeout: seconds().default(1800),
+}).strict();
+
+const upstreamSchema = z.object({
+  baseUrl: z.string().url().default('https://readwise.io'),
+  accessToken: z.string().optional(),
+  timeout: numeric(z.number(NUMBER).positive()).default(10),
+  retry: z.object({
+    maxRetries: count().default(3),
+    baseDelay: seconds().default(0.5),
+    maxDelay: seconds().default(30),
+  }).strict().default({}),
+  rateLimitMaxWait: seconds().default(30),
+  circuitBreaker: z.object({
+    threshold: numeric(z.number(NUMBER).int().min(1)).default(5),
+    cooldown: seconds().default(30),
+  }).strict().default({}),
+  initMaxRetryDelay: numeric(z.number(NUMBER).positive()).default(300),
+  checkInterval: seconds().default(300),
+}).strict();
+
+const authSchema = z.object({
+  // label -> key; a `label:key,label:key` string is accepted too
+  apiKeys: z.preprocess(
+    value => typeof value === 'string' ? parseApiKeys(value) : Array.isArray(value) ? parseApiKeys(value.join(',')) : value,
+    z.record(z.string().min(1))
+  ).default({}),
+  oauth: z.object({
+    issuer: z.string().url().optional(),
+    audience: z.string().optional(),
+    jwksUrl: z.string().url().optional(),
+    scopes: list(/\s+/).default([]),
+  }).strict().default({}),
+  // Whether /health and /metrics stay reachable without credentials
+  publicHealth: flag().default(true),
+}).strict();
+
+const configSchema = z.object({
+  nodeEnv: z.string().optional(),
+  readOnly: flag().default(false),
+  promptsDir: z.string().optional(),
+  resourcePollInterval: seconds().default(300),
+  server: serverSchema.default({}),
+  upstream: upstreamSchema.default({}),
+  tenants: z.object({
+    mode: z.enum(['single', 'header', 'principal']).default('single'),
+    tokensFile: z.string().optional(),
+  }).strict().default({}),
+  auth: authSchema.default({}),
+  cache: z.object({
+    ttl: seconds().default(300),
+    maxEntries: numeric(z.number(NUMBER).int().min(1)).default(500),
+    directory: z.string().optional(),
+  }).strict().default({}),
+  mirror: z.object({
+    database: z.string().optional(),
+    syncInterval: seconds().default(3600),
+    // Defaults to three sync intervals
+    maxStaleness: seconds().optional(),
+  }).strict().default({}),
+  resurfacing: z.object({
+    historyFile: z.string().optional(),
+    historySize: numeric(z.number(NUMBER).int().min(1)).default(5000),
+    // 14 days
+    cooldown: seconds().default(1209600),
+  }).strict().default({}),
+  audit: z.object({
+    // The audit log is off without a database
+    database: z.string().optional(),
+    // 30 days; 0 keeps entries forever
+    retention: seconds().default(2592000),
+    // Store each tool result, not just its size
+    results: flag().default(false),
+    // A running mock server for replays; an in-process one when unset
+    replayMockUrl: z.string().url().optional(),
+    // API-key labels and an OAuth scope that see every entry; /admin/audit
+    // is refused when neither is set
+    adminKeys: list(/,/).default([]),
+    adminScope: z.string().min(1).optional(),
+  }).strict().default({}),
+  webhooks: z.object({
+    // Enables POST /webhooks/readwise
+    secret: z.string().min(1).optional(),
+  }).strict().default({}),
+  export: z.object({
+    templatesDir: z.string().optional(),
+    // Characters export_highlights_as returns before linking to GET /export
+    inlineLimit: numeric(z.number(NUMBER).int().min(1)).default(100000),
+  }).strict().default({}),
+  logging: z.object({
+    debug: flag().default(false),
+    level: z.enum(['debug', 'info', 'warn', 'error']).optional(),
+    format: z.enum(['json', 'pretty']).optional(),
+  }).strict().default({}),
+}).strict().superRefine((config, context) => {
+  if (config.upstream.retry.maxDelay < config.upstream.retry.baseDelay) {
+    context.addIssue({ code: "custom", path: ['upstream', 'retry', 'maxDelay'], message: 'Must not be less than upstream.retry.baseDelay' });
+  }
+  if (config.tenants.mode === 'principal' && Object.keys(config.auth.apiKeys).length === 0 && !config.auth.oauth.issuer) {
+    context.addIssue({ code: "custom", path: ['tenants', 'mode'], message: 'principal mode requires auth.apiKeys or auth.oauth.issuer' });
+  }
+  if (config.auth.oauth.issuer && !config.auth.oauth.audience && !config.server.publicUrl) {
+    context.addIssue({ code: "custom", path: ['auth', 'oauth', 'audience'], message: 'OAuth requires auth.oauth.audience or server.publicUrl, so tokens for other resources are refused' });
+  }
+  if (config.mirror.database && config.tenants.mode !== 'single') {
+    context.addIssue({ code: "custom", path: ['mirror', 'database'], message: 'The local mirror is only supported with tenants.mode single' });
+  }
+  if (config.webhooks.secret && config.tenants.mode !== 'single') {
+    context.addIssue({ code: "custom", path: ['webhooks', 'secret'], message: 'Webhooks are only supported with tenants.mode single' });
+  }
+}).transform(config => {
+  // Settings whose defaults depend on others
+  const debug = config.logging.debug || config.nodeEnv === 'development';
+  return {
+    ...config,
+    logging: {
+      debug,
+      level: config.logging.level ?? (debug ? 'debug' : 'info'),
+      format: config.logging.format ?? (config.nodeEnv === 'production' ? 'json' : 'pretty'),
+    },
+    mirror: {
+      ...config.mirror,
+      maxStaleness: config.mirror.maxStaleness ?? config.mirror.syncInterval * 3,
+    },
+  } as const;
+});
+
+export type ServerConfig = z.output<typeof configSchema>;
+
+// Environment variable for each setting. Every one is also a command-line
+// flag: PORT is --port, CACHE_TTL is --cache-ttl.
+const ENV_SETTINGS: Record<string, string> = {
+  NODE_ENV: 'nodeEnv',
+  READ_ONLY: 'readOnly',
+  PROMPTS_DIR: 'promptsDir',
+  RESOURCE_POLL_INTERVAL: 'resourcePollInterval',
+  HOST: 'server.host',
+  PORT: 'server.port',
+  CORS_ORIGINS: 'server.corsOrigins',
+  PUBLIC_URL: 'server.publicUrl',
+  SESSION_IDLE_TIMEOUT: 'server.sessionIdleTimeout',
+  BASE_URL: 'upstream.baseUrl',
+  ACCESS_TOKEN: 'upstream.accessToken',
+  UPSTREAM_TIMEOUT: 'upstream.timeout',
+  UPSTREAM_MAX_RETRIES: 'upstream.retry.maxRetries',
+  UPSTREAM_RETRY_BASE_DELAY: 'upstream.retry.baseDelay',
+  UPSTREAM_MAX_RETRY_DELAY: 'upstream.retry.maxDelay',
+  RATE_LIMIT_MAX_WAIT: 'upstream.rateLimitMaxWait',
+  CIRCUIT_BREAKER_THRESHOLD: 'upstream.circuitBreaker.threshold',
+  CIRCUIT_BREAKER_COOLDOWN: 'upstream.circuitBreaker.cooldown',
+  UPSTREAM_INIT_MAX_RETRY_DELAY: 'upstream.initMaxRetryDelay',
+  UPSTREAM_CHECK_INTERVAL: 'upstream.checkInterval',
+  TENANT_MODE: 'tenants.mode',
+  TENANT_TOKENS_FILE: 'tenants.tokensFile',
+  AUTH_API_KEYS: 'auth.apiKeys',
+  AUTH_OAUTH_ISSUER: 'auth.oauth.issuer',
+  AUTH_OAUTH_AUDIENCE: 'auth.oauth.audience',
+  AUTH_OAUTH_JWKS_URL: 'auth.oauth.jwksUrl',
+  AUTH_OAUTH_SCOPES: 'auth.oauth.scopes',
+  AUTH_PUBLIC_HEALTH: 'auth.publicHealth',
+  CACHE_TTL: 'cache.ttl',
+  CACHE_MAX_ENTRIES: 'cache.maxEntries',
+  CACHE_DIR: 'cache.directory',
+  MIRROR_DB: 'mirror.database',
+  MIRROR_SYNC_INTERVAL: 'mirror.syncInterval',
+  MIRROR_MAX_STALENESS: 'mirror.maxStaleness',
+  RESURFACING_HISTORY_FILE: 'resurfacing.historyFile',
+  RESURFACING_HISTORY_SIZE: 'resurfacing.historySize',
+  RESURFACING_COOLDOWN: 'resurfacing.cooldown',
+  AUDIT_DB: 'audit.database',
+  AUDIT_RETENTION: 'audit.retention',
+  AUDIT_RESULTS: 'audit.results',
+  AUDIT_REPLAY_MOCK_URL: 'audit.replayMockUrl',
+  AUDIT_ADMIN_KEYS: 'audit.adminKeys',
+  AUDIT_ADMIN_SCOPE: 'audit.adminScope',
+  WEBHOOK_SECRET: 'webhooks.secret',
+  EXPORT_TEMPLATES_DIR: 'export.templatesDir',
+  EXPORT_INLINE_LIMIT: 'export.inlineLimit',
+  DEBUG: 'logging.debug',
+  LOG_LEVEL: 'logging.level',
+  LOG_FORMAT: 'logging.format',
+};
+
+const CONFIG_FILE_ENV = 'CONFIG_FILE';
+
+function flagName(env: string): string {
+  return env.toLowerCase().replace(/_/g, '-');
+}
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+type Layer = Record<string, unknown>;
+
+function setPath(target: Layer, path: string, value: unknown) {
+  const keys = path.split('.');
+  let node = target;
+  for (const key of keys.slice(0, -1)) {
+    node = (node[key] ??= {}) as Layer;
+  }
+  node[keys[keys.length - 1]] = value;
+}
+
+function isObject(value: unknown): value is Layer {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Later layers win; nested sections merge key by key
+function merge(...layers: Layer[]): Layer {
+  const result: Layer = {};
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer)) {
+      result[key] = isObject(value) && isObject(result[key]) ? merge(result[key] as Layer, value) : value;
+    }
+  }
+  return result;
+}
+
+function readConfigFile(file: string): Layer {
+  let text: string;
+  try {
+    text = readFileSync(file, 'utf8');
+  } catch (error: any) {
+    throw new ConfigError(`Cannot read config file ${file}: ${error.message}`);
+  }
+  let parsed: unknown;
+  try {
+    parsed = extname(file).toLowerCase() === '.json' ? JSON.parse(text) : parseYaml(text);
+  } catch (error: any) {
+    throw new ConfigError(`Config file ${file} is not valid ${extname(file).toLowerCase() === '.json' ? 'JSON' : 'YAML'}: ${error.message}`);
+  }
+  if (parsed === null || parsed === undefined) {
+    return {};
+  }
+  if (!isObject(parsed)) {
+    throw new ConfigError(`Config file ${file} must contain an object`);
+  }
+  return parsed;
+}
+
+// Empty values count as unset, as they always have for this server
+function envLayer(env: NodeJS.ProcessEnv): Layer {
+  const layer: Layer = {};
+  for (const [name, path] of Object.entries(ENV_SETTINGS)) {
+    if (env[name]) {
+      setPath(layer, path, env[name]);
+    }
+  }
+  return layer;
+}
+
+// Where a setting can be given, for error messages
+function describePath(path: string): string {
+  const env = Object.entries(ENV_SETTINGS).find(([, settingPath]) => settingPath === path)?.[0];
+  return env ? `${path} (${env} / --${flagName(env)})` : path;
+}
+
+export interface LoadedConfig {
+  config: ServerConfig;
+  // Set when the config came partly from a file
+  file?: string;
+  // --print-config: show the effective config instead of starting
+  printConfig: boolean;
+  // The command's own arguments, when it declared any
+  positionals: string[];
+  options: Record<string, string | boolean | undefined>;
+}
+
+// Flags and positional arguments a command accepts besides the settings
+export interface CommandSyntax {
+  options?: NonNullable<ParseArgsConfig['options']>;
+  allowPositionals?: boolean;
+}
+
+export function loadConfig(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env,
+  syntax: CommandSyntax = {}
+): LoadedConfig {
+  let parsed: { values: Record<string, string | boolean | undefined>; positionals: string[] };
+  try {
+    parsed = parseArgs({
+      args: argv,
+      options: {
+        ...syntax.options,
+        config: { type: 'string' },
+        'print-config': { type: 'boolean' },
+        ...Object.fromEntries(Object.keys(ENV_SETTINGS).map(name => [flagName(name), { type: 'string' as const }]))
+      },
+      strict: true,
+      allowPositionals: !!syntax.allowPositionals
+    }) as typeof parsed;
+  } catch (error: any) {
+    throw new ConfigError(`Invalid command line: ${error.message}`);
+  }
+  const flags = parsed.values;
+
+  const cliLayer: Layer = {};
+  for (const [name, path] of Object.entries(ENV_SETTINGS)) {
+    const value = flags[flagName(name)];
+    if (value !== undefined) {
+      setPath(cliLayer, path, value);
+    }
+  }
+
+  const file = (flags.config as string | undefined) || env[CONFIG_FILE_ENV] || undefined;
+  const merged = merge(file ? readConfigFile(file) : {}, envLayer(env), cliLayer);
+
+  const options = Object.fromEntries(Object.keys(syntax.options ?? {}).map(name => [name, flags[name]]));
+  return {
+    config: parseConfig(merged, file),
+    file,
+    printConfig: !!flags['print-config'],
+    positionals: parsed.positionals,
+    options
+  };
+}
+
+// Validates a config object in the config file's layout and fills in the
+// defaults, for embedding the server without files or environment variables
+export function parseConfig(input: unknown, file?: string): ServerConfig {
+  const result = configSchema.safeParse(input);
+  if (!result.success) {
+    const problems = result.error.issues.map(issue => {
+      const path = issue.path.join('.');
+      return `  - ${path ? describePath(path) : '(root)'}: ${issue.message}`;
+    });
+    throw new ConfigError(`Invalid configuration${file ? ` (config file ${file})` : ''}:\n${problems.join('\n')}`);
+  }
+  return result.data;
+}
+
+// The effective config with credentials replaced, safe to print or log
+export function redactConfig(config: ServerConfig) {
+  return {
+    ...config,
+    upstream: { ...config.upstream, ...(config.upstream.accessToken && { accessToken: '[REDACTED]' }) },
+    auth: {
+      ...config.auth,
+      apiKeys: Object.fromEntries(Object.keys(config.auth.apiKeys).map(label => [label, '[REDACTED]']))
+    },
+    webhooks: { ...config.webhooks, ...(config.webhooks.secret && { secret: '[REDACTED]' }) }
+  };
+}
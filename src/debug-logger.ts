@@ -0,0 +1,167 @@
+import { currentRequestId } from './request-context.js';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFormat = 'json' | 'pretty';
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Credentials never reach the logs, whatever object they are nested in
+const SECRET_KEY = /authorization|token|api[-_]?key|password|secret|cookie/i;
+// Highlight and document text is the user's private content; only its length
+// is logged
+const CONTENT_KEY = /^(text|note|content|snippet|summary|html|html_content|highlight_plaintext|highlight_note|document_note)$/i;
+
+function redactValue(key: string, value: unknown, seen: WeakSet<object>, depth: number): unknown {
+  if (SECRET_KEY.test(key) && value !== undefined && value !== null && typeof value !== 'object') {
+    return '[REDACTED]';
+  }
+  if (CONTENT_KEY.test(key) && typeof value === 'string') {
+    return `[${value.length} chars]`;
+  }
+  return redactData(value, seen, depth + 1);
+}
+
+function redactData(data: unknown, seen: WeakSet<object>, depth: number): unknown {
+  if (data === null || typeof data !== 'object') {
+    return data;
+  }
+  if (seen.has(data) || depth > 8) {
+    return '[…]';
+  }
+  seen.add(data);
+  if (Array.isArray(data)) {
+    return data.map(item => redactData(item, seen, depth + 1));
+  }
+  return Object.fromEntries(
+    Object.entries(data).map(([key, value]) => [key, redactValue(key, value, seen, depth)])
+  );
+}
+
+// Copy of `data` with tokens removed and highlight text reduced to its length
+export function redact(data: unknown): unknown {
+  return redactData(data, new WeakSet(), 0);
+}
+
+// Levelled logger. `pretty` is the human-readable console format; `json`
+// writes one object per line for log pipelines. Every entry carries the
+// current request's correlation ID and passes through redaction. With
+// `stderr` nothing goes to stdout, which the stdio transport and the CLI
+// keep for their own output.
+export class DebugLogger {
+  private level: LogLevel;
+  private format: LogFormat;
+  private stderr: boolean;
+
+  constructor(options: { level: LogLevel; format: LogFormat; stderr?: boolean }) {
+    this.level = options.level;
+    this.format = options.format;
+    this.stderr = !!options.stderr;
+  }
+
+  get debugMode(): boolean {
+    return this.level === 'debug';
+  }
+
+  get jsonFormat(): boolean {
+    return this.format === 'json';
+  }
+
+  log(message: string, data?: any) {
+    this.write('debug', message, data);
+  }
+
+  info(message: string, data?: any) {
+    this.write('info', message, data);
+  }
+
+  warn(message: string, data?: any) {
+    this.write('warn', message, data);
+  }
+
+  error(message: string, error?: any) {
+    this.write('error', message, undefined, error);
+  }
+
+  connection(clientIp: string, userAgent: string, method: string, url: string) {
+    if (!this.enabled('info')) {
+      return;
+    }
+    if (this.jsonFormat) {
+      this.write('info', 'HTTP request', { method, url, clientIp, userAgent });
+      return;
+    }
+    const prefix = this.prettyPrefix();
+    const stream = this.stderr ? console.error : console.log;
+    stream(`${prefix} 🔗 CONNECTION: ${method} ${url} from ${clientIp}`);
+    if (this.debugMode) {
+      stream(`${prefix} 📱 USER-AGENT: ${userAgent}`);
+    }
+  }
+
+  private enabled(level: LogLevel): boolean {
+    return LEVELS[level] >= LEVELS[this.level];
+  }
+
+  private write(level: LogLevel, message: string, data?: any, error?: any) {
+    if (!this.enabled(level)) {
+      return;
+    }
+    const stream = level === 'error' || this.stderr ? console.error : level === 'warn' ? console.warn : console.log;
+
+    if (this.jsonFormat) {
+      const entry: Record<string, unknown> = {
+        time: new Date().toISOString(),
+        level,
+        msg: message,
+        requestId: currentRequestId()
+      };
+      if (data !== undefined) {
+        entry.data = redact(data);
+      }
+      if (error !== undefined) {
+        entry.error = this.redactError(error);
+      }
+      stream(JSON.stringify(entry));
+      return;
+    }
+
+    // Pretty output keeps payloads for debug mode, as before
+    const prefix = this.prettyPrefix();
+    const labels = { debug: '🔍 DEBUG', info: 'ℹ️  INFO', warn: '⚠️  WARN', error: '❌ ERROR' };
+    stream(`${prefix} ${labels[level]}: ${message}`);
+    if (data && this.debugMode) {
+      stream(`${prefix} 📊 DATA:`, JSON.stringify(redact(data), null, 2));
+    }
+    if (error && this.debugMode) {
+      stream(`${prefix} 📊 ERROR:`, this.redactError(error));
+    }
+  }
+
+  private prettyPrefix(): string {
+    const requestId = currentRequestId();
+    return `[${new Date().toISOString()}]${requestId ? ` [${requestId.slice(0, 8)}]` : ''}`;
+  }
+
+  // Axios errors carry the request config, including the Readwise token
+  // header, so only log what is needed to debug the failure
+  private redactError(error: any) {
+    if (error?.isAxiosError) {
+      return {
+        message: error.message,
+        code: error.code,
+        method: error.config?.method?.toUpperCase(),
+        url: error.config?.url,
+        status: error.response?.status,
+        response: redact(error.response?.data)
+      };
+    }
+    if (error instanceof Error) {
+      return {
+        name: error.name,
+        message: error.message,
+        ...(this.debugMode && { stack: error.stack })
+      };
+    }
+    return redact(error);
+  }
+}
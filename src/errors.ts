@@ -0,0 +1,131 @@
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { AxiosError } from "axios";
+import { retryAfter } from 'axios-retry';
+import { McpResponse } from './mcp-types.js';
+import { UpstreamUnavailableError } from './resilience.js';
+
+// Classification of failures so callers can tell an expired token from a
+// timeout or a bad query. Every class has a stable JSON-RPC code, used both in
+// protocol errors and in the `isError` results of tool calls.
+
+export type ErrorType = 'auth' | 'rate_limited' | 'not_found' | 'validation' | 'timeout' | 'unavailable' | 'internal';
+
+export const ERROR_CODES: Record<ErrorType, number> = {
+  unavailable: -32003,
+  rate_limited: -32004,
+  timeout: -32005,
+  auth: -32006,
+  not_found: -32007,
+  validation: -32008,
+  internal: -32603
+};
+
+export interface ErrorData {
+  type: ErrorType;
+  // Whether repeating the same call later may succeed
+  retryable: boolean;
+  retry_after_seconds?: number;
+  upstream_status?: number;
+  // Readwise's own explanation, for auth and validation failures
+  upstream_message?: string;
+}
+
+export interface ClassifiedError {
+  code: number;
+  message: string;
+  data: ErrorData;
+}
+
+function classified(type: ErrorType, message: string, details: Omit<ErrorData, 'type'>): ClassifiedError {
+  return { code: ERROR_CODES[type], message, data: { type, ...details } };
+}
+
+function upstreamMessage(error: AxiosError): string | undefined {
+  const body = error.response?.data as any;
+  if (body === undefined || body === null || body === '') {
+    return undefined;
+  }
+  const text = typeof body === 'string' ? body : typeof body.detail === 'string' ? body.detail : JSON.stringify(body);
+  return text.length > 300 ? `${text.slice(0, 300)}…` : text;
+}
+
+function retryAfterSeconds(ms: number): number | undefined {
+  return ms > 0 ? Math.ceil(ms / 1000) : undefined;
+}
+
+export function classifyError(error: unknown): ClassifiedError {
+  if (error instanceof UpstreamUnavailableError) {
+    return classified(error.reason === 'rate_limited' ? 'rate_limited' : 'unavailable', error.message, {
+      retryable: true,
+      retry_after_seconds: retryAfterSeconds(error.retryAfterMs)
+    });
+  }
+
+  if (!(error instanceof AxiosError)) {
+    return classified('internal', "Tool execution failed", { retryable: false });
+  }
+
+  const status = error.response?.status;
+  const upstream_status = status;
+  if (status === undefined) {
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+      return classified('timeout', "Readwise did not respond in time", { retryable: true });
+    }
+    return classified('unavailable', "Could not reach Readwise", { retryable: true });
+  }
+
+  if (status === 401 || status === 403) {
+    return classified('auth', status === 401
+      ? "Readwise rejected the access token; it may be missing, expired or revoked"
+      : "The Readwise access token is not allowed to do this", {
+      retryable: false,
+      upstream_status,
+      upstream_message: upstreamMessage(error)
+    });
+  }
+  if (status === 429) {
+    const seconds = retryAfterSeconds(retryAfter(error));
+    return classified('rate_limited', seconds
+      ? `Readwise rate limit reached; retry after ${seconds} seconds`
+      : "Readwise rate limit reached", { retryable: true, retry_after_seconds: seconds, upstream_status });
+  }
+  if (status === 404) {
+    return classified('not_found', "The requested item does not exist in Readwise", { retryable: false, upstream_status });
+  }
+  if (status === 408 || status === 504) {
+    return classified('timeout', "Readwise did not respond in time", { retryable: true, upstream_status });
+  }
+  if (status >= 500) {
+    return classified('unavailable', `Readwise is unavailable (HTTP ${status})`, {
+      retryable: true,
+      retry_after_seconds: retryAfterSeconds(retryAfter(error)),
+      upstream_status
+    });
+  }
+  return classified('validation', "Readwise rejected the request as invalid", {
+    retryable: false,
+    upstream_status,
+    upstream_message: upstreamMessage(error)
+  });
+}
+
+// Execution failures go back to the model as a tool result, so it can read
+// what went wrong and decide what to do next
+export function toolErrorResult(error: ClassifiedError): CallToolResult {
+  return {
+    content: [{ type: "text", text: JSON.stringify({ error: { code: error.code, message: error.message, ...error.data } }) }],
+    isError: true
+  };
+}
+
+export function jsonRpcError(id: McpResponse['id'], error: ClassifiedError): McpResponse {
+  return {
+    jsonrpc: "2.0",
+    id,
+    error: {
+      code: error.code,
+      message: error.message,
+      data: error.data
+    }
+  };
+}
@@ -0,0 +1,127 @@
+import { z } from "zod";
+import { ToolContext } from '../tools/registry.js';
+import { searchPayloadSchema } from '../tools/search-highlights.js';
+import { ExportChunk, ExportDocument, renderExport } from './render.js';
+import { bookSource, ExportSource, searchSource, tagSource } from './sources.js';
+import { ExportTemplate, ExportTemplateRegistry } from './templates.js';
+
+// One export pipeline behind both the export_highlights_as tool and the
+// GET /export route: pick the highlights, pick the template, stream chunks.
+
+export const exportRequestSchema = z.object({
+  search: searchPayloadSchema.optional().describe("Export the results of this highlight search"),
+  book_id: z.number().int().optional().describe("Export every highlight of this book"),
+  tag: z.string().min(1).optional().describe("Export every highlight with this tag (case-insensitive)"),
+  format: z.string().default("obsidian")
+    .describe("Export template: obsidian (Markdown with front-matter and block references), jsonl, csv, or a template from EXPORT_TEMPLATES_DIR"),
+  title: z.string().min(1).optional().describe("Document title; defaults to one describing what was exported"),
+  max_pages: z.number().int().min(1).max(50).default(10)
+    .describe("Upper bound on Readwise pages to fetch for a book or tag export"),
+});
+
+export type ExportRequest = z.infer<typeof exportRequestSchema>;
+
+// A request that names no source, several sources or an unknown format
+export class ExportRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExportRequestError';
+  }
+}
+
+const MEDIA_TYPES: Record<ExportTemplate['kind'], { mimeType: string; extension: string }> = {
+  markdown: { mimeType: 'text/markdown; charset=utf-8', extension: 'md' },
+  jsonl: { mimeType: 'application/x-ndjson; charset=utf-8', extension: 'jsonl' },
+  csv: { mimeType: 'text/csv; charset=utf-8', extension: 'csv' }
+};
+
+export interface ExportStream {
+  template: ExportTemplate;
+  mimeType: string;
+  filename: string;
+  // Nothing is fetched until the first chunk is read
+  chunks: AsyncGenerator<ExportChunk>;
+}
+
+export interface ExporterOptions {
+  // Characters the tool returns inline before pointing at GET /export
+  inlineLimit: number;
+  // Base for download links; relative links without it
+  publicUrl?: string;
+}
+
+function slug(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'export';
+}
+
+// Query parameters of GET /export are strings; these become the tool's
+// argument types before validation
+export function exportRequestFromQuery(query: Record<string, unknown>): unknown {
+  const number = (value: unknown) => typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  let search = query.search;
+  if (typeof search === 'string') {
+    try {
+      search = JSON.parse(search);
+    } catch {
+      throw new ExportRequestError('search must be a JSON search payload');
+    }
+  }
+  return { ...query, search, book_id: number(query.book_id), max_pages: number(query.max_pages) };
+}
+
+export class HighlightExporter {
+  constructor(readonly templates: ExportTemplateRegistry, readonly options: ExporterOptions) {}
+
+  // Throws ExportRequestError right away for a request that can't work;
+  // upstream failures surface from the first chunk
+  open(request: ExportRequest, context: ToolContext): ExportStream {
+    const sources = [request.search, request.book_id, request.tag].filter(source => source !== undefined);
+    if (sources.length !== 1) {
+      throw new ExportRequestError('Give exactly one of search, book_id and tag');
+    }
+    const template = this.templates.get(request.format);
+    if (!template) {
+      throw new ExportRequestError(`Unknown export format ${request.format}; available: ${this.templates.names().join(', ')}`);
+    }
+
+    const { mimeType, extension } = MEDIA_TYPES[template.kind];
+    const name = request.title
+      ?? (request.search ? `readwise-search-${request.search.vector_search_term}`
+        : request.book_id !== undefined ? `readwise-book-${request.book_id}`
+        : `readwise-tag-${request.tag}`);
+    return {
+      template,
+      mimeType,
+      filename: `${slug(name)}.${extension}`,
+      chunks: this.render(request, template, context)
+    };
+  }
+
+  // Where GET /export serves the same export
+  downloadUrl(request: ExportRequest): string {
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(request)) {
+      if (value !== undefined) {
+        query.set(key, typeof value === 'object' ? JSON.stringify(value) : String(value));
+      }
+    }
+    return `${this.options.publicUrl?.replace(/\/+$/, '') ?? ''}/export?${query}`;
+  }
+
+  private async *render(request: ExportRequest, template: ExportTemplate, context: ToolContext): AsyncGenerator<ExportChunk> {
+    let source: ExportSource;
+    let document: Omit<ExportDocument, 'title'>;
+    if (request.search) {
+      source = await searchSource(request.search, context);
+      document = { source: 'search', query: request.search.vector_search_term, exported_at: new Date().toISOString() };
+    } else if (request.book_id !== undefined) {
+      source = await bookSource(request.book_id, request.max_pages, context);
+      document = { source: 'book', query: String(request.book_id), exported_at: new Date().toISOString() };
+    } else {
+      source = tagSource(request.tag!, request.max_pages, context);
+      document = { source: 'tag', query: request.tag!, exported_at: new Date().toISOString() };
+    }
+    context.logger.log('Exporting highlights', { ...document, format: template.name });
+    yield* renderExport(template, { ...document, title: request.title ?? source.title }, source.batches);
+  }
+}
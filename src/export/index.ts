@@ -0,0 +1,22 @@
+import { DebugLogger } from '../debug-logger.js';
+import { ExporterOptions, HighlightExporter } from './exporter.js';
+import { csvTemplate, ExportTemplateRegistry, jsonlTemplate, obsidianTemplate } from './templates.js';
+
+export { ExportRequestError, exportRequestFromQuery, exportRequestSchema, HighlightExporter } from './exporter.js';
+export type { ExporterOptions, ExportRequest, ExportStream } from './exporter.js';
+export { ExportTemplateRegistry, exportTemplateSchema } from './templates.js';
+export type { ExportTemplate } from './templates.js';
+
+// Built-in export formats, plus any JSON template files in `directory`. A
+// file can replace a built-in format by reusing its name.
+export function createHighlightExporter(logger: DebugLogger, options: ExporterOptions & { templatesDir?: string }): HighlightExporter {
+  const templates = new ExportTemplateRegistry(logger);
+  templates.register(obsidianTemplate);
+  templates.register(jsonlTemplate);
+  templates.register(csvTemplate);
+
+  if (options.templatesDir) {
+    templates.loadDirectory(options.templatesDir);
+  }
+  return new HighlightExporter(templates, { inlineLimit: options.inlineLimit, publicUrl: options.publicUrl });
+}
@@ -0,0 +1,160 @@
+import { stringify as stringifyYaml } from 'yaml';
+import { Highlight } from '../tools/formatting.js';
+import { ExportTemplate } from './templates.js';
+
+// Renders highlights with an export template one at a time, so an export of
+// the whole library never has to be one string in memory, and a consumer can
+// stop after any highlight.
+
+// What the export as a whole is about; available to every Markdown template
+export interface ExportDocument {
+  title: string;
+  source: 'search' | 'book' | 'tag';
+  // The search term, tag or book ID the export was made from
+  query: string;
+  exported_at: string;
+}
+
+// The opening and closing text of the document, or a single highlight
+export interface ExportChunk {
+  text: string;
+  // Highlights rendered in this chunk, 0 or 1
+  highlights: number;
+}
+
+type Variables = Record<string, string>;
+
+const SECTION = /\{\{#\s*([A-Za-z0-9_]+)\s*\}\}([\s\S]*?)\{\{\/\s*\1\s*\}\}/g;
+const PLACEHOLDER = /\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g;
+
+// {{name}} is replaced by the variable, or nothing when it is unset;
+// {{#name}}…{{/name}} keeps its contents only when the variable is non-empty
+export function fillTemplate(template: string, variables: Variables): string {
+  return template
+    .replace(SECTION, (_, name, contents) => variables[name] ? contents : '')
+    .replace(PLACEHOLDER, (_, name) => variables[name] ?? '');
+}
+
+function text(value: string | number | null | undefined): string {
+  return value === null || value === undefined ? '' : String(value);
+}
+
+function documentVariables(document: ExportDocument): Variables {
+  return { ...document };
+}
+
+function bookVariables(highlight: Highlight): Variables {
+  return {
+    book_id: text(highlight.book_id),
+    book_title: highlight.title ?? 'Untitled',
+    book_author: text(highlight.author)
+  };
+}
+
+// `position` numbers highlights without an ID, so their block references
+// stay unique within the document
+function highlightVariables(highlight: Highlight, position: number): Variables {
+  return {
+    ...bookVariables(highlight),
+    id: text(highlight.id),
+    block_id: highlight.id !== null ? `rw-${highlight.id}` : `rw-n${position}`,
+    text: highlight.text,
+    quote: highlight.text.split('\n').map(line => `> ${line}`).join('\n'),
+    note: text(highlight.note),
+    // Obsidian tags can't contain spaces
+    tags: highlight.tags.map(tag => `#${tag.replace(/\s+/g, '-')}`).join(' '),
+    tag_list: highlight.tags.join(', '),
+    location: text(highlight.location),
+    url: text(highlight.url),
+    highlighted_at: text(highlight.highlighted_at)
+  };
+}
+
+function frontMatter(template: ExportTemplate, variables: Variables): string {
+  const properties = Object.fromEntries(
+    Object.entries(template.frontMatter)
+      .map(([key, value]) => [key, fillTemplate(value, variables)])
+      .filter(([, value]) => value !== '')
+  );
+  return Object.keys(properties).length > 0 ? `---\n${stringifyYaml(properties)}---\n\n` : '';
+}
+
+// Text starting like a formula is prefixed with a quote, so spreadsheets
+// show it instead of evaluating it
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function csvValue(value: unknown): string {
+  let cell = Array.isArray(value) ? value.join(', ') : value === null || value === undefined ? '' : String(value);
+  if (typeof value !== 'number' && FORMULA_START.test(cell)) {
+    cell = `'${cell}`;
+  }
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+function csvRow(values: unknown[]): string {
+  return values.map(csvValue).join(',') + '\r\n';
+}
+
+// Stateful per document: Markdown starts a book section whenever the book
+// changes from the previous highlight
+function highlightRenderer(template: ExportTemplate): (highlight: Highlight) => string {
+  switch (template.kind) {
+    case 'jsonl':
+      return highlight => JSON.stringify(Object.fromEntries(template.fields.map(field => [field, highlight[field]]))) + '\n';
+    case 'csv':
+      return highlight => csvRow(template.fields.map(field => highlight[field]));
+    case 'markdown': {
+      let position = 0;
+      let lastBook: string | undefined;
+      return highlight => {
+        position++;
+        const book = `${highlight.book_id ?? ''}\n${highlight.title ?? ''}`;
+        const heading = book !== lastBook ? fillTemplate(template.book, bookVariables(highlight)) : '';
+        lastBook = book;
+        return heading + fillTemplate(template.highlight, highlightVariables(highlight, position));
+      };
+    }
+  }
+}
+
+function opening(template: ExportTemplate, document: ExportDocument): string {
+  switch (template.kind) {
+    case 'jsonl':
+      return '';
+    case 'csv':
+      return csvRow(template.fields);
+    case 'markdown': {
+      const variables = documentVariables(document);
+      return frontMatter(template, variables) + fillTemplate(template.header, variables);
+    }
+  }
+}
+
+export async function* renderExport(
+  template: ExportTemplate,
+  document: ExportDocument,
+  batches: AsyncIterable<Highlight[]>
+): AsyncGenerator<ExportChunk> {
+  const pages = batches[Symbol.asyncIterator]();
+  try {
+    // The first batch is fetched before anything is written, so an export
+    // that can't start fails instead of producing an empty document
+    let page = await pages.next();
+    yield { text: opening(template, document), highlights: 0 };
+
+    const render = highlightRenderer(template);
+    while (!page.done) {
+      for (const highlight of page.value) {
+        yield { text: render(highlight), highlights: 1 };
+      }
+      page = await pages.next();
+    }
+
+    if (template.kind === 'markdown' && template.footer) {
+      yield { text: fillTemplate(template.footer, documentVariables(document)), highlights: 0 };
+    }
+  } finally {
+    // Stops paging when the consumer gives up early
+    await pages.return?.();
+  }
+}
@@ -0,0 +1,95 @@
+import { ExportBook } from '../mirror/index.js';
+import { fromLocalHighlight, fromSearchResult, fromV2Highlight, Highlight } from '../tools/formatting.js';
+import { iterateAllPages, iterateCursorPages } from '../tools/pagination.js';
+import { ToolContext } from '../tools/registry.js';
+import { SearchPayload, searchHighlights } from '../tools/search-highlights.js';
+
+// Where an export's highlights come from. Each source yields batches as they
+// arrive from Readwise or the mirror, grouped by book where it can.
+
+// Highlights read from the local mirror per batch
+const MIRROR_BATCH_SIZE = 1000;
+
+export interface ExportSource {
+  title: string;
+  batches: AsyncIterable<Highlight[]>;
+}
+
+// Search results come back in one response, ranked. They are regrouped by
+// book, keeping the books in order of their best result.
+export async function searchSource(payload: SearchPayload, context: ToolContext): Promise<ExportSource> {
+  const results = (await searchHighlights(payload, context)).map(fromSearchResult);
+  const books = new Map<string, Highlight[]>();
+  for (const highlight of results) {
+    const book = `${highlight.book_id ?? ''}\n${highlight.title ?? ''}`;
+    books.set(book, [...books.get(book) ?? [], highlight]);
+  }
+  return {
+    title: `Readwise search: ${payload.vector_search_term}`,
+    batches: (async function* () {
+      yield [...books.values()].flat();
+    })()
+  };
+}
+
+export async function bookSource(bookId: number, maxPages: number, context: ToolContext): Promise<ExportSource> {
+  const { axios, logger, signal, reportProgress } = context;
+  // The book supplies the title and author for every highlight
+  const book = (await axios.get(`/api/v2/books/${bookId}/`, { signal })).data;
+  const pages = iterateAllPages<any>(
+    axios,
+    logger,
+    "/api/v2/highlights/",
+    { book_id: bookId, page_size: 1000 },
+    maxPages,
+    { signal, reportProgress }
+  );
+  return {
+    title: book.title ?? `Readwise book ${bookId}`,
+    batches: (async function* () {
+      for await (const page of pages) {
+        yield page.map(highlight => fromV2Highlight(highlight, book));
+      }
+    })()
+  };
+}
+
+// The v2 API can't filter highlights by tag, so without a mirror this walks
+// the export API and keeps the highlights carrying the tag
+export function tagSource(tag: string, maxPages: number, context: ToolContext): ExportSource {
+  const { mirror, axios, logger, signal, reportProgress } = context;
+  const title = `Highlights tagged #${tag}`;
+
+  if (mirror) {
+    return {
+      title,
+      batches: (async function* () {
+        for (let offset = 0; ; offset += MIRROR_BATCH_SIZE) {
+          const rows = mirror.search({ tag, byBook: true, limit: MIRROR_BATCH_SIZE, offset });
+          if (rows.length > 0) {
+            yield rows.map(fromLocalHighlight);
+          }
+          if (rows.length < MIRROR_BATCH_SIZE) {
+            return;
+          }
+        }
+      })()
+    };
+  }
+
+  const wanted = tag.toLowerCase();
+  const pages = iterateCursorPages<ExportBook>(axios, logger, "/api/v2/export/", {}, maxPages, undefined, { signal, reportProgress });
+  return {
+    title,
+    batches: (async function* () {
+      for await (const books of pages) {
+        yield books.flatMap(book => book.highlights
+          .filter(highlight => !highlight.is_deleted && highlight.tags?.some(({ name }) => name.toLowerCase() === wanted))
+          .map(highlight => fromV2Highlight(
+            { ...highlight, book_id: book.user_book_id },
+            { title: book.title ?? undefined, author: book.author ?? undefined, source_url: book.source_url ?? undefined }
+          )));
+      }
+    })()
+  };
+}
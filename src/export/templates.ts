@@ -0,0 +1,106 @@
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { z } from "zod";
+import { DebugLogger } from '../debug-logger.js';
+import { highlightSchema } from '../tools/formatting.js';
+
+// Export formats are declarative templates, so the built-in formats and JSON
+// files dropped into EXPORT_TEMPLATES_DIR work the same way. Markdown
+// templates are text with {{name}} placeholders; JSONL and CSV templates pick
+// the highlight fields to write.
+
+const HIGHLIGHT_FIELDS = Object.keys(highlightSchema.shape) as [keyof typeof highlightSchema.shape, ...Array<keyof typeof highlightSchema.shape>];
+
+export const exportTemplateSchema = z.object({
+  name: z.string().regex(/^[A-Za-z0-9_-]+$/),
+  description: z.string().default(''),
+  kind: z.enum(["markdown", "jsonl", "csv"]),
+  // Markdown: YAML front-matter properties, then text for the top of the
+  // document, for each book, for each highlight and for the end
+  frontMatter: z.record(z.string()).default({}),
+  header: z.string().default(''),
+  book: z.string().default(''),
+  highlight: z.string().default(''),
+  footer: z.string().default(''),
+  // JSONL and CSV: the highlight fields to write, in order
+  fields: z.array(z.enum(HIGHLIGHT_FIELDS)).min(1).default(HIGHLIGHT_FIELDS),
+}).strict().superRefine((template, context) => {
+  if (template.kind === 'markdown' && !template.highlight) {
+    context.addIssue({ code: "custom", path: ['highlight'], message: 'Markdown templates need a highlight template' });
+  }
+});
+
+export type ExportTemplate = z.infer<typeof exportTemplateSchema>;
+
+export const obsidianTemplate: z.input<typeof exportTemplateSchema> = {
+  name: "obsidian",
+  description: "Obsidian note: front-matter, a section per book, and a block reference on every highlight",
+  kind: "markdown",
+  frontMatter: {
+    title: "{{title}}",
+    source: "readwise",
+    export: "{{source}}",
+    query: "{{query}}",
+    exported: "{{exported_at}}",
+  },
+  header: "# {{title}}\n\n",
+  book: "## {{book_title}}\n\n{{#book_author}}*{{book_author}}*\n\n{{/book_author}}",
+  // Obsidian wants the block ID of a quote on its own line after it
+  highlight: "{{quote}}\n\n^{{block_id}}\n\n{{#note}}**Note:** {{note}}\n\n{{/note}}{{#tags}}{{tags}}\n\n{{/tags}}{{#url}}[Source]({{url}})\n\n{{/url}}",
+};
+
+export const jsonlTemplate: z.input<typeof exportTemplateSchema> = {
+  name: "jsonl",
+  description: "One JSON object per highlight",
+  kind: "jsonl",
+};
+
+export const csvTemplate: z.input<typeof exportTemplateSchema> = {
+  name: "csv",
+  description: "Spreadsheet-ready CSV with a header row",
+  kind: "csv",
+};
+
+export class ExportTemplateRegistry {
+  private templates = new Map<string, ExportTemplate>();
+
+  constructor(private logger: DebugLogger) {}
+
+  register(template: z.input<typeof exportTemplateSchema>) {
+    const definition = exportTemplateSchema.parse(template);
+    if (this.templates.has(definition.name)) {
+      this.logger.info('Overriding export template', { name: definition.name });
+    }
+    this.templates.set(definition.name, definition);
+  }
+
+  // Loads every *.json file in the directory. Invalid files are skipped with
+  // a warning so one bad template doesn't stop the server from starting.
+  loadDirectory(directory: string) {
+    let files: string[];
+    try {
+      files = readdirSync(directory).filter(file => file.endsWith('.json')).sort();
+    } catch (error) {
+      this.logger.warn('Cannot read export templates directory', { directory, error: (error as Error).message });
+      return;
+    }
+
+    for (const file of files) {
+      try {
+        const contents = JSON.parse(readFileSync(path.join(directory, file), 'utf8'));
+        this.register(contents);
+        this.logger.info('Loaded export template', { file, name: contents.name });
+      } catch (error) {
+        this.logger.warn('Skipping invalid export template file', { file, error: (error as Error).message });
+      }
+    }
+  }
+
+  get(name: string): ExportTemplate | undefined {
+    return this.templates.get(name);
+  }
+
+  names(): string[] {
+    return [...this.templates.keys()];
+  }
+}
@@ -0,0 +1,194 @@
+import { AxiosError, AxiosInstance } from "axios";
+import { DebugLogger } from './debug-logger.js';
+import { classifyError } from './errors.js';
+import { SyncStatus } from './mirror/index.js';
+import { CircuitState } from './resilience.js';
+
+// Liveness and readiness. Readiness is reported per component so an
+// orchestrator can act on the overall status while a status page shows
+// which part is failing.
+
+// `warn` is reported but keeps the server ready; any `fail` makes it not ready
+export type ComponentStatus = 'pass' | 'warn' | 'fail';
+
+export interface ComponentHealth {
+  status: ComponentStatus;
+  [detail: string]: unknown;
+}
+
+export interface ReadinessReport {
+  status: 'ready' | 'degraded' | 'not_ready';
+  timestamp: string;
+  components: Record<string, ComponentHealth>;
+}
+
+export function readinessReport(components: Record<string, ComponentHealth>): ReadinessReport {
+  const statuses = Object.values(components).map(component => component.status);
+  return {
+    status: statuses.includes('fail') ? 'not_ready' : statuses.includes('warn') ? 'degraded' : 'ready',
+    timestamp: new Date().toISOString(),
+    components
+  };
+}
+
+export function breakerComponent(breaker: { state: CircuitState; consecutiveFailures: number; openedAt?: string }): ComponentHealth {
+  const status: ComponentStatus = breaker.state === 'closed' ? 'pass' : breaker.state === 'half_open' ? 'warn' : 'fail';
+  return { status, ...breaker };
+}
+
+// The mirror is stale once its last successful sync is older than
+// `maxStalenessMs`; 0 never considers it stale. A mirror that has not
+// finished its first sync yet only warns.
+export function mirrorComponent(sync: SyncStatus, maxStalenessMs: number): ComponentHealth {
+  const details = {
+    lastSyncAt: sync.lastSyncAt,
+    lastError: sync.lastError,
+    lastErrorAt: sync.lastErrorAt,
+    running: sync.running
+  };
+  if (!sync.lastSyncAt) {
+    return { status: sync.running || !sync.lastError ? 'warn' : 'fail', reason: 'not synced yet', ...details };
+  }
+  const ageSeconds = Math.round((Date.now() - Date.parse(sync.lastSyncAt)) / 1000);
+  if (maxStalenessMs > 0 && ageSeconds * 1000 > maxStalenessMs) {
+    return { status: 'fail', reason: 'stale', ageSeconds, ...details };
+  }
+  const failedSince = sync.lastErrorAt && sync.lastErrorAt > sync.lastSyncAt;
+  return { status: failedSince ? 'warn' : 'pass', ageSeconds, ...details };
+}
+
+export interface UpstreamHealthOptions {
+  // Delay before retrying a failed check; doubles with every failure
+  retryBaseMs: number;
+  retryMaxMs: number;
+  // How often the token is re-validated once everything is up; 0 only relies
+  // on the responses to other calls
+  recheckIntervalMs: number;
+}
+
+type TokenState = 'unknown' | 'valid' | 'invalid';
+
+// Initializes the Readwise MCP connection for the single-tenant client and
+// keeps checking the token. Failures are retried in the background with
+// backoff instead of being logged once and forgotten, and every response the
+// client gets updates the token state, so a token revoked later is noticed
+// on the next call.
+export class UpstreamHealth {
+  private initializedAt?: Date;
+  private token: TokenState = 'unknown';
+  private tokenCheckedAt?: Date;
+  private attempts = 0;
+  private failures = 0;
+  private lastError?: { type: string; message: string; at: Date };
+  private nextCheckAt?: Date;
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private client: AxiosInstance,
+    private logger: DebugLogger,
+    private options: UpstreamHealthOptions
+  ) {
+    client.interceptors.response.use(
+      response => {
+        this.recordToken('valid');
+        return response;
+      },
+      error => {
+        if (error instanceof AxiosError && error.response?.status === 401) {
+          this.recordToken('invalid');
+        }
+        return Promise.reject(error);
+      }
+    );
+  }
+
+  start() {
+    void this.check();
+  }
+
+  // A single check without retries, for one-off use such as the CLI's
+  // `check` command
+  async checkOnce() {
+    await this.check(false);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  upstreamComponent(): ComponentHealth {
+    return {
+      status: this.initializedAt ? 'pass' : 'fail',
+      initialized: !!this.initializedAt,
+      ...(this.initializedAt && { initializedAt: this.initializedAt.toISOString() }),
+      attempts: this.attempts,
+      ...(this.lastError && {
+        lastError: this.lastError.message,
+        lastErrorType: this.lastError.type,
+        lastErrorAt: this.lastError.at.toISOString()
+      }),
+      ...(this.nextCheckAt && { nextCheckAt: this.nextCheckAt.toISOString() })
+    };
+  }
+
+  tokenComponent(): ComponentHealth {
+    return {
+      status: this.token === 'valid' ? 'pass' : 'fail',
+      state: this.token,
+      ...(this.tokenCheckedAt && { checkedAt: this.tokenCheckedAt.toISOString() })
+    };
+  }
+
+  private recordToken(state: TokenState) {
+    if (state === 'invalid' && this.token !== 'invalid') {
+      this.logger.error('Readwise rejected the access token');
+    } else if (state === 'valid' && this.token === 'invalid') {
+      this.logger.info('Readwise accepts the access token again');
+    }
+    this.token = state;
+    this.tokenCheckedAt = new Date();
+  }
+
+  private async check(retry = true) {
+    this.attempts++;
+    try {
+      // 204 for a valid token, 401 otherwise
+      await this.client.get("/api/v2/auth/");
+      if (!this.initializedAt) {
+        this.logger.info('Initializing Readwise MCP connection', { attempt: this.attempts });
+        await this.client.post("/api/mcp/initialize");
+        this.initializedAt = new Date();
+        this.logger.info('Readwise MCP initialized successfully');
+      }
+      this.failures = 0;
+      this.lastError = undefined;
+      if (retry && this.options.recheckIntervalMs > 0) {
+        this.schedule(this.options.recheckIntervalMs);
+      }
+    } catch (error) {
+      this.failures++;
+      const classified = classifyError(error);
+      this.lastError = { type: classified.data.type, message: classified.message, at: new Date() };
+      const delay = Math.min(this.options.retryBaseMs * 2 ** (this.failures - 1), this.options.retryMaxMs);
+      const what = this.initializedAt ? 'Readwise token check failed' : 'Failed to initialize Readwise MCP';
+      this.logger.error(`${what}: ${classified.message}`, {
+        attempt: this.attempts,
+        type: classified.data.type,
+        message: classified.message,
+        ...(retry && { retryInSeconds: Math.round(delay / 1000) })
+      });
+      if (retry) {
+        this.schedule(delay);
+      }
+    }
+  }
+
+  private schedule(delayMs: number) {
+    this.nextCheckAt = new Date(Date.now() + delayMs);
+    this.timer = setTimeout(() => this.check(), delayMs);
+    this.timer.unref();
+  }
+}
@@ -1,114 +1,147 @@
+import { randomUUID } from 'crypto';
+import { once } from 'events';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { pathToFileURL } from 'url';
 import express from 'express';
 import cors from 'cors';
 import { config } from 'dotenv';
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import axios, { AxiosInstance } from "axios";
-import axiosRetry from 'axios-retry';
-import { z } from "zod";
-
-// Debug logging utility
-class DebugLogger {
-  private isDebug: boolean;
-
-  constructor() {
-    this.isDebug = process.env.DEBUG === 'true' || process.env.NODE_ENV === 'development';
-  }
-
-  get debugMode(): boolean {
-    return this.isDebug;
-  }
-
-  log(message: string, data?: any) {
-    if (this.isDebug) {
-      const timestamp = new Date().toISOString();
-      console.log(`[${timestamp}] 🔍 DEBUG: ${message}`);
-      if (data) {
-        console.log(`[${timestamp}] 📊 DATA:`, JSON.stringify(data, null, 2));
-      }
-    }
-  }
-
-  info(message: string, data?: any) {
-    const timestamp = new Date().toISOString();
-    console.log(`[${timestamp}] ℹ️  INFO: ${message}`);
-    if (data && this.isDebug) {
-      console.log(`[${timestamp}] 📊 DATA:`, JSON.stringify(data, null, 2));
-    }
-  }
-
-  warn(message: string, data?: any) {
-    const timestamp = new Date().toISOString();
-    console.warn(`[${timestamp}] ⚠️  WARN: ${message}`);
-    if (data && this.isDebug) {
-      console.warn(`[${timestamp}] 📊 DATA:`, JSON.stringify(data, null, 2));
-    }
-  }
-
-  error(message: string, error?: any) {
-    const timestamp = new Date().toISOString();
-    console.error(`[${timestamp}] ❌ ERROR: ${message}`);
-    if (error && this.isDebug) {
-      console.error(`[${timestamp}] 📊 ERROR:`, error);
-    }
-  }
-
-  connection(clientIp: string, userAgent: string, method: string, url: string) {
-    const timestamp = new Date().toISOString();
-    console.log(`[${timestamp}] 🔗 CONNECTION: ${method} ${url} from ${clientIp}`);
-    if (this.isDebug) {
-      console.log(`[${timestamp}] 📱 USER-AGENT: ${userAgent}`);
-    }
-  }
-}
-
-// Load environment variables
-config();
-
-interface McpRequest {
-  jsonrpc: "2.0";
-  id: string | number;
-  method: string;
-  params?: any;
+import { AxiosInstance } from "axios";
+import { AuditCaller, auditFilterSchema, AuditLog, AuditReplayer, ReplayRefusedError } from './audit/index.js';
+import { Authenticator, PROTECTED_RESOURCE_METADATA_PATH } from './auth.js';
+import { ResponseCache } from './cache.js';
+import { DebugLogger } from './debug-logger.js';
+import { ConfigError, loadConfig, redactConfig, ServerConfig } from './config.js';
+import {
+  breakerComponent,
+  ComponentHealth,
+  mirrorComponent,
+  ReadinessReport,
+  readinessReport,
+  UpstreamHealth
+} from './health.js';
+import { classifyError, ErrorType, jsonRpcError, toolErrorResult } from './errors.js';
+import {
+  createHighlightExporter,
+  ExportRequestError,
+  exportRequestFromQuery,
+  exportRequestSchema,
+  ExportStream,
+  HighlightExporter
+} from './export/index.js';
+import {
+  isMcpNotification,
+  isMcpRequest,
+  isMcpResponse,
+  LATEST_PROTOCOL_VERSION,
+  McpNotification,
+  McpRequest,
+  McpResponse,
+  SUPPORTED_PROTOCOL_VERSIONS
+} from './mcp-types.js';
+import { MirrorStore, MirrorSync } from './mirror/index.js';
+import { Metrics } from './metrics.js';
+import { requestIdMiddleware, REQUEST_ID_HEADER, withRequestId } from './request-context.js';
+import { CircuitBreaker } from './resilience.js';
+import { ResurfacingHistory } from './resurfacing-history.js';
+import { createPromptRegistry, PromptArgumentsError, PromptRegistry } from './prompts/index.js';
+import { createResourceRegistry, ResourceRegistry, ResourceSubscriptions } from './resources/index.js';
+import { McpSession, MessageStream, SessionManager, SseStream } from './streamable-http.js';
+import { WebhookEvent, WebhookReceiver } from './webhooks.js';
+import { CallChannel, cancelledResponse, isCancelledResponse, ToolCall } from './tool-calls.js';
+import {
+  createReadwiseClient,
+  loadTenantTokens,
+  ReadwiseClientFactory,
+  READWISE_TOKEN_HEADER,
+  tenantIdFor,
+  TenantMode,
+  UpstreamClients
+} from './upstream.js';
+import { createToolRegistry, ToolContext, ToolDefinition, ToolRegistry } from './tools/index.js';
+
+const SSE_HEARTBEAT_MS = 25000;
+
+// HTTP status of a GET /export that fails before it starts
+const EXPORT_ERROR_STATUS: Record<ErrorType, number> = {
+  validation: 400,
+  not_found: 404,
+  rate_limited: 429,
+  auth: 502,
+  unavailable: 502,
+  timeout: 504,
+  internal: 500
+};
+
+// What the server gets from outside instead of building itself
+export interface ServerDependencies {
+  // Builds the Readwise client for a token. Defaults to a real client for
+  // config.upstream.baseUrl.
+  createClient?: ReadwiseClientFactory;
+  // Defaults to one built from config.logging
+  logger?: DebugLogger;
+  // False for one-off use, like the CLI's `call` and `check`: the startup
+  // upstream check and the mirror sync then don't run in the background
+  backgroundTasks?: boolean;
 }
 
-interface McpResponse {
-  jsonrpc: "2.0";
-  id: string | number;
-  result?: any;
-  error?: {
-    code: number;
-    message: string;
-    data?: any;
-  };
-}
-
-interface McpNotification {
-  jsonrpc: "2.0";
-  method: string;
-  params?: any;
+// A client connected over a single message stream instead of HTTP
+export interface ServerConnection {
+  // Resolves with the response to send back, if the message needs one
+  receive(message: unknown): Promise<McpResponse | undefined>;
+  close(): void;
 }
 
-class ReadwiseMcpHttpServer {
-  private app: express.Application;
+export class ReadwiseMcpHttpServer {
+  // The complete Express app. Listen on it with start(), or mount it in
+  // another app with app.use(path, server.app).
+  readonly app: express.Application;
+  private httpServer?: Server;
   private mcpServer: McpServer;
   private axios: AxiosInstance;
-  private port: number;
+  private upstream: UpstreamClients;
+  private tenantMode: TenantMode;
+  private tenantTokens: Record<string, string>;
+  private config: ServerConfig;
   private logger: DebugLogger;
+  private auth: Authenticator;
+  private sessions: SessionManager;
+  private tools: ToolRegistry;
+  private resources: ResourceRegistry;
+  private subscriptions: ResourceSubscriptions;
+  private prompts: PromptRegistry;
+  private cache: ResponseCache;
+  private history: ResurfacingHistory;
+  private exporter: HighlightExporter;
+  private webhooks?: WebhookReceiver;
+  private audit?: AuditLog;
+  private replayer?: AuditReplayer;
+  private breaker: CircuitBreaker;
+  private metrics: Metrics;
+  private mirror?: MirrorStore;
+  private mirrorSync?: MirrorSync;
+  private upstreamHealth?: UpstreamHealth;
   private serverInfo = {
     name: "Readwise MCP HTTP Server",
     version: "0.0.6"
   };
 
-      constructor() {
-    this.port = parseInt(process.env.PORT || '3000');
+      constructor(config: ServerConfig, dependencies: ServerDependencies = {}) {
+    this.config = config;
     this.app = express();
-    this.logger = new DebugLogger();
+    this.logger = dependencies.logger ?? new DebugLogger(config.logging);
+    this.metrics = new Metrics();
+    this.sessions = new SessionManager(this.logger, config.server.sessionIdleTimeout * 1000);
 
     this.logger.info('Initializing Readwise MCP HTTP Server', {
-      port: this.port,
+      host: config.server.host,
+      port: config.server.port,
       debug: this.logger.debugMode,
-      nodeEnv: process.env.NODE_ENV
+      readOnly: config.readOnly,
+      nodeEnv: config.nodeEnv
     });
+    this.logger.log('Effective configuration', redactConfig(config));
 
     // Initialize MCP server
     this.mcpServer = new McpServer({
@@ -116,53 +149,204 @@ class ReadwiseMcpHttpServer {
       version: "0.0.6"
     });
 
-    // Initialize axios client for Readwise API
-    this.axios = axios.create({
-      baseURL: process.env.BASE_URL ?? "https://readwise.io",
-      timeout: 10000,
-      headers: {
-        "Accept": "application/json",
-        "Content-Type": "application/json",
-        "X-Access-Token": process.env.ACCESS_TOKEN,
+    // Initialize axios client for Readwise API. The circuit breaker is shared
+    // by every tenant's client; rate limits are tracked per client.
+    this.breaker = new CircuitBreaker(
+      {
+        failureThreshold: config.upstream.circuitBreaker.threshold,
+        cooldownMs: config.upstream.circuitBreaker.cooldown * 1000
       },
+      this.logger
+    );
+    const upstreamOptions = {
+      baseURL: config.upstream.baseUrl,
+      timeout: config.upstream.timeout * 1000,
+      resilience: {
+        retry: {
+          maxRetries: config.upstream.retry.maxRetries,
+          baseDelayMs: config.upstream.retry.baseDelay * 1000,
+          maxDelayMs: config.upstream.retry.maxDelay * 1000
+        },
+        breaker: this.breaker,
+        rateLimitMaxWaitMs: config.upstream.rateLimitMaxWait * 1000
+      },
+      metrics: this.metrics
+    };
+    const createClient = dependencies.createClient ?? createReadwiseClient;
+    this.axios = createClient(config.upstream.accessToken, upstreamOptions, this.logger);
+
+    // Multi-tenant modes build one client per Readwise token instead
+    this.tenantMode = config.tenants.mode;
+    this.upstream = new UpstreamClients(upstreamOptions, this.logger, createClient);
+    this.tenantTokens = loadTenantTokens(config.tenants.tokensFile);
+
+    this.logger.info('Axios client configured with retry logic', {
+      tenantMode: this.tenantMode,
+      retry: upstreamOptions.resilience.retry,
+      breaker: this.breaker.status(),
+      mappedPrincipals: Object.keys(this.tenantTokens)
     });
 
-    // Add retry logic
-    axiosRetry(
-      this.axios,
+    this.auth = new Authenticator(
       {
-        retries: 3,
-        retryDelay: () => 5000,
-        retryCondition: (error) => {
-          const responseStatus = error.response?.status;
-          return !responseStatus || responseStatus >= 400
-        }
+        apiKeys: config.auth.apiKeys,
+        oauth: config.auth.oauth.issuer
+          ? {
+            issuer: config.auth.oauth.issuer,
+            audience: config.auth.oauth.audience,
+            jwksUrl: config.auth.oauth.jwksUrl,
+            requiredScopes: config.auth.oauth.scopes
+          }
+          : undefined,
+        publicUrl: config.server.publicUrl
+      },
+      this.logger
+    );
+
+    this.cache = new ResponseCache(
+      {
+        ttlMs: config.cache.ttl * 1000,
+        maxEntries: config.cache.maxEntries,
+        directory: config.cache.directory
+      },
+      this.logger
+    );
+    this.logger.info('Response cache configured', this.cache.stats());
+
+    this.history = new ResurfacingHistory(
+      {
+        file: config.resurfacing.historyFile,
+        maxEntries: config.resurfacing.historySize,
+        cooldownMs: config.resurfacing.cooldown * 1000
       },
+      this.logger
     );
 
-    this.logger.info('Axios client configured with retry logic');
+    // Local copy of the ACCESS_TOKEN library for offline search
+    // (single-tenant only, which the config enforces)
+    if (config.mirror.database) {
+      this.mirror = new MirrorStore(config.mirror.database);
+      this.mirrorSync = new MirrorSync(this.mirror, this.axios, this.logger, config.mirror.syncInterval * 1000);
+      this.logger.info('Local mirror enabled', { database: config.mirror.database, ...this.mirror.counts() });
+    }
+
+    this.tools = createToolRegistry(config.readOnly, { localMirror: !!this.mirror });
+    this.resources = createResourceRegistry();
+    this.prompts = createPromptRegistry(this.logger, config.promptsDir);
+    this.exporter = createHighlightExporter(this.logger, {
+      templatesDir: config.export.templatesDir,
+      inlineLimit: config.export.inlineLimit,
+      publicUrl: config.server.publicUrl
+    });
+    // Persistent record of who called which tool, for shared instances
+    if (config.audit.database) {
+      this.audit = new AuditLog({
+        database: config.audit.database,
+        retentionMs: config.audit.retention * 1000,
+        results: config.audit.results
+      }, this.logger);
+      this.replayer = new AuditReplayer(this.tools, {
+        mockUrl: config.audit.replayMockUrl,
+        timeoutMs: config.upstream.timeout * 1000
+      }, this.logger);
+      this.logger.info('Audit log enabled', { database: config.audit.database, entries: this.audit.store.count() });
+    }
+    this.subscriptions = new ResourceSubscriptions(
+      this.sessions,
+      this.logger,
+      config.resourcePollInterval * 1000
+    );
+    // Readwise pushes changes to POST /webhooks/readwise (single-tenant only,
+    // which the config enforces)
+    if (config.webhooks.secret) {
+      this.webhooks = new WebhookReceiver(config.webhooks.secret, this.logger, this.metrics);
+      this.logger.info('Readwise webhooks enabled');
+    }
 
+    this.registerMetrics();
     this.setupMiddleware();
     this.setupMcpRoutes();
     this.registerTools();
-    this.initializeReadwise();
+    // Multi-tenant modes have no token of their own to check; each tenant's
+    // calls succeed or fail on their own
+    if (this.tenantMode === 'single') {
+      this.upstreamHealth = new UpstreamHealth(this.axios, this.logger, {
+        retryBaseMs: 5000,
+        retryMaxMs: config.upstream.initMaxRetryDelay * 1000,
+        recheckIntervalMs: config.upstream.checkInterval * 1000
+      });
+    }
+    if (dependencies.backgroundTasks !== false) {
+      this.upstreamHealth?.start();
+      this.mirrorSync?.start();
+      this.audit?.start();
+    }
+  }
+
+  // Gauges for state that already lives elsewhere, read at scrape time
+  private registerMetrics() {
+    this.metrics.observe('mcp_active_sessions', 'Open MCP sessions', () => this.sessions.size);
+    this.metrics.observeLabelled('mcp_cache_events', 'Response cache lookups since start by result', 'result', () => {
+      const { hits, misses, coalesced } = this.cache.stats();
+      return { hit: hits, miss: misses, coalesced };
+    });
+    this.metrics.observe('mcp_cache_entries', 'Entries in the response cache', () => this.cache.stats().entries);
+    this.metrics.observe('readwise_circuit_breaker_open', '1 while the circuit breaker stops calls to Readwise',
+      () => this.breaker.status().state === 'closed' ? 0 : 1);
+    if (this.mirror) {
+      const mirror = this.mirror;
+      this.metrics.observeLabelled('mirror_rows', 'Rows in the local mirror', 'table', () => mirror.counts());
+    }
   }
 
   private setupMiddleware() {
     this.logger.info('Setting up middleware');
 
-    // CORS middleware
-    this.app.use(cors());
-    this.logger.log('CORS middleware enabled');
+    // CORS middleware - browser clients need to read the session and auth
+    // challenge headers
+    const origins = this.config.server.corsOrigins;
+    this.app.use(cors({
+      origin: origins.includes('*') ? '*' : origins,
+      exposedHeaders: ['Mcp-Session-Id', 'WWW-Authenticate', REQUEST_ID_HEADER]
+    }));
+    this.logger.log('CORS middleware enabled', { origins });
+
+    // Request counts and latency, recorded for every route
+    this.app.use(this.metrics.middleware());
+
+    // Webhook bodies are parsed first, keeping the raw bytes for signature
+    // checks; express.json() below leaves already-parsed bodies alone
+    if (this.webhooks) {
+      this.app.use('/webhooks', this.webhooks.bodyParser());
+    }
 
     // JSON parsing middleware
     this.app.use(express.json());
     this.logger.log('JSON parsing middleware enabled');
 
+    // Malformed JSON gets a JSON-RPC parse error instead of Express's HTML 400
+    this.app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+      if (err?.type !== 'entity.parse.failed') {
+        return next(err);
+      }
+      this.logger.warn('Malformed JSON body', { url: req.url });
+      res.status(400).json({
+        jsonrpc: "2.0",
+        id: null,
+        error: {
+          code: -32700,
+          message: "Parse error"
+        }
+      });
+    });
+
     // URL-encoded parsing middleware
     this.app.use(express.urlencoded({ extended: true }));
     this.logger.log('URL-encoded parsing middleware enabled');
 
+    // Correlation ID for the request's log lines and upstream calls
+    this.app.use(requestIdMiddleware());
+
     // Request logging middleware
     this.app.use((req, res, next) => {
       const clientIp = req.ip || req.connection.remoteAddress || 'unknown';
@@ -178,74 +362,206 @@ class ReadwiseMcpHttpServer {
       next();
     });
 
+    // Authentication middleware - the protected-resource metadata and, unless
+    // disabled, /health and /metrics stay public
+    if (this.auth.enabled) {
+      const protectedPaths = this.config.auth.publicHealth
+        ? ['/mcp', '/admin', '/export']
+        : ['/mcp', '/admin', '/export', '/health', '/metrics'];
+      this.app.use(protectedPaths, this.auth.middleware());
+      this.logger.info('Authentication enabled', {
+        apiKeys: Object.keys(this.config.auth.apiKeys),
+        oauth: this.auth.oauthEnabled,
+        protectedPaths
+      });
+    } else {
+      this.logger.warn('Authentication is disabled: anyone who can reach the server can use your Readwise token');
+    }
+
     this.logger.info('All middleware configured');
   }
 
-      private registerTools() {
+  private registerTools() {
     this.logger.info('Registering MCP tools');
 
-    // Register the search_readwise_highlights tool (same as the original module)
-    this.mcpServer.tool(
-      "search_readwise_highlights",
-      {
-        vector_search_term: z.string(),
-        full_text_queries: z.array(
-          z.object({
-            field_name: z.enum([
-              "document_author",
-              "document_title",
-              "highlight_note",
-              "highlight_plaintext",
-              "highlight_tags",
-            ]),
-            search_term: z.string(),
-          })
-        ),
-      },
-      async (payload) => {
-        this.logger.log('Executing search_readwise_highlights tool', payload);
-        const response = await this.axios.post("/api/mcp/highlights", payload);
-        this.logger.log('Readwise API response received', { resultCount: response.data.results?.length || 0 });
-        return { content: [{ type: "text", text: JSON.stringify(response.data.results) }] };
+    // The McpServer instance shares the registry with the HTTP routes
+    this.tools.attachTo(this.mcpServer, this.toolContext());
+    this.logger.info('MCP tools registered successfully', { tools: this.tools.list().map(tool => tool.name) });
+  }
+
+  // Context for the single-tenant ACCESS_TOKEN client
+  private toolContext(): ToolContext {
+    return {
+      axios: this.axios,
+      logger: this.logger,
+      tenantId: 'default',
+      cache: this.cache,
+      mirror: this.mirror,
+      history: this.history,
+      exporter: this.exporter
+    };
+  }
+
+  // Picks the Readwise client for a request according to TENANT_MODE. Sends
+  // the error response itself and returns undefined when no token applies.
+  private resolveTenant(req: express.Request, res: express.Response, session?: McpSession): ToolContext | undefined {
+    if (this.tenantMode === 'single') {
+      return this.toolContext();
+    }
+
+    const token = this.tenantMode === 'header'
+      ? req.get(READWISE_TOKEN_HEADER)
+      : req.principal && this.tenantTokens[req.principal.id];
+    if (!token) {
+      // A session keeps the client it was initialized with
+      if (session?.tenantContext) {
+        return session.tenantContext;
       }
-    );
 
-    this.logger.info('MCP tools registered successfully');
+      this.logger.warn('No Readwise token for request', { tenantMode: this.tenantMode, principal: req.principal?.id });
+      res.status(this.tenantMode === 'header' ? 401 : 403).json({
+        jsonrpc: "2.0",
+        id: Array.isArray(req.body) ? null : req.body?.id ?? null,
+        error: {
+          code: -32000,
+          message: this.tenantMode === 'header'
+            ? `Missing Readwise token: send it in the ${READWISE_TOKEN_HEADER} header`
+            : "No Readwise token is configured for this principal"
+        }
+      });
+      return undefined;
+    }
+
+    // A session's subscriptions and calls belong to the account it was
+    // initialized with, so it can't switch to another one
+    if (session?.tenantContext && tenantIdFor(token) !== session.tenantContext.tenantId) {
+      this.logger.warn('Readwise token does not match the session', { sessionId: session.id, principal: req.principal?.id });
+      res.status(403).json({
+        jsonrpc: "2.0",
+        id: Array.isArray(req.body) ? null : req.body?.id ?? null,
+        error: {
+          code: -32000,
+          message: "This session belongs to another Readwise account; initialize a new session to switch"
+        }
+      });
+      return undefined;
+    }
+
+    const { tenantId, axios } = this.upstream.forToken(token);
+    return { axios, logger: this.logger, tenantId, cache: this.cache, history: this.history, exporter: this.exporter };
+  }
+
+  // Which audit entries a request may see: all of them for admins, those of
+  // its own tenant for other principals. Single-tenant mode has only the one
+  // tenant, so there only admins get in. Undefined once refused.
+  private auditScope(req: express.Request, res: express.Response): { tenantId?: string } | undefined {
+    if (!this.audit) {
+      res.status(404).json({ error: 'The audit log is not enabled; set AUDIT_DB' });
+      return undefined;
+    }
+    const { adminKeys, adminScope } = this.config.audit;
+    if (adminKeys.length === 0 && !adminScope) {
+      res.status(403).json({ error: 'The audit log has no admins; set AUDIT_ADMIN_KEYS or AUDIT_ADMIN_SCOPE' });
+      return undefined;
+    }
+    const principal = req.principal;
+    const admin = principal?.type === 'api_key'
+      ? adminKeys.includes(principal.label)
+      : adminScope !== undefined && principal?.scopes.includes(adminScope) === true;
+    if (admin) {
+      return {};
+    }
+    if (!principal || this.tenantMode === 'single') {
+      this.logger.warn('Audit log access refused', { principal: principal?.id, path: req.path });
+      res.status(403).json({ error: 'The audit log is only open to admins' });
+      return undefined;
+    }
+    const context = this.resolveTenant(req, res);
+    return context && { tenantId: context.tenantId };
   }
 
   private setupMcpRoutes() {
     this.logger.info('Setting up MCP routes');
 
-    // MCP HTTP endpoint - handles all MCP requests
+    // MCP Streamable HTTP endpoint - handles all client-to-server messages
     this.app.post('/mcp', async (req, res) => {
       try {
         this.logger.log('Processing MCP request', { method: req.method, url: req.url });
 
-        const request: McpRequest = req.body;
-        this.logger.log('MCP request received', request);
+        // A body is either a single JSON-RPC message or a batch of them
+        const isBatch = Array.isArray(req.body);
+        const messages: any[] = isBatch ? req.body : [req.body];
+        this.logger.log('MCP messages received', { batch: isBatch, count: messages.length });
 
-        if (!request.jsonrpc || request.jsonrpc !== "2.0") {
-          this.logger.warn('Invalid JSON-RPC version', { jsonrpc: request.jsonrpc });
-          return res.status(400).json({
-            jsonrpc: "2.0",
-            id: request.id || null,
-            error: {
-              code: -32600,
-              message: "Invalid Request"
-            }
-          });
+        if (messages.length === 0) {
+          this.logger.warn('Empty JSON-RPC batch');
+          return res.status(400).json(this.invalidRequest(null, "Invalid Request: empty batch"));
+        }
+
+        if (!isBatch && !isMcpRequest(req.body) && !isMcpNotification(req.body) && !isMcpResponse(req.body)) {
+          this.logger.warn('Invalid JSON-RPC message', { jsonrpc: req.body?.jsonrpc });
+          return res.status(400).json(this.invalidRequest(req.body?.id ?? null));
+        }
+
+        // Every message except initialize must belong to a live session, and
+        // initialize has to be sent on its own
+        const initializeRequest = messages.find(message => message?.method === 'initialize');
+        if (initializeRequest && isBatch) {
+          this.logger.warn('initialize sent inside a batch');
+          return res.status(400).json(
+            this.invalidRequest(initializeRequest.id ?? null, "Invalid Request: initialize must not be batched")
+          );
+        }
+
+        let session: McpSession | undefined;
+        if (!initializeRequest) {
+          session = this.resolveSession(req, res);
+          if (!session) {
+            return;
+          }
+        }
+
+        const context = this.resolveTenant(req, res, session);
+        if (!context) {
+          return;
+        }
+
+        // Notifications and client responses get 202 Accepted without a body
+        if (!messages.some(message => isMcpRequest(message) || !this.isValidMessage(message))) {
+          messages.forEach(message => this.handleIncomingMessage(message, context, session));
+          return res.status(202).end();
+        }
+
+        if (initializeRequest) {
+          const response = await this.handleMcpRequest(initializeRequest, context);
+          this.logger.log('MCP response generated', response);
+          if (!response.error) {
+            session = this.sessions.create(
+              response.result.protocolVersion,
+              initializeRequest.params?.clientInfo,
+              req.principal?.id
+            );
+            session.tenantContext = context;
+            res.setHeader('Mcp-Session-Id', session.id);
+          }
+          return this.sendResponses(res, [Promise.resolve(response)], false, this.openResponseStream(req, res, session));
         }
 
-        this.logger.log('Processing MCP method', { method: request.method, id: request.id });
-        const response = await this.handleMcpRequest(request);
-        this.logger.log('MCP response generated', response);
+        const stream = this.openResponseStream(req, res, session);
+        const channel = this.callChannel(res, stream, session);
+        const pending = messages
+          .map(message => this.handleIncomingMessage(message, context, session, channel))
+          .filter((response): response is Promise<McpResponse> => response !== undefined);
 
-        res.json(response);
+        await this.sendResponses(res, pending, isBatch, stream);
       } catch (error) {
         this.logger.error('MCP request error', error);
+        if (res.headersSent) {
+          return res.end();
+        }
         res.status(500).json({
           jsonrpc: "2.0",
-          id: req.body.id || null,
+          id: Array.isArray(req.body) ? null : req.body?.id ?? null,
           error: {
             code: -32603,
             message: "Internal error"
@@ -254,7 +570,74 @@ class ReadwiseMcpHttpServer {
       }
     });
 
-        // MCP HTTP streaming endpoint
+    // Standalone SSE stream for server-initiated messages, also used to resume
+    // an interrupted stream via Last-Event-ID
+    this.app.get('/mcp', (req, res) => {
+      this.logger.log('MCP SSE stream requested');
+
+      if (!this.acceptsEventStream(req)) {
+        this.logger.warn('SSE stream requested without text/event-stream in Accept');
+        return res.status(406).json({
+          jsonrpc: "2.0",
+          id: null,
+          error: {
+            code: -32000,
+            message: "Not Acceptable: client must accept text/event-stream"
+          }
+        });
+      }
+
+      const session = this.resolveSession(req, res);
+      if (!session) {
+        return;
+      }
+
+      if (session.hasStandaloneStream) {
+        this.logger.warn('SSE stream already open for session', { sessionId: session.id });
+        return res.status(409).json({
+          jsonrpc: "2.0",
+          id: null,
+          error: {
+            code: -32000,
+            message: "Conflict: an SSE stream is already open for this session"
+          }
+        });
+      }
+
+      const stream = new SseStream(res, session.standaloneStreamId, session.eventStore);
+      stream.open(SSE_HEARTBEAT_MS);
+      this.trackStream(stream, 'standalone');
+
+      const lastEventId = req.get('Last-Event-ID');
+      if (lastEventId) {
+        const replay = session.eventStore.replayAfter(lastEventId);
+        this.logger.log('Replaying SSE events', {
+          sessionId: session.id,
+          lastEventId,
+          events: replay?.events.length ?? 0
+        });
+        replay?.events.forEach(event => stream.writeEvent(event.message, event.id));
+      }
+
+      session.attachStandaloneStream(stream);
+      this.logger.info('MCP SSE stream opened', { sessionId: session.id });
+      stream.onClose(() => this.logger.info('MCP SSE stream closed', { sessionId: session.id }));
+    });
+
+    // Explicit session termination
+    this.app.delete('/mcp', (req, res) => {
+      const session = this.resolveSession(req, res);
+      if (!session) {
+        return;
+      }
+
+      this.sessions.delete(session.id);
+      res.status(204).end();
+    });
+
+    // Legacy NDJSON streaming endpoint, kept for existing custom clients.
+    // Deprecated: standard MCP clients should use POST /mcp with
+    // `Accept: text/event-stream` instead.
     this.app.post('/mcp/stream', async (req, res) => {
       try {
         this.logger.log('Processing MCP streaming request', { method: req.method, url: req.url });
@@ -274,15 +657,21 @@ class ReadwiseMcpHttpServer {
           });
         }
 
+        const context = this.resolveTenant(req, res);
+        if (!context) {
+          return;
+        }
+
         this.logger.log('Setting up streaming response headers');
         // Set headers for streaming
+        res.setHeader('Deprecation', 'true');
         res.setHeader('Content-Type', 'application/json');
         res.setHeader('Transfer-Encoding', 'chunked');
         res.setHeader('Cache-Control', 'no-cache');
         res.setHeader('Connection', 'keep-alive');
 
         this.logger.log('Starting MCP streaming request handling');
-        await this.handleMcpStreamRequest(request, res);
+        await this.handleMcpStreamRequest(request, res, context);
       } catch (error) {
         this.logger.error('MCP streaming error', error);
         res.status(500).json({
@@ -296,16 +685,152 @@ class ReadwiseMcpHttpServer {
       }
     });
 
+    // OAuth protected-resource metadata (RFC 9728), at the root and with the
+    // resource path appended
+    if (this.auth.oauthEnabled) {
+      this.app.get(
+        [PROTECTED_RESOURCE_METADATA_PATH, `${PROTECTED_RESOURCE_METADATA_PATH}/mcp`],
+        this.auth.metadataHandler()
+      );
+    }
+
     // Health check
     this.app.get('/health', (req, res) => {
       this.logger.log('Health check requested');
       res.json({
         status: 'ok',
+        readiness: this.readiness().status,
         timestamp: new Date().toISOString(),
-        server: this.serverInfo
+        server: this.serverInfo,
+        cache: this.cache.stats(),
+        circuitBreaker: this.breaker.status()
+      });
+    });
+
+    // Liveness: the process is up and serving requests. Never checks Readwise,
+    // so an upstream outage doesn't get the container restarted.
+    this.app.get('/health/live', (req, res) => {
+      res.json({ status: 'ok', timestamp: new Date().toISOString(), uptimeSeconds: Math.round(process.uptime()) });
+    });
+
+    // Readiness, broken down per component: 200 while ready or degraded, 503
+    // once any component fails
+    this.app.get('/health/ready', (req, res) => {
+      const report = this.readiness();
+      if (report.status === 'not_ready') {
+        this.logger.warn('Readiness check failed', report);
+      }
+      res.status(report.status === 'not_ready' ? 503 : 200).json(report);
+    });
+
+    // Prometheus scrape endpoint
+    this.app.get('/metrics', this.metrics.handler());
+
+    // Local mirror sync status, and a manual resync. `{"full": true}` re-exports
+    // the whole library and drops anything deleted upstream.
+    this.app.get('/admin/sync', (req, res) => {
+      if (!this.mirrorSync) {
+        return res.status(404).json({ error: 'Local mirror is not enabled; set MIRROR_DB' });
+      }
+      res.json(this.mirrorSync.status());
+    });
+
+    this.app.post('/admin/sync', (req, res) => {
+      if (!this.mirrorSync) {
+        return res.status(404).json({ error: 'Local mirror is not enabled; set MIRROR_DB' });
+      }
+      const full = req.body?.full === true;
+      this.logger.info('Mirror resync requested', { full, principal: req.principal?.id });
+      this.mirrorSync.sync(full).catch(() => {});
+      res.status(202).json(this.mirrorSync.status());
+    });
+
+    // Audit log of tool calls, newest first. Filters and paging are query
+    // parameters; see auditFilterSchema.
+    this.app.get('/admin/audit', (req, res) => {
+      const scope = this.auditScope(req, res);
+      if (!scope || !this.audit) {
+        return;
+      }
+      const parsed = auditFilterSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: `Invalid audit query: ${parsed.error.errors.map(e => `${e.path.join('.') || 'query'}: ${e.message}`).join(', ')}`
+        });
+      }
+      const entries = this.audit.list({ ...parsed.data, ...scope });
+      res.json({
+        entries,
+        // Pass as `before` for the next page
+        nextBefore: entries.length === parsed.data.limit ? entries[entries.length - 1].id : null
+      });
+    });
+
+    this.app.get('/admin/audit/:id', (req, res) => {
+      const scope = this.auditScope(req, res);
+      if (!scope || !this.audit) {
+        return;
+      }
+      const entry = this.audit.get(Number(req.params.id));
+      if (!entry || (scope.tenantId && entry.tenantId !== scope.tenantId)) {
+        return res.status(404).json({ error: `No audit entry ${req.params.id}` });
+      }
+      res.json(entry);
+    });
+
+    // Runs a recorded call again against the mock (the default) or, with
+    // `{"target": "live"}`, against the Readwise account of this request
+    this.app.post('/admin/audit/:id/replay', async (req, res) => {
+      const scope = this.auditScope(req, res);
+      if (!scope || !this.audit || !this.replayer) {
+        return;
+      }
+      const entry = this.audit.get(Number(req.params.id));
+      if (!entry || (scope.tenantId && entry.tenantId !== scope.tenantId)) {
+        return res.status(404).json({ error: `No audit entry ${req.params.id}` });
+      }
+      const target = req.body?.target ?? 'mock';
+      if (target !== 'mock' && target !== 'live') {
+        return res.status(400).json({ error: 'target must be mock or live' });
+      }
+      const context = this.resolveTenant(req, res);
+      if (!context) {
+        return;
+      }
+
+      this.logger.info('Audit replay requested', { id: entry.id, target, principal: req.principal?.id });
+      try {
+        res.json(await this.replayer.replay(entry, target, context, req.body?.allowWrites === true));
+      } catch (error) {
+        if (error instanceof ReplayRefusedError) {
+          return res.status(409).json({ error: error.message });
+        }
+        this.logger.error('Audit replay failed', error);
+        res.status(500).json({ error: 'Audit replay failed' });
+      }
+    });
+
+    // Highlight export as a file download, streamed as it renders. Takes the
+    // export_highlights_as arguments as query parameters.
+    this.app.get('/export', (req, res) => {
+      this.handleExport(req, res).catch(error => {
+        this.logger.error('Export request error', error);
+        if (res.headersSent) {
+          return res.destroy();
+        }
+        res.status(500).json({ error: 'Export failed' });
       });
     });
 
+    // Readwise webhook events. Not behind API-key auth: the webhook secret
+    // is what authenticates Readwise.
+    this.app.post('/webhooks/readwise', (req, res, next) => {
+      if (!this.webhooks) {
+        return res.status(404).json({ error: 'Webhooks are not enabled; set WEBHOOK_SECRET' });
+      }
+      this.webhooks.handler(event => this.applyWebhookEvent(event))(req, res, next);
+    });
+
     // MCP server info endpoint
     this.app.get('/mcp/info', (req, res) => {
       this.logger.log('MCP info requested');
@@ -318,6 +843,13 @@ class ReadwiseMcpHttpServer {
           capabilities: {
             tools: {
               listChanged: false
+            },
+            resources: {
+              subscribe: true,
+              listChanged: !!this.webhooks
+            },
+            prompts: {
+              listChanged: false
             }
           }
         }
@@ -327,75 +859,306 @@ class ReadwiseMcpHttpServer {
     this.logger.info('All MCP routes configured');
   }
 
-      private async handleMcpRequest(request: McpRequest): Promise<McpResponse> {
-    this.logger.log('Handling MCP request', { method: request.method, id: request.id });
+  private isValidMessage(message: any): boolean {
+    return isMcpRequest(message) || isMcpNotification(message) || isMcpResponse(message);
+  }
 
-    switch (request.method) {
-      case 'initialize':
-        this.logger.log('Handling initialize method');
-        return this.handleInitialize(request);
+  private invalidRequest(id: string | number | null, message = "Invalid Request"): McpResponse {
+    return {
+      jsonrpc: "2.0",
+      id,
+      error: {
+        code: -32600,
+        message
+      }
+    };
+  }
 
-      case 'tools/list':
-        this.logger.log('Handling tools/list method');
-        return this.handleToolsList(request);
+  // Dispatches one message of a POST body. Only requests (and invalid
+  // messages, which get an error) produce a response.
+  private handleIncomingMessage(
+    message: any,
+    context: ToolContext,
+    session?: McpSession,
+    channel?: CallChannel
+  ): Promise<McpResponse> | undefined {
+    if (isMcpRequest(message)) {
+      this.logger.log('Processing MCP method', { method: message.method, id: message.id });
+      const started = Date.now();
+      return this.handleMcpRequest(message, context, session, channel).then(response => {
+        const outcome = isCancelledResponse(response) ? 'cancelled' : response.error ? 'error' : 'success';
+        this.metrics.recordRpc(message.method, outcome, (Date.now() - started) / 1000);
+        return response;
+      });
+    }
 
-      case 'tools/call':
-        this.logger.log('Handling tools/call method');
-        return this.handleToolsCall(request);
+    if (isMcpNotification(message)) {
+      this.handleMcpNotification(message, session);
+      return undefined;
+    }
 
-      case 'notifications/list':
-        this.logger.log('Handling notifications/list method');
-        return this.handleNotificationsList(request);
+    if (isMcpResponse(message)) {
+      // We never send requests to clients, so there is nothing to correlate
+      this.logger.log('Ignoring JSON-RPC response from client', { id: message.id });
+      return undefined;
+    }
 
-      default:
-        this.logger.warn('Unknown MCP method', { method: request.method });
-        return {
-          jsonrpc: "2.0",
-          id: request.id,
-          error: {
-            code: -32601,
-            message: "Method not found"
-          }
-        };
+    this.logger.warn('Invalid JSON-RPC message in batch', { message });
+    return Promise.resolve(this.invalidRequest(message?.id ?? null));
+  }
+
+  // Opens the SSE stream a POST's responses go out on, if the client accepts
+  // one
+  private openResponseStream(req: express.Request, res: express.Response, session?: McpSession): SseStream | undefined {
+    if (!this.acceptsEventStream(req)) {
+      return undefined;
     }
+    const stream = new SseStream(res, randomUUID(), session?.eventStore);
+    stream.open();
+    this.trackStream(stream, 'response');
+    return stream;
   }
 
-    private async handleMcpStreamRequest(request: McpRequest, res: express.Response) {
-    this.logger.log('Handling MCP streaming request', { method: request.method, id: request.id });
+  // Progress goes out on the POST's own SSE stream, or on the session's GET
+  // stream when the client asked for plain JSON. A dropped SSE response can
+  // be resumed with Last-Event-ID, so its calls keep running; a dropped JSON
+  // response is gone for good, so its calls are cancelled.
+  private callChannel(res: express.Response, stream?: SseStream, session?: McpSession): CallChannel {
+    if (stream) {
+      return { notify: notification => stream.send(notification) };
+    }
+    const disconnected = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        disconnected.abort('client disconnected');
+      }
+    });
+    return {
+      notify: session && (notification => session.sendNotification(notification)),
+      signal: disconnected.signal
+    };
+  }
 
-    switch (request.method) {
-      case 'tools/call':
-        this.logger.log('Handling streaming tools/call method');
-        await this.handleToolsCallStream(request, res);
-        break;
+  // Writes responses as a single JSON body (an array for batches) or, on an
+  // SSE stream, as events sent as each response completes. Cancelled
+  // requests get no response.
+  private async sendResponses(
+    res: express.Response,
+    pending: Promise<McpResponse>[],
+    isBatch: boolean,
+    stream?: SseStream
+  ) {
+    if (stream) {
+      await Promise.all(pending.map(response => response.then(value => {
+        this.logger.log('MCP response generated', value);
+        if (!isCancelledResponse(value)) {
+          stream.send(value);
+        }
+      })));
+      stream.end();
+      return;
+    }
 
-      default:
-        this.logger.log('Handling non-streaming method in stream endpoint');
-        // For non-streaming methods, handle normally
-        const response = await this.handleMcpRequest(request);
-        res.write(JSON.stringify(response) + '\n');
-        res.end();
+    const responses = (await Promise.all(pending)).filter(response => !isCancelledResponse(response));
+    this.logger.log('MCP responses generated', responses);
+    if (responses.length === 0) {
+      return res.status(202).end();
     }
+    res.json(isBatch ? responses : responses[0]);
   }
 
-    private async handleInitialize(request: McpRequest): Promise<McpResponse> {
-    try {
-      this.logger.log('Initializing Readwise MCP connection');
-      await this.axios.post("/api/mcp/initialize");
-      this.logger.log('Readwise MCP initialization successful');
+  private trackStream(stream: SseStream, kind: 'standalone' | 'response') {
+    this.metrics.activeStreams.inc({ kind });
+    stream.onClose(() => this.metrics.activeStreams.dec({ kind }));
+  }
 
-      return {
-        jsonrpc: "2.0",
+  private acceptsEventStream(req: express.Request): boolean {
+    return (req.get('Accept') || '').includes('text/event-stream');
+  }
+
+  // Looks up the session named by the Mcp-Session-Id header and checks the
+  // negotiated protocol version. Sends the error response itself and returns
+  // undefined when the request can't proceed.
+  private resolveSession(req: express.Request, res: express.Response): McpSession | undefined {
+    const sessionId = req.get('Mcp-Session-Id');
+    if (!sessionId) {
+      this.logger.warn('Request without Mcp-Session-Id header', { method: req.method });
+      res.status(400).json({
+        jsonrpc: "2.0",
+        id: req.body?.id ?? null,
+        error: {
+          code: -32000,
+          message: "Bad Request: Mcp-Session-Id header is required"
+        }
+      });
+      return undefined;
+    }
+
+    // A session is only visible to the principal that created it
+    const session = this.sessions.get(sessionId);
+    if (!session || session.principalId !== req.principal?.id) {
+      this.logger.warn('Unknown or expired MCP session', { sessionId });
+      res.status(404).json({
+        jsonrpc: "2.0",
+        id: req.body?.id ?? null,
+        error: {
+          code: -32001,
+          message: "Session not found"
+        }
+      });
+      return undefined;
+    }
+    session.touch();
+
+    const protocolVersion = req.get('Mcp-Protocol-Version');
+    if (protocolVersion && !SUPPORTED_PROTOCOL_VERSIONS.includes(protocolVersion)) {
+      this.logger.warn('Unsupported MCP protocol version', { protocolVersion });
+      res.status(400).json({
+        jsonrpc: "2.0",
+        id: req.body?.id ?? null,
+        error: {
+          code: -32000,
+          message: `Bad Request: unsupported protocol version ${protocolVersion}`
+        }
+      });
+      return undefined;
+    }
+
+    return session;
+  }
+
+      private async handleMcpRequest(
+    request: McpRequest,
+    context: ToolContext,
+    session?: McpSession,
+    channel?: CallChannel
+  ): Promise<McpResponse> {
+    this.logger.log('Handling MCP request', { method: request.method, id: request.id });
+
+    switch (request.method) {
+      case 'initialize':
+        this.logger.log('Handling initialize method');
+        return this.handleInitialize(request, context);
+
+      case 'tools/list':
+        this.logger.log('Handling tools/list method');
+        return this.handleToolsList(request);
+
+      case 'tools/call':
+        this.logger.log('Handling tools/call method');
+        return this.handleToolsCall(request, context, session, channel);
+
+      case 'resources/list':
+        this.logger.log('Handling resources/list method');
+        return this.handleResourcesList(request, context);
+
+      case 'resources/templates/list':
+        this.logger.log('Handling resources/templates/list method');
+        return this.handleResourceTemplatesList(request);
+
+      case 'resources/read':
+        this.logger.log('Handling resources/read method');
+        return this.handleResourcesRead(request, context);
+
+      case 'resources/subscribe':
+      case 'resources/unsubscribe':
+        this.logger.log(`Handling ${request.method} method`);
+        return this.handleResourceSubscription(request, context, session);
+
+      case 'prompts/list':
+        this.logger.log('Handling prompts/list method');
+        return this.handlePromptsList(request);
+
+      case 'prompts/get':
+        this.logger.log('Handling prompts/get method');
+        return this.handlePromptsGet(request, context);
+
+      case 'ping':
+        this.logger.log('Handling ping method');
+        return { jsonrpc: "2.0", id: request.id, result: {} };
+
+      case 'notifications/list':
+        this.logger.log('Handling notifications/list method');
+        return this.handleNotificationsList(request);
+
+      default:
+        this.logger.warn('Unknown MCP method', { method: request.method });
+        return {
+          jsonrpc: "2.0",
+          id: request.id,
+          error: {
+            code: -32601,
+            message: "Method not found"
+          }
+        };
+    }
+  }
+
+  // Notifications never get a reply, not even an error
+  private handleMcpNotification(notification: McpNotification, session?: McpSession) {
+    switch (notification.method) {
+      case 'notifications/initialized':
+        this.logger.info('MCP client initialized', { sessionId: session?.id });
+        break;
+
+      case 'notifications/cancelled': {
+        // Only tool calls are long enough to be worth cancelling; anything
+        // else has usually finished by the time the notification arrives
+        const { requestId, reason } = notification.params ?? {};
+        if (session?.cancelCall(requestId, reason ?? 'cancelled by client')) {
+          this.logger.info('Client cancelled tool call', { sessionId: session.id, requestId, reason });
+        } else {
+          this.logger.log('Cancellation for a request that is not running', { requestId });
+        }
+        break;
+      }
+
+      default:
+        this.logger.log('Ignoring unhandled notification', { method: notification.method });
+    }
+  }
+
+    private async handleMcpStreamRequest(request: McpRequest, res: express.Response, context: ToolContext) {
+    this.logger.log('Handling MCP streaming request', { method: request.method, id: request.id });
+
+    switch (request.method) {
+      case 'tools/call':
+        this.logger.log('Handling streaming tools/call method');
+        await this.handleToolsCallStream(request, res, context);
+        break;
+
+      default:
+        this.logger.log('Handling non-streaming method in stream endpoint');
+        // For non-streaming methods, handle normally
+        const response = await this.handleMcpRequest(request, context);
+        res.write(JSON.stringify(response) + '\n');
+        res.end();
+    }
+  }
+
+    private async handleInitialize(request: McpRequest, context: ToolContext): Promise<McpResponse> {
+    try {
+      this.logger.log('Initializing Readwise MCP connection');
+      await context.axios.post("/api/mcp/initialize");
+      this.logger.log('Readwise MCP initialization successful');
+
+      const requestedVersion = request.params?.protocolVersion;
+      const protocolVersion = SUPPORTED_PROTOCOL_VERSIONS.includes(requestedVersion)
+        ? requestedVersion
+        : LATEST_PROTOCOL_VERSION;
+
+      return {
+        jsonrpc: "2.0",
         id: request.id,
         result: {
-          protocolVersion: "2024-11-05",
+          protocolVersion,
           capabilities: {
             tools: {
               listChanged: false
             },
             resources: {
-              subscribe: false,
-              listChanged: false
+              subscribe: true,
+              listChanged: !!this.webhooks
             },
             prompts: {
               listChanged: false
@@ -408,6 +1171,11 @@ class ReadwiseMcpHttpServer {
         }
       };
     } catch (error) {
+      const classified = classifyError(error);
+      if (classified.data.type !== 'internal') {
+        this.logger.warn('Readwise call failed', { method: request.method, ...classified.data });
+        return jsonRpcError(request.id, classified);
+      }
       this.logger.error('Failed to initialize Readwise MCP', error);
       return {
         jsonrpc: "2.0",
@@ -423,265 +1191,409 @@ class ReadwiseMcpHttpServer {
   private async handleToolsList(request: McpRequest): Promise<McpResponse> {
     this.logger.log('Returning available tools list');
 
-    // Return the tools that we've registered (same as the original Readwise MCP module)
     return {
       jsonrpc: "2.0",
       id: request.id,
       result: {
-        tools: [
-          {
-            name: "search_readwise_highlights",
-            description: "Search through Readwise highlights using vector search and full-text queries",
-            inputSchema: {
-              type: "object",
-              properties: {
-                vector_search_term: {
-                  type: "string",
-                  description: "Semantic search term for vector search"
-                },
-                full_text_queries: {
-                  type: "array",
-                  items: {
-                    type: "object",
-                    properties: {
-                      field_name: {
-                        type: "string",
-                        enum: [
-                          "document_author",
-                          "document_title",
-                          "highlight_note",
-                          "highlight_plaintext",
-                          "highlight_tags"
-                        ]
-                      },
-                      search_term: {
-                        type: "string"
-                      }
-                    }
-                  }
-                }
-              }
-            }
-          }
-        ]
+        tools: this.tools.describe()
       }
     };
   }
 
-      private async handleToolsCall(request: McpRequest): Promise<McpResponse> {
-    try {
-      const { name, arguments: args } = request.params;
-      this.logger.log('Tool call requested', { toolName: name, arguments: args });
-
-      if (name === 'search_readwise_highlights') {
-        this.logger.log('Processing search_readwise_highlights tool call');
-
-        // Use the same schema as the original Readwise MCP module
-        const schema = z.object({
-          vector_search_term: z.string(),
-          full_text_queries: z.array(
-            z.object({
-              field_name: z.enum([
-                "document_author",
-                "document_title",
-                "highlight_note",
-                "highlight_plaintext",
-                "highlight_tags",
-              ]),
-              search_term: z.string(),
-            })
-          ),
-        });
+  // Looks up the tool and validates its arguments, producing the JSON-RPC
+  // error for the request when either fails
+  private resolveToolCall(request: McpRequest):
+    { tool: ToolDefinition<any>; args: any } | { error: McpResponse } {
+    const { name, arguments: args } = request.params ?? {};
+    this.logger.log('Tool call requested', { toolName: name, arguments: args });
 
-        // Validate arguments and provide better error messages
-        const validationResult = schema.safeParse(args);
-        if (!validationResult.success) {
-          this.logger.warn('Invalid tool arguments', {
-            errors: validationResult.error.errors,
-            received: args
-          });
-          return {
-            jsonrpc: "2.0",
-            id: request.id,
-            error: {
-              code: -32602,
-              message: `Invalid arguments: ${validationResult.error.errors.map(e => e.message).join(', ')}`
-            }
-          };
+    if (this.tools.isBlocked(name)) {
+      this.logger.warn('Mutating tool refused in read-only mode', { toolName: name });
+      return {
+        error: {
+          jsonrpc: "2.0",
+          id: request.id,
+          error: {
+            code: -32601,
+            message: `Tool ${name} is disabled because the server is read-only`
+          }
         }
+      };
+    }
 
-        const payload = validationResult.data;
-        this.logger.log('Validated tool arguments', payload);
-
-        this.logger.log('Calling Readwise API', payload);
-        const response = await this.axios.post("/api/mcp/highlights", payload);
-        this.logger.log('Readwise API response received', { resultCount: response.data.results?.length || 0 });
+    const tool = this.tools.get(name);
+    if (!tool) {
+      this.logger.warn('Unknown tool requested', { toolName: name });
+      return {
+        error: {
+          jsonrpc: "2.0",
+          id: request.id,
+          error: {
+            code: -32601,
+            message: "Tool not found"
+          }
+        }
+      };
+    }
 
-        return {
+    // Validate arguments and provide better error messages
+    const validationResult = tool.inputSchema.safeParse(args ?? {});
+    if (!validationResult.success) {
+      this.logger.warn('Invalid tool arguments', {
+        errors: validationResult.error.errors,
+        received: args
+      });
+      return {
+        error: {
           jsonrpc: "2.0",
           id: request.id,
-          result: {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(response.data.results)
-              }
-            ]
+          error: {
+            code: -32602,
+            message: `Invalid arguments: ${validationResult.error.errors.map(e => e.message).join(', ')}`
           }
-        };
+        }
+      };
+    }
+
+    this.logger.log('Validated tool arguments', validationResult.data);
+    return { tool, args: validationResult.data };
+  }
+
+  private async handleToolsCall(
+    request: McpRequest,
+    context: ToolContext,
+    session?: McpSession,
+    channel?: CallChannel
+  ): Promise<McpResponse> {
+    const resolved = this.resolveToolCall(request);
+    if ('error' in resolved) {
+      return resolved.error;
+    }
+
+    // Registered with the session so notifications/cancelled can find it
+    const call = new ToolCall(request.id, ToolCall.progressTokenOf(request.params), channel);
+    const untrack = session?.trackCall(call);
+    try {
+      this.logger.log(`Processing ${resolved.tool.name} tool call`);
+      const result = await this.runTool(resolved.tool, resolved.args, context, call, session && {
+        principal: session.principalId,
+        client: session.clientInfo?.name,
+        sessionId: session.id
+      });
+      return call.cancelled ? cancelledResponse(request.id) : {
+        jsonrpc: "2.0",
+        id: request.id,
+        result
+      };
+    } catch (error) {
+      return call.cancelled ? cancelledResponse(request.id) : {
+        jsonrpc: "2.0",
+        id: request.id,
+        result: this.toolExecutionError(error)
+      };
+    } finally {
+      untrack?.();
+    }
+  }
+
+  // Writes each content item of the result as its own NDJSON line, preceded
+  // by notifications/progress lines when the request has a progressToken. The
+  // call is cancelled if the client disconnects before it finishes.
+  private async handleToolsCallStream(request: McpRequest, res: express.Response, context: ToolContext) {
+    const resolved = this.resolveToolCall(request);
+    if ('error' in resolved) {
+      res.write(JSON.stringify(resolved.error) + '\n');
+      res.end();
+      return;
+    }
+
+    const disconnected = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        disconnected.abort('client disconnected');
       }
+    });
+    const call = new ToolCall(request.id, ToolCall.progressTokenOf(request.params), {
+      notify: notification => res.write(JSON.stringify(notification) + '\n'),
+      signal: disconnected.signal
+    });
+
+    let result;
+    try {
+      this.logger.log(`Processing streaming ${resolved.tool.name} tool call`);
+      result = await this.runTool(resolved.tool, resolved.args, context, call, { principal: res.req.principal?.id });
+    } catch (error) {
+      result = call.cancelled ? undefined : this.toolExecutionError(error);
+    }
+
+    if (call.cancelled || !result) {
+      this.logger.log('Streaming client went away, call cancelled', { tool: resolved.tool.name });
+      res.end();
+      return;
+    }
+
+    // Stream each content item as a separate MCP response
+    this.logger.log('Starting to stream results', { items: result.content.length });
+    for (const item of result.content) {
+      const streamResponse: McpResponse = {
+        jsonrpc: "2.0",
+        id: request.id,
+        result: {
+          content: [item],
+          ...(result.isError && { isError: true })
+        }
+      };
+      res.write(JSON.stringify(streamResponse) + '\n');
+    }
+    res.end();
+    this.logger.log('Streaming completed');
+  }
+
+  // Lists books as concrete resources, one Readwise page per cursor
+  private async handleResourcesList(request: McpRequest, context: ToolContext): Promise<McpResponse> {
+    try {
+      const page = parseInt(request.params?.cursor ?? '1') || 1;
+      this.logger.log('Listing book resources', { page });
+      const response = await context.axios.get("/api/v2/books/", { params: { page, page_size: 100 } });
 
-      this.logger.warn('Unknown tool requested', { toolName: name });
       return {
         jsonrpc: "2.0",
         id: request.id,
-        error: {
-          code: -32601,
-          message: "Tool not found"
+        result: {
+          resources: response.data.results.map((book: any) => ({
+            uri: `readwise://book/${book.id}`,
+            name: book.title,
+            description: [book.author, book.category].filter(Boolean).join(' · '),
+            mimeType: "text/markdown"
+          })),
+          ...(response.data.next && { nextCursor: String(page + 1) })
         }
       };
     } catch (error) {
-      this.logger.error('Tool execution failed', error);
+      const classified = classifyError(error);
+      if (classified.data.type !== 'internal') {
+        this.logger.warn('Readwise call failed', { method: request.method, ...classified.data });
+        return jsonRpcError(request.id, classified);
+      }
+      this.logger.error('Failed to list resources', error);
       return {
         jsonrpc: "2.0",
         id: request.id,
         error: {
           code: -32603,
-          message: "Tool execution failed"
+          message: "Failed to list resources"
         }
       };
     }
   }
 
-    private async handleToolsCallStream(request: McpRequest, res: express.Response) {
-    try {
-      const { name, arguments: args } = request.params;
-      this.logger.log('Streaming tool call requested', { toolName: name, arguments: args });
-
-      if (name === 'search_readwise_highlights') {
-        this.logger.log('Processing streaming search_readwise_highlights tool call');
-
-        const schema = z.object({
-          vector_search_term: z.string().optional(),
-          full_text_queries: z.array(
-            z.object({
-              field_name: z.enum([
-                "document_author",
-                "document_title",
-                "highlight_note",
-                "highlight_plaintext",
-                "highlight_tags",
-              ]),
-              search_term: z.string(),
-            })
-          ).optional(),
-        });
-
-        const payload = schema.parse(args);
-        this.logger.log('Validated streaming tool arguments', payload);
-
-        if (!payload.vector_search_term && (!payload.full_text_queries || payload.full_text_queries.length === 0)) {
-          this.logger.warn('Invalid streaming tool arguments - missing search terms');
-          const errorResponse: McpResponse = {
-            jsonrpc: "2.0",
-            id: request.id,
-            error: {
-              code: -32602,
-              message: "Either vector_search_term or full_text_queries must be provided"
-            }
-          };
-          res.write(JSON.stringify(errorResponse) + '\n');
-          res.end();
-          return;
-        }
+  private async handleResourceTemplatesList(request: McpRequest): Promise<McpResponse> {
+    return {
+      jsonrpc: "2.0",
+      id: request.id,
+      result: {
+        resourceTemplates: this.resources.describeTemplates()
+      }
+    };
+  }
 
-        this.logger.log('Sending initial streaming response');
-        // Send initial response
-        const initialResponse: McpResponse = {
+  private async handleResourcesRead(request: McpRequest, context: ToolContext): Promise<McpResponse> {
+    const uri = request.params?.uri;
+    try {
+      if (typeof uri !== 'string') {
+        return {
           jsonrpc: "2.0",
           id: request.id,
-          result: {
-            content: [
-              {
-                type: "text",
-                text: "Starting search..."
-              }
-            ]
+          error: {
+            code: -32602,
+            message: "Invalid arguments: uri is required"
           }
         };
-        res.write(JSON.stringify(initialResponse) + '\n');
+      }
 
-        this.logger.log('Calling Readwise API for streaming', payload);
-        const response = await this.axios.post("/api/mcp/highlights", payload);
-        const results = response.data.results;
-        this.logger.log('Readwise API streaming response received', { resultCount: results?.length || 0 });
+      const contents = await this.resources.read(uri, context);
+      if (!contents) {
+        this.logger.warn('Unknown resource requested', { uri });
+        return this.resourceNotFound(request, uri);
+      }
 
-        // Stream results as separate MCP responses
-        this.logger.log('Starting to stream results');
-        for (let i = 0; i < results.length; i++) {
-          const result = results[i];
-          this.logger.log(`Streaming result ${i + 1}/${results.length}`);
+      return {
+        jsonrpc: "2.0",
+        id: request.id,
+        result: {
+          contents: [contents]
+        }
+      };
+    } catch (error: any) {
+      if (error?.response?.status === 404) {
+        return this.resourceNotFound(request, uri);
+      }
+      const classified = classifyError(error);
+      if (classified.data.type !== 'internal') {
+        this.logger.warn('Readwise call failed', { method: request.method, ...classified.data });
+        return jsonRpcError(request.id, classified);
+      }
+      this.logger.error('Failed to read resource', error);
+      return {
+        jsonrpc: "2.0",
+        id: request.id,
+        error: {
+          code: -32603,
+          message: "Failed to read resource"
+        }
+      };
+    }
+  }
 
-          const streamResponse: McpResponse = {
-            jsonrpc: "2.0",
-            id: request.id,
-            result: {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(result)
-                }
-              ]
-            }
-          };
-          res.write(JSON.stringify(streamResponse) + '\n');
+  private resourceNotFound(request: McpRequest, uri: string): McpResponse {
+    return {
+      jsonrpc: "2.0",
+      id: request.id,
+      error: {
+        code: -32002,
+        message: "Resource not found",
+        data: { uri }
+      }
+    };
+  }
+
+  private async runTool(tool: ToolDefinition<any>, args: any, context: ToolContext, call: ToolCall, caller: AuditCaller = {}) {
+    const started = Date.now();
+    let outcome: 'success' | 'error' = 'error';
+    try {
+      const run = () => tool.handler(args, { ...context, signal: call.signal, reportProgress: call.reportProgress });
+      const result = this.audit
+        ? await this.audit.record(
+          { ...caller, method: 'tools/call', tool: tool.name, arguments: args, tenantId: context.tenantId },
+          run,
+          () => call.cancelled
+        )
+        : await run();
+      outcome = result.isError ? 'error' : 'success';
+      return result;
+    } finally {
+      this.metrics.recordToolCall(tool.name, call.cancelled ? 'cancelled' : outcome, (Date.now() - started) / 1000);
+      if (call.cancelled) {
+        this.logger.info('Tool call cancelled', { tool: tool.name, requestId: call.requestId, reason: call.signal.reason });
+      }
+    }
+  }
 
-          // Small delay for streaming effect
-          await new Promise(resolve => setTimeout(resolve, 100));
+  // Tool failures are reported as `isError` results rather than protocol
+  // errors, as the MCP spec recommends
+  private toolExecutionError(error: unknown) {
+    const classified = classifyError(error);
+    if (classified.data.type === 'internal') {
+      this.logger.error('Tool execution failed', error);
+    } else {
+      this.logger.warn('Tool call failed upstream', classified.data);
+    }
+    return toolErrorResult(classified);
+  }
+
+  private async handleResourceSubscription(
+    request: McpRequest,
+    context: ToolContext,
+    session?: McpSession
+  ): Promise<McpResponse> {
+    // Notifications go out on the session's GET stream, so there must be one
+    if (!session) {
+      return this.invalidRequest(request.id, "Invalid Request: resource subscriptions need an MCP session");
+    }
+    const uri = request.params?.uri;
+    if (typeof uri !== 'string' || !ResourceSubscriptions.supports(uri)) {
+      return {
+        jsonrpc: "2.0",
+        id: request.id,
+        error: {
+          code: -32602,
+          message: "Subscriptions are only supported for readwise://book/{id} resources"
         }
+      };
+    }
 
-        this.logger.log('Sending streaming completion response');
-        // Send completion response
-        const completionResponse: McpResponse = {
-          jsonrpc: "2.0",
-          id: request.id,
-          result: {
-            content: [
-              {
-                type: "text",
-                text: "Search completed."
-              }
-            ]
-          }
-        };
-        res.write(JSON.stringify(completionResponse) + '\n');
-        res.end();
-        this.logger.log('Streaming completed');
+    try {
+      if (request.method === 'resources/subscribe') {
+        await this.subscriptions.subscribe(uri, session.id, context);
       } else {
-        this.logger.warn('Unknown streaming tool requested', { toolName: name });
-        const errorResponse: McpResponse = {
+        this.subscriptions.unsubscribe(uri, session.id, context);
+      }
+      return { jsonrpc: "2.0", id: request.id, result: {} };
+    } catch (error: any) {
+      if (error?.response?.status === 404) {
+        return this.resourceNotFound(request, uri);
+      }
+      this.logger.error('Failed to update resource subscription', error);
+      return {
+        jsonrpc: "2.0",
+        id: request.id,
+        error: {
+          code: -32603,
+          message: "Failed to update resource subscription"
+        }
+      };
+    }
+  }
+
+  private async handlePromptsList(request: McpRequest): Promise<McpResponse> {
+    return {
+      jsonrpc: "2.0",
+      id: request.id,
+      result: {
+        prompts: this.prompts.describe()
+      }
+    };
+  }
+
+  private async handlePromptsGet(request: McpRequest, context: ToolContext): Promise<McpResponse> {
+    const { name, arguments: args } = request.params ?? {};
+    const prompt = this.prompts.get(name);
+    if (!prompt) {
+      this.logger.warn('Unknown prompt requested', { name });
+      return {
+        jsonrpc: "2.0",
+        id: request.id,
+        error: {
+          code: -32602,
+          message: "Prompt not found"
+        }
+      };
+    }
+
+    try {
+      this.logger.log('Rendering prompt', { name, arguments: args });
+      const result = await this.prompts.render(prompt, args ?? {}, this.tools, context);
+      return {
+        jsonrpc: "2.0",
+        id: request.id,
+        result
+      };
+    } catch (error) {
+      if (error instanceof PromptArgumentsError) {
+        this.logger.warn('Invalid prompt arguments', { name, error: error.message });
+        return {
           jsonrpc: "2.0",
           id: request.id,
           error: {
-            code: -32601,
-            message: "Tool not found"
+            code: -32602,
+            message: error.message
           }
         };
-        res.write(JSON.stringify(errorResponse) + '\n');
-        res.end();
       }
-    } catch (error) {
-      this.logger.error('Streaming tool execution failed', error);
-      const errorResponse: McpResponse = {
+      const classified = classifyError(error);
+      if (classified.data.type !== 'internal') {
+        this.logger.warn('Readwise call failed', { method: request.method, ...classified.data });
+        return jsonRpcError(request.id, classified);
+      }
+      this.logger.error('Prompt rendering failed', error);
+      return {
         jsonrpc: "2.0",
         id: request.id,
         error: {
           code: -32603,
-          message: "Tool execution failed"
+          message: "Prompt rendering failed"
         }
       };
-      res.write(JSON.stringify(errorResponse) + '\n');
-      res.end();
     }
   }
 
@@ -696,37 +1608,205 @@ class ReadwiseMcpHttpServer {
     };
   }
 
-  private async initializeReadwise() {
+  // Drops everything cached, since a change can show up in any cached
+  // search or list, and tells the clients that can see it. Webhooks are
+  // single-tenant, so everything here belongs to the default tenant.
+  private async applyWebhookEvent(event: WebhookEvent): Promise<number> {
+    await this.cache.clear();
+    this.mirrorSync?.sync().catch(() => {});
+
+    let notified = 0;
+    if (event.bookId !== undefined) {
+      notified += this.subscriptions.changed(`readwise://book/${event.bookId}`, 'default');
+    }
+    // New and deleted highlights can add or empty a book in resources/list
+    if (event.subject === 'highlight' && event.action !== 'updated') {
+      notified += this.sessions.broadcast(
+        { jsonrpc: "2.0", method: "notifications/resources/list_changed" },
+        session => session.tenantContext?.tenantId === 'default'
+      );
+    }
+    this.logger.log('Webhook applied', { type: event.type, notified });
+    return notified;
+  }
+
+  private async handleExport(req: express.Request, res: express.Response) {
+    let stream: ExportStream;
+    const controller = new AbortController();
     try {
-      this.logger.info('Initializing Readwise MCP connection');
-      await this.axios.post("/api/mcp/initialize");
-      this.logger.info('Readwise MCP initialized successfully');
+      const parsed = exportRequestSchema.safeParse(exportRequestFromQuery(req.query));
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: `Invalid export request: ${parsed.error.errors.map(e => `${e.path.join('.') || 'query'}: ${e.message}`).join(', ')}`
+        });
+      }
+      const context = this.resolveTenant(req, res);
+      if (!context) {
+        return;
+      }
+      stream = this.exporter.open(parsed.data, { ...context, signal: controller.signal });
     } catch (error) {
-      this.logger.error('Failed to initialize Readwise MCP', error);
+      if (error instanceof ExportRequestError) {
+        return res.status(400).json({ error: error.message });
+      }
+      throw error;
+    }
+
+    // Stop fetching from Readwise once the client goes away
+    res.on('close', () => controller.abort());
+    const { chunks } = stream;
+    let chunk: IteratorResult<{ text: string }>;
+    try {
+      chunk = await chunks.next();
+    } catch (error) {
+      const classified = classifyError(error);
+      this.logger.warn('Export failed', { error: classified.message, type: classified.data.type });
+      return res.status(EXPORT_ERROR_STATUS[classified.data.type]).json({
+        error: { code: classified.code, message: classified.message, ...classified.data }
+      });
+    }
+
+    res.setHeader('Content-Type', stream.mimeType);
+    res.setHeader('Content-Disposition', `attachment; filename="${stream.filename}"`);
+    try {
+      while (!chunk.done) {
+        if (!res.write(chunk.value.text)) {
+          await once(res, 'drain', { signal: controller.signal });
+        }
+        chunk = await chunks.next();
+      }
+      res.end();
+    } catch (error) {
+      // The status line is gone by now, so all that is left is cutting the
+      // response short for the client to notice
+      if (!controller.signal.aborted) {
+        this.logger.warn('Export failed after it started', { error: classifyError(error).message });
+      }
+      res.destroy();
+    } finally {
+      await chunks.return(undefined);
     }
   }
 
-  public start() {
-    this.app.listen(this.port, '0.0.0.0', () => {
-      this.logger.info(`🚀 Readwise MCP HTTP Server started successfully`);
-      this.logger.info(`📖 Health check: http://localhost:${this.port}/health`);
-      this.logger.info(`🔧 MCP endpoint: POST http://localhost:${this.port}/mcp`);
-      this.logger.info(`📡 MCP streaming: POST http://localhost:${this.port}/mcp/stream`);
-      this.logger.info(`ℹ️  MCP info: GET http://localhost:${this.port}/mcp/info`);
-      this.logger.info(`🌐 Network accessible on all interfaces`);
-
-      // Also log to console for immediate visibility
-      console.log(`🚀 Readwise MCP HTTP Server running on port ${this.port}`);
-      console.log(`📖 Health check: http://localhost:${this.port}/health`);
-      console.log(`🔧 MCP endpoint: POST http://localhost:${this.port}/mcp`);
-      console.log(`📡 MCP streaming: POST http://localhost:${this.port}/mcp/stream`);
-      console.log(`ℹ️  MCP info: GET http://localhost:${this.port}/mcp/info`);
-      console.log(`🌐 Network accessible on all interfaces`);
-      console.log(`🔍 Debug mode: ${this.logger.debugMode ? 'enabled' : 'disabled'}`);
+  private readiness() {
+    const components: Record<string, ComponentHealth> = {};
+    if (this.upstreamHealth) {
+      components.upstream = this.upstreamHealth.upstreamComponent();
+      components.token = this.upstreamHealth.tokenComponent();
+    }
+    components.circuitBreaker = breakerComponent(this.breaker.status());
+    if (this.mirrorSync) {
+      components.mirror = mirrorComponent(this.mirrorSync.status(), this.config.mirror.maxStaleness * 1000);
+    }
+    return readinessReport(components);
+  }
+
+  // Connects a client that talks over one message stream, like stdio. The
+  // connection is a single session for its whole life, using the
+  // ACCESS_TOKEN client; progress and other server-initiated messages go out
+  // on `stream`.
+  public connect(stream: MessageStream): ServerConnection {
+    const context = this.toolContext();
+    const session = this.sessions.create(LATEST_PROTOCOL_VERSION);
+    session.tenantContext = context;
+    session.attachStandaloneStream(stream);
+    const channel: CallChannel = { notify: notification => stream.send(notification) };
+
+    return {
+      receive: message => withRequestId(async () => {
+        session.touch();
+        const response = await this.handleIncomingMessage(message, context, session, channel);
+        return response && !isCancelledResponse(response) ? response : undefined;
+      }),
+      close: () => this.sessions.delete(session.id)
+    };
+  }
+
+  // Checks the Readwise connection and token once and reports readiness, for
+  // the CLI's `check` command
+  public async checkUpstream(): Promise<ReadinessReport> {
+    await this.upstreamHealth?.checkOnce();
+    return this.readiness();
+  }
+
+  // Resolves once the server is listening
+  public start(): Promise<Server> {
+    const { host } = this.config.server;
+    return new Promise((resolve, reject) => {
+      const httpServer = this.app.listen(this.config.server.port, host, () => {
+        this.httpServer = httpServer;
+        // The actual port, in case port 0 asked for any free one
+        const { port } = httpServer.address() as AddressInfo;
+        this.logger.info(`🚀 Readwise MCP HTTP Server started successfully`);
+        this.logger.info(`📖 Health check: http://localhost:${port}/health`);
+        this.logger.info(`📈 Metrics: http://localhost:${port}/metrics`);
+        this.logger.info(`🔧 MCP endpoint: POST/GET/DELETE http://localhost:${port}/mcp`);
+        this.logger.info(`📡 Legacy streaming: POST http://localhost:${port}/mcp/stream (deprecated)`);
+        this.logger.info(`ℹ️  MCP info: GET http://localhost:${port}/mcp/info`);
+        this.logger.info(host === '0.0.0.0' ? `🌐 Network accessible on all interfaces` : `🌐 Listening on ${host}`);
+
+        // Also log to console for immediate visibility, unless the output is
+        // meant for a log pipeline
+        if (!this.logger.jsonFormat) {
+          console.log(`🚀 Readwise MCP HTTP Server running on port ${port}`);
+          console.log(`📖 Health check: http://localhost:${port}/health`);
+          console.log(`📈 Metrics: http://localhost:${port}/metrics`);
+          console.log(`🔧 MCP endpoint: POST/GET/DELETE http://localhost:${port}/mcp`);
+          console.log(`📡 Legacy streaming: POST http://localhost:${port}/mcp/stream (deprecated)`);
+          console.log(`ℹ️  MCP info: GET http://localhost:${port}/mcp/info`);
+          console.log(host === '0.0.0.0' ? `🌐 Network accessible on all interfaces` : `🌐 Listening on ${host}`);
+          console.log(`🔍 Debug mode: ${this.logger.debugMode ? 'enabled' : 'disabled'}`);
+        }
+        resolve(httpServer);
+      });
+      httpServer.once('error', reject);
     });
   }
+
+  // Stops background work, ends every session and, if start() was used,
+  // stops listening
+  public async close() {
+    this.upstreamHealth?.stop();
+    this.mirrorSync?.stop();
+    this.subscriptions.stop();
+    this.sessions.closeAll();
+    if (this.httpServer) {
+      const httpServer = this.httpServer;
+      this.httpServer = undefined;
+      httpServer.closeAllConnections();
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    }
+    this.mirror?.close();
+    this.audit?.close();
+    await this.history.flush();
+  }
+}
+
+export function createServer(config: ServerConfig, dependencies: ServerDependencies = {}): ReadwiseMcpHttpServer {
+  return new ReadwiseMcpHttpServer(config, dependencies);
 }
 
-// Start the server
-const server = new ReadwiseMcpHttpServer();
-server.start();
+// Start the server when run directly; importing this module only defines it.
+// Configuration problems are reported without a stack trace, since they are
+// the operator's to fix.
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  // Load environment variables
+  config();
+  try {
+    const { config: serverConfig, printConfig } = loadConfig();
+    if (printConfig) {
+      console.log(JSON.stringify(redactConfig(serverConfig), null, 2));
+    } else {
+      createServer(serverConfig).start().catch(error => {
+        console.error(`Cannot start the server: ${error.message}`);
+        process.exit(1);
+      });
+    }
+  } catch (error) {
+    if (!(error instanceof ConfigError)) {
+      throw error;
+    }
+    console.error(error.message);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,57 @@
+// JSON-RPC / MCP message shapes shared by the HTTP routes and transports
+
+export interface McpRequest {
+  jsonrpc: "2.0";
+  id: string | number;
+  method: string;
+  params?: any;
+}
+
+export interface McpResponse {
+  jsonrpc: "2.0";
+  // null only when the request's id couldn't be determined
+  id: string | number | null;
+  result?: any;
+  error?: {
+    code: number;
+    message: string;
+    data?: any;
+  };
+}
+
+export interface McpNotification {
+  jsonrpc: "2.0";
+  method: string;
+  params?: any;
+}
+
+export type JsonRpcMessage = McpRequest | McpResponse | McpNotification;
+
+function isJsonRpc(message: any): boolean {
+  return typeof message === 'object' && message !== null && message.jsonrpc === "2.0";
+}
+
+function hasId(message: any): boolean {
+  return typeof message.id === 'string' || typeof message.id === 'number';
+}
+
+export function isMcpRequest(message: any): message is McpRequest {
+  return isJsonRpc(message) && typeof message.method === 'string' && hasId(message);
+}
+
+// Anything with a method but no id is a notification and must not be answered
+export function isMcpNotification(message: any): message is McpNotification {
+  return isJsonRpc(message) && typeof message.method === 'string' && !('id' in message);
+}
+
+export function isMcpResponse(message: any): message is McpResponse {
+  return isJsonRpc(message)
+    && message.method === undefined
+    && (hasId(message) || message.id === null)
+    && ('result' in message || 'error' in message);
+}
+
+// Protocol revisions we can speak, newest first. The first entry is offered
+// when the client asks for a version we don't know.
+export const SUPPORTED_PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+export const LATEST_PROTOCOL_VERSION = SUPPORTED_PROTOCOL_VERSIONS[0];
@@ -0,0 +1,208 @@
+import { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from "axios";
+import { namespace as retryNamespace } from 'axios-retry';
+import express from 'express';
+import { collectDefaultMetrics, Counter, Gauge, Histogram, Registry } from 'prom-client';
+import { UpstreamUnavailableError } from './resilience.js';
+
+// Prometheus metrics, served on /metrics
+
+const DURATION_BUCKETS = [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+// `cancelled` requests were abandoned by the client before they finished
+type Outcome = 'success' | 'error' | 'cancelled';
+
+// Upstream URLs with IDs collapsed, so each endpoint is one label value
+function endpointLabel(config: InternalAxiosRequestConfig | undefined): string {
+  return (config?.url ?? 'unknown').split('?')[0].replace(/\/\d+(?=\/|$)/g, '/:id');
+}
+
+export class Metrics {
+  readonly registry = new Registry();
+
+  private httpRequests = new Counter({
+    name: 'mcp_http_requests_total',
+    help: 'HTTP requests by route and status',
+    labelNames: ['method', 'route', 'status'] as const,
+    registers: [this.registry]
+  });
+
+  private httpDuration = new Histogram({
+    name: 'mcp_http_request_duration_seconds',
+    help: 'HTTP request latency by route',
+    labelNames: ['method', 'route'] as const,
+    buckets: DURATION_BUCKETS,
+    registers: [this.registry]
+  });
+
+  private rpcRequests = new Counter({
+    name: 'mcp_rpc_requests_total',
+    help: 'JSON-RPC requests by MCP method and outcome',
+    labelNames: ['method', 'outcome'] as const,
+    registers: [this.registry]
+  });
+
+  private rpcDuration = new Histogram({
+    name: 'mcp_rpc_duration_seconds',
+    help: 'JSON-RPC request latency by MCP method',
+    labelNames: ['method'] as const,
+    buckets: DURATION_BUCKETS,
+    registers: [this.registry]
+  });
+
+  private toolCalls = new Counter({
+    name: 'mcp_tool_calls_total',
+    help: 'Tool calls by tool and outcome',
+    labelNames: ['tool', 'outcome'] as const,
+    registers: [this.registry]
+  });
+
+  private toolDuration = new Histogram({
+    name: 'mcp_tool_duration_seconds',
+    help: 'Tool call latency by tool',
+    labelNames: ['tool'] as const,
+    buckets: DURATION_BUCKETS,
+    registers: [this.registry]
+  });
+
+  private upstreamRequests = new Counter({
+    name: 'readwise_upstream_requests_total',
+    help: 'Requests to Readwise by endpoint and status code, one per attempt. Requests refused locally have status circuit_open or rate_limited',
+    labelNames: ['method', 'endpoint', 'status'] as const,
+    registers: [this.registry]
+  });
+
+  private upstreamDuration = new Histogram({
+    name: 'readwise_upstream_duration_seconds',
+    help: 'Readwise response latency by endpoint, one per attempt',
+    labelNames: ['method', 'endpoint'] as const,
+    buckets: DURATION_BUCKETS,
+    registers: [this.registry]
+  });
+
+  private upstreamRetries = new Counter({
+    name: 'readwise_upstream_retries_total',
+    help: 'Retried requests to Readwise by endpoint',
+    labelNames: ['method', 'endpoint'] as const,
+    registers: [this.registry]
+  });
+
+  private webhookEvents = new Counter({
+    name: 'mcp_webhook_events_total',
+    help: 'Inbound Readwise webhooks by subject and outcome',
+    labelNames: ['subject', 'outcome'] as const,
+    registers: [this.registry]
+  });
+
+  readonly activeStreams = new Gauge({
+    name: 'mcp_active_streams',
+    help: 'Open SSE streams by kind',
+    labelNames: ['kind'] as const,
+    registers: [this.registry]
+  });
+
+  constructor() {
+    collectDefaultMetrics({ register: this.registry });
+  }
+
+  // A gauge whose value is read at scrape time
+  observe(name: string, help: string, read: () => number) {
+    new Gauge({
+      name,
+      help,
+      registers: [this.registry],
+      collect() {
+        this.set(read());
+      }
+    });
+  }
+
+  // Labelled counterpart of observe(), for values that come as a set
+  observeLabelled(name: string, help: string, label: string, read: () => Record<string, number>) {
+    new Gauge({
+      name,
+      help,
+      labelNames: [label],
+      registers: [this.registry],
+      collect() {
+        this.reset();
+        for (const [value, count] of Object.entries(read())) {
+          this.set({ [label]: value }, count);
+        }
+      }
+    });
+  }
+
+  middleware(): express.RequestHandler {
+    return (req, res, next) => {
+      const end = this.httpDuration.startTimer();
+      res.on('finish', () => {
+        // The matched route pattern, not the raw URL, to bound cardinality
+        const route = req.route?.path ?? (res.statusCode === 404 ? 'unmatched' : req.baseUrl || req.path);
+        end({ method: req.method, route });
+        this.httpRequests.inc({ method: req.method, route, status: String(res.statusCode) });
+      });
+      next();
+    };
+  }
+
+  handler(): express.RequestHandler {
+    return async (req, res) => {
+      res.setHeader('Content-Type', this.registry.contentType);
+      res.end(await this.registry.metrics());
+    };
+  }
+
+  recordRpc(method: string, outcome: Outcome, seconds: number) {
+    this.rpcRequests.inc({ method, outcome });
+    this.rpcDuration.observe({ method }, seconds);
+  }
+
+  recordToolCall(tool: string, outcome: Outcome, seconds: number) {
+    this.toolCalls.inc({ tool, outcome });
+    this.toolDuration.observe({ tool }, seconds);
+  }
+
+  recordWebhook(subject: string, outcome: 'accepted' | 'rejected' | 'invalid' | 'failed') {
+    this.webhookEvents.inc({ subject, outcome });
+  }
+
+  // Counts every attempt, including retries. Registered before the
+  // resilience interceptors so it sees each attempt's raw outcome and its
+  // request timer starts right before the request is sent.
+  instrumentClient(client: AxiosInstance) {
+    const started = new WeakMap<InternalAxiosRequestConfig, number>();
+
+    client.interceptors.request.use(config => {
+      const labels = { method: (config.method ?? 'get').toUpperCase(), endpoint: endpointLabel(config) };
+      if ((config[retryNamespace]?.retryCount ?? 0) > 0) {
+        this.upstreamRetries.inc(labels);
+      }
+      started.set(config, Date.now());
+      return config;
+    });
+
+    const record = (config: InternalAxiosRequestConfig | undefined, status: string) => {
+      const labels = { method: (config?.method ?? 'get').toUpperCase(), endpoint: endpointLabel(config) };
+      this.upstreamRequests.inc({ ...labels, status });
+      const start = config && started.get(config);
+      if (start) {
+        this.upstreamDuration.observe(labels, (Date.now() - start) / 1000);
+      }
+    };
+
+    client.interceptors.response.use(
+      response => {
+        record(response.config, String(response.status));
+        return response;
+      },
+      error => {
+        if (error instanceof AxiosError && error.code !== AxiosError.ERR_CANCELED) {
+          record(error.config, error.response ? String(error.response.status) : (error.code ?? 'network_error'));
+        } else if (error instanceof UpstreamUnavailableError) {
+          this.upstreamRequests.inc({ method: 'unknown', endpoint: 'unknown', status: error.reason });
+        }
+        return Promise.reject(error);
+      }
+    );
+  }
+}
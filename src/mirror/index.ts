@@ -0,0 +1,4 @@
+export { LocalSearchQueryError, MirrorStore } from './store.js';
+export type { ExportBook, ExportHighlight, LocalHighlight, LocalSearchOptions } from './store.js';
+export { MirrorSync } from './sync.js';
+export type { SyncStatus } from './sync.js';
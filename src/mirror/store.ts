@@ -0,0 +1,283 @@
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import path from 'path';
+
+// Local SQLite copy of the highlight library, fed by the v2 export API and
+// searched with FTS5 so search keeps working while readwise.io is down.
+
+// Shapes of the v2 export API we rely on
+export interface ExportHighlight {
+  id: number;
+  text: string;
+  note?: string | null;
+  location?: number | null;
+  location_type?: string | null;
+  highlighted_at?: string | null;
+  updated_at?: string | null;
+  url?: string | null;
+  readwise_url?: string | null;
+  tags?: Array<{ id: number; name: string }>;
+  is_deleted?: boolean;
+}
+
+export interface ExportBook {
+  user_book_id: number;
+  title?: string | null;
+  readable_title?: string | null;
+  author?: string | null;
+  category?: string | null;
+  source?: string | null;
+  source_url?: string | null;
+  readwise_url?: string | null;
+  highlights: ExportHighlight[];
+}
+
+export interface LocalSearchOptions {
+  // FTS5 query; when omitted only the filters apply
+  query?: string;
+  tag?: string;
+  bookId?: number;
+  bookTitle?: string;
+  category?: string;
+  highlightedAfter?: string;
+  highlightedBefore?: string;
+  // Order by book, then position in the book, instead of newest first;
+  // ignored with a query, which orders by relevance
+  byBook?: boolean;
+  limit: number;
+  offset: number;
+}
+
+export interface LocalHighlight {
+  id: number;
+  text: string;
+  note: string | null;
+  tags: string[];
+  location: number | null;
+  highlighted_at: string | null;
+  url: string | null;
+  book_id: number;
+  book_title: string | null;
+  book_author: string | null;
+  snippet?: string;
+}
+
+// The query isn't valid FTS5 syntax
+export class LocalSearchQueryError extends Error {}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS books (
+    id INTEGER PRIMARY KEY,
+    title TEXT,
+    author TEXT,
+    category TEXT,
+    source TEXT,
+    source_url TEXT,
+    readwise_url TEXT,
+    generation INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS highlights (
+    id INTEGER PRIMARY KEY,
+    book_id INTEGER NOT NULL,
+    text TEXT NOT NULL,
+    note TEXT,
+    tags TEXT NOT NULL DEFAULT '[]',
+    location INTEGER,
+    highlighted_at TEXT,
+    updated_at TEXT,
+    url TEXT,
+    readwise_url TEXT,
+    generation INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS highlights_book_id ON highlights (book_id);
+  CREATE INDEX IF NOT EXISTS highlights_highlighted_at ON highlights (highlighted_at);
+  CREATE TABLE IF NOT EXISTS highlight_tags (
+    highlight_id INTEGER NOT NULL,
+    tag TEXT NOT NULL COLLATE NOCASE,
+    PRIMARY KEY (highlight_id, tag)
+  );
+  CREATE INDEX IF NOT EXISTS highlight_tags_tag ON highlight_tags (tag);
+  CREATE VIRTUAL TABLE IF NOT EXISTS highlights_fts USING fts5(
+    text, note, tags, tokenize = 'unicode61 remove_diacritics 2'
+  );
+  CREATE TABLE IF NOT EXISTS sync_state (
+    key TEXT PRIMARY KEY,
+    value TEXT
+  );
+`;
+
+// Stored timestamps are normalised so they compare correctly as strings
+function isoOrNull(value: string | null | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+export class MirrorStore {
+  private db: Database.Database;
+
+  constructor(file: string) {
+    if (file !== ':memory:') {
+      mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+    }
+    this.db = new Database(file);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+  }
+
+  getState(key: string): string | undefined {
+    const row = this.db.prepare('SELECT value FROM sync_state WHERE key = ?').get(key) as { value: string } | undefined;
+    return row?.value ?? undefined;
+  }
+
+  setState(key: string, value: string | null) {
+    this.db.prepare('INSERT OR REPLACE INTO sync_state (key, value) VALUES (?, ?)').run(key, value);
+  }
+
+  counts(): { books: number; highlights: number } {
+    const books = (this.db.prepare('SELECT COUNT(*) AS n FROM books').get() as { n: number }).n;
+    const highlights = (this.db.prepare('SELECT COUNT(*) AS n FROM highlights').get() as { n: number }).n;
+    return { books, highlights };
+  }
+
+  // Writes one export page in a single transaction. Every row written is
+  // stamped with `generation` so a full sync can drop what it didn't see.
+  applyExportPage(books: ExportBook[], generation: number): { upserted: number; deleted: number } {
+    const upsertBook = this.db.prepare(`
+      INSERT OR REPLACE INTO books (id, title, author, category, source, source_url, readwise_url, generation)
+      VALUES (@id, @title, @author, @category, @source, @source_url, @readwise_url, @generation)
+    `);
+    const upsertHighlight = this.db.prepare(`
+      INSERT OR REPLACE INTO highlights
+        (id, book_id, text, note, tags, location, highlighted_at, updated_at, url, readwise_url, generation)
+      VALUES
+        (@id, @book_id, @text, @note, @tags, @location, @highlighted_at, @updated_at, @url, @readwise_url, @generation)
+    `);
+    const insertTag = this.db.prepare('INSERT OR IGNORE INTO highlight_tags (highlight_id, tag) VALUES (?, ?)');
+    const insertFts = this.db.prepare('INSERT INTO highlights_fts (rowid, text, note, tags) VALUES (?, ?, ?, ?)');
+
+    let upserted = 0;
+    let deleted = 0;
+    this.db.transaction(() => {
+      for (const book of books) {
+        upsertBook.run({
+          id: book.user_book_id,
+          title: book.readable_title ?? book.title ?? null,
+          author: book.author ?? null,
+          category: book.category ?? null,
+          source: book.source ?? null,
+          source_url: book.source_url ?? null,
+          readwise_url: book.readwise_url ?? null,
+          generation
+        });
+
+        for (const highlight of book.highlights ?? []) {
+          this.deleteHighlight(highlight.id);
+          if (highlight.is_deleted) {
+            deleted++;
+            continue;
+          }
+
+          const tags = (highlight.tags ?? []).map(tag => tag.name);
+          upsertHighlight.run({
+            id: highlight.id,
+            book_id: book.user_book_id,
+            text: highlight.text,
+            note: highlight.note || null,
+            tags: JSON.stringify(tags),
+            location: highlight.location ?? null,
+            highlighted_at: isoOrNull(highlight.highlighted_at),
+            updated_at: isoOrNull(highlight.updated_at),
+            url: highlight.url ?? null,
+            readwise_url: highlight.readwise_url ?? null,
+            generation
+          });
+          tags.forEach(tag => insertTag.run(highlight.id, tag));
+          insertFts.run(highlight.id, highlight.text, highlight.note ?? '', tags.join(' '));
+          upserted++;
+        }
+      }
+    })();
+    return { upserted, deleted };
+  }
+
+  // Removes everything a full sync at `generation` didn't touch
+  pruneBefore(generation: number): number {
+    let removed = 0;
+    this.db.transaction(() => {
+      const stale = this.db.prepare('SELECT id FROM highlights WHERE generation < ?').all(generation) as Array<{ id: number }>;
+      stale.forEach(({ id }) => this.deleteHighlight(id));
+      removed = stale.length;
+      this.db.prepare('DELETE FROM books WHERE generation < ?').run(generation);
+    })();
+    return removed;
+  }
+
+  search(options: LocalSearchOptions): LocalHighlight[] {
+    const conditions: string[] = [];
+    const params: Record<string, unknown> = { limit: options.limit, offset: options.offset };
+
+    if (options.query) {
+      conditions.push('highlights_fts MATCH @query');
+      params.query = options.query;
+    }
+    if (options.tag) {
+      conditions.push('EXISTS (SELECT 1 FROM highlight_tags t WHERE t.highlight_id = h.id AND t.tag = @tag)');
+      params.tag = options.tag;
+    }
+    if (options.bookId !== undefined) {
+      conditions.push('h.book_id = @bookId');
+      params.bookId = options.bookId;
+    }
+    if (options.bookTitle) {
+      conditions.push("b.title LIKE '%' || @bookTitle || '%'");
+      params.bookTitle = options.bookTitle;
+    }
+    if (options.category) {
+      conditions.push('b.category = @category');
+      params.category = options.category;
+    }
+    if (options.highlightedAfter) {
+      conditions.push('h.highlighted_at >= @highlightedAfter');
+      params.highlightedAfter = isoOrNull(options.highlightedAfter);
+    }
+    if (options.highlightedBefore) {
+      conditions.push('h.highlighted_at < @highlightedBefore');
+      params.highlightedBefore = isoOrNull(options.highlightedBefore);
+    }
+
+    const sql = `
+      SELECT h.id, h.text, h.note, h.tags, h.location, h.highlighted_at, h.url, h.book_id,
+        b.title AS book_title, b.author AS book_author
+        ${options.query ? ", snippet(highlights_fts, 0, '**', '**', '…', 24) AS snippet" : ''}
+      FROM ${options.query ? 'highlights_fts f JOIN highlights h ON h.id = f.rowid' : 'highlights h'}
+      LEFT JOIN books b ON b.id = h.book_id
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY ${options.query ? 'bm25(highlights_fts)' : options.byBook ? 'h.book_id, h.location, h.id' : 'h.highlighted_at DESC'}
+      LIMIT @limit OFFSET @offset
+    `;
+
+    let rows: Array<Omit<LocalHighlight, 'tags'> & { tags: string }>;
+    try {
+      rows = this.db.prepare(sql).all(params) as typeof rows;
+    } catch (error) {
+      if (options.query && /fts5|syntax error|no such column/i.test((error as Error).message)) {
+        throw new LocalSearchQueryError(`Invalid search query: ${(error as Error).message}`);
+      }
+      throw error;
+    }
+    return rows.map(row => ({ ...row, tags: JSON.parse(row.tags) }));
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  private deleteHighlight(id: number) {
+    this.db.prepare('DELETE FROM highlights WHERE id = ?').run(id);
+    this.db.prepare('DELETE FROM highlight_tags WHERE highlight_id = ?').run(id);
+    this.db.prepare('DELETE FROM highlights_fts WHERE rowid = ?').run(id);
+  }
+}
@@ -0,0 +1,131 @@
+import { AxiosInstance } from "axios";
+import { DebugLogger } from '../debug-logger.js';
+import { ExportBook, MirrorStore } from './store.js';
+
+export interface SyncStatus {
+  running: boolean;
+  mode?: 'full' | 'incremental';
+  lastFullSyncAt: string | null;
+  // Start of the last successful sync; the next incremental sync asks for
+  // changes after it
+  lastSyncAt: string | null;
+  lastError: string | null;
+  lastErrorAt: string | null;
+  nextSyncAt: string | null;
+  intervalSeconds: number;
+  books: number;
+  highlights: number;
+}
+
+// Keeps a MirrorStore up to date: one full v2 export when the mirror is
+// empty, then incremental exports with `updatedAfter` on a schedule.
+export class MirrorSync {
+  private running?: Promise<void>;
+  private runningMode?: 'full' | 'incremental';
+  private timer?: NodeJS.Timeout;
+  private nextSyncAt?: Date;
+
+  constructor(
+    private store: MirrorStore,
+    private axios: AxiosInstance,
+    private logger: DebugLogger,
+    private intervalMs: number
+  ) {}
+
+  start() {
+    this.sync().catch(() => {});
+    this.schedule();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  // Starts a sync, or returns the one already running. Errors are recorded in
+  // the status as well as rejected.
+  sync(full = false): Promise<void> {
+    if (!this.running) {
+      const mode = full || !this.store.getState('last_sync_at') ? 'full' : 'incremental';
+      this.runningMode = mode;
+      this.running = this.run(mode).finally(() => {
+        this.running = undefined;
+        this.runningMode = undefined;
+      });
+    }
+    return this.running;
+  }
+
+  status(): SyncStatus {
+    return {
+      running: !!this.running,
+      ...(this.runningMode && { mode: this.runningMode }),
+      lastFullSyncAt: this.store.getState('last_full_sync_at') ?? null,
+      lastSyncAt: this.store.getState('last_sync_at') ?? null,
+      lastError: this.store.getState('last_error') ?? null,
+      lastErrorAt: this.store.getState('last_error_at') ?? null,
+      nextSyncAt: this.nextSyncAt?.toISOString() ?? null,
+      intervalSeconds: this.intervalMs / 1000,
+      ...this.store.counts()
+    };
+  }
+
+  private schedule() {
+    if (this.intervalMs <= 0) {
+      return;
+    }
+    this.nextSyncAt = new Date(Date.now() + this.intervalMs);
+    this.timer = setInterval(() => {
+      this.nextSyncAt = new Date(Date.now() + this.intervalMs);
+      this.sync().catch(() => {});
+    }, this.intervalMs);
+    this.timer.unref();
+  }
+
+  private async run(mode: 'full' | 'incremental') {
+    // Taken before the first request so changes made during the sync are
+    // picked up by the next one
+    const startedAt = new Date().toISOString();
+    const generation = Number(this.store.getState('generation') ?? '0') + (mode === 'full' ? 1 : 0);
+    const updatedAfter = mode === 'incremental' ? this.store.getState('last_sync_at') : undefined;
+    this.logger.info('Starting mirror sync', { mode, updatedAfter });
+
+    let upserted = 0;
+    let deleted = 0;
+    try {
+      let cursor: string | undefined;
+      let page = 0;
+      do {
+        page++;
+        this.logger.log('Fetching export page for mirror', { page, pageCursor: cursor });
+        const response = await this.axios.get("/api/v2/export/", {
+          params: {
+            ...(updatedAfter && { updatedAfter, includeDeleted: true }),
+            ...(cursor && { pageCursor: cursor })
+          }
+        });
+        const result = this.store.applyExportPage(response.data.results as ExportBook[], generation);
+        upserted += result.upserted;
+        deleted += result.deleted;
+        cursor = response.data.nextPageCursor ?? undefined;
+      } while (cursor);
+
+      if (mode === 'full') {
+        deleted += this.store.pruneBefore(generation);
+        this.store.setState('generation', String(generation));
+        this.store.setState('last_full_sync_at', startedAt);
+      }
+      this.store.setState('last_sync_at', startedAt);
+      this.store.setState('last_error', null);
+      this.store.setState('last_error_at', null);
+      this.logger.info('Mirror sync completed', { mode, upserted, deleted, ...this.store.counts() });
+    } catch (error) {
+      this.store.setState('last_error', (error as Error).message);
+      this.store.setState('last_error_at', new Date().toISOString());
+      this.logger.error('Mirror sync failed', error);
+      throw error;
+    }
+  }
+}
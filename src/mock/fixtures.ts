@@ -0,0 +1,205 @@
+import { readFileSync } from 'fs';
+
+// The library the mock Readwise server starts from. Fixture files use the
+// same shape as JSON, so a recorded or hand-written library can be replayed.
+
+export interface MockTag {
+  id: number;
+  name: string;
+}
+
+export interface MockBook {
+  id: number;
+  title: string;
+  author: string | null;
+  category: 'books' | 'articles' | 'tweets' | 'supplementals' | 'podcasts';
+  source: string;
+  source_url?: string | null;
+  updated: string;
+  tags?: MockTag[];
+}
+
+export interface MockHighlight {
+  id: number;
+  book_id: number;
+  text: string;
+  note: string;
+  location: number | null;
+  location_type?: string;
+  highlighted_at: string | null;
+  updated: string;
+  url?: string | null;
+  tags: MockTag[];
+  is_deleted?: boolean;
+}
+
+export interface MockDocument {
+  id: string;
+  url: string;
+  source_url: string;
+  title: string;
+  author: string | null;
+  category: string;
+  location: string;
+  summary: string | null;
+  tags?: Record<string, { name: string }>;
+  notes?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MockFixtures {
+  books: MockBook[];
+  highlights: MockHighlight[];
+  documents: MockDocument[];
+}
+
+// A small library covering every shape the tools handle: several books, tags,
+// notes, a repeated highlight for de-duplication and Reader documents in
+// different locations
+export function defaultFixtures(): MockFixtures {
+  return {
+    books: [
+      {
+        id: 101,
+        title: "Thinking, Fast and Slow",
+        author: "Daniel Kahneman",
+        category: "books",
+        source: "kindle",
+        updated: "2024-03-01T10:00:00Z",
+        tags: [{ id: 501, name: "psychology" }]
+      },
+      {
+        id: 102,
+        title: "The Pragmatic Programmer",
+        author: "Andrew Hunt and David Thomas",
+        category: "books",
+        source: "kindle",
+        updated: "2024-04-12T08:30:00Z"
+      },
+      {
+        id: 103,
+        title: "Writing Well on the Web",
+        author: "Jane Doe",
+        category: "articles",
+        source: "reader",
+        source_url: "https://example.com/writing-well",
+        updated: "2024-05-20T16:45:00Z"
+      }
+    ],
+    highlights: [
+      {
+        id: 1001,
+        book_id: 101,
+        text: "Nothing in life is as important as you think it is, while you are thinking about it.",
+        note: "The focusing illusion",
+        location: 120,
+        location_type: "location",
+        highlighted_at: "2024-02-28T21:14:00Z",
+        updated: "2024-03-01T10:00:00Z",
+        tags: [{ id: 9001, name: "favorite" }, { id: 9002, name: "attention" }]
+      },
+      {
+        id: 1002,
+        book_id: 101,
+        text: "A reliable way to make people believe in falsehoods is frequent repetition.",
+        note: "",
+        location: 310,
+        location_type: "location",
+        highlighted_at: "2024-02-29T07:02:00Z",
+        updated: "2024-02-29T07:02:00Z",
+        tags: [{ id: 9003, name: "persuasion" }]
+      },
+      {
+        id: 1003,
+        book_id: 102,
+        text: "Don't live with broken windows.",
+        note: "Fix small problems before they spread",
+        location: 45,
+        location_type: "location",
+        highlighted_at: "2024-04-10T12:00:00Z",
+        updated: "2024-04-12T08:30:00Z",
+        tags: [{ id: 9004, name: "favorite" }]
+      },
+      {
+        id: 1004,
+        book_id: 102,
+        text: "Care about your craft. Why spend your life developing software unless you care about doing it well?",
+        note: "",
+        location: 12,
+        location_type: "location",
+        highlighted_at: "2024-04-09T18:20:00Z",
+        updated: "2024-04-09T18:20:00Z",
+        tags: []
+      },
+      {
+        id: 1005,
+        book_id: 102,
+        text: "You can't write perfect software.",
+        note: "",
+        location: 220,
+        location_type: "location",
+        highlighted_at: "2024-04-11T09:45:00Z",
+        updated: "2024-04-11T09:45:00Z",
+        tags: []
+      },
+      {
+        id: 1006,
+        book_id: 103,
+        text: "Write for the reader who skims: put the conclusion first.",
+        note: "Use this for the team docs",
+        location: null,
+        highlighted_at: "2024-05-20T16:40:00Z",
+        updated: "2024-05-20T16:45:00Z",
+        url: "https://example.com/writing-well#conclusion",
+        tags: [{ id: 9005, name: "writing" }]
+      },
+      {
+        id: 1007,
+        book_id: 103,
+        text: "Nothing in life is as important as you think it is, while you are thinking about it.",
+        note: "",
+        location: null,
+        highlighted_at: "2024-05-20T16:42:00Z",
+        updated: "2024-05-20T16:42:00Z",
+        url: "https://example.com/writing-well#quote",
+        tags: []
+      }
+    ],
+    documents: [
+      {
+        id: "01hdoc0000000000000000001",
+        url: "https://read.readwise.io/read/01hdoc0000000000000000001",
+        source_url: "https://example.com/deep-work",
+        title: "Notes on Deep Work",
+        author: "Sam Writer",
+        category: "article",
+        location: "later",
+        summary: "Why long stretches of focus matter.",
+        created_at: "2024-06-01T09:00:00Z",
+        updated_at: "2024-06-01T09:00:00Z"
+      },
+      {
+        id: "01hdoc0000000000000000002",
+        url: "https://read.readwise.io/read/01hdoc0000000000000000002",
+        source_url: "https://example.com/annual-report.pdf",
+        title: "Annual Report",
+        author: null,
+        category: "pdf",
+        location: "new",
+        summary: null,
+        created_at: "2024-06-03T14:30:00Z",
+        updated_at: "2024-06-03T14:30:00Z"
+      }
+    ]
+  };
+}
+
+export function loadFixtures(file: string): MockFixtures {
+  const parsed = JSON.parse(readFileSync(file, 'utf8'));
+  return {
+    books: parsed.books ?? [],
+    highlights: parsed.highlights ?? [],
+    documents: parsed.documents ?? []
+  };
+}
@@ -0,0 +1,595 @@
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { pathToFileURL } from 'url';
+import { parseArgs } from 'util';
+import express from 'express';
+import { defaultFixtures, loadFixtures, MockBook, MockDocument, MockFixtures, MockHighlight } from './fixtures.js';
+
+// In-memory stand-in for the Readwise and Reader APIs this server calls. It
+// serves a fixture library, applies writes to it, records every request and
+// can inject faults, so the server can be exercised without a Readwise
+// account. Run it on its own with `npm run mock`.
+
+// Makes requests whose path starts with `path` fail or stall. A fault with
+// only `delayMs` delays the normal response.
+export interface MockFault {
+  method?: string;
+  path: string;
+  status?: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+  delayMs?: number;
+  // Drop the connection without a response
+  networkError?: boolean;
+  // Requests to affect before the fault clears itself; every one by default
+  times?: number;
+}
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: Record<string, unknown>;
+  body: unknown;
+  token?: string;
+  requestId?: string;
+}
+
+export interface MockOptions {
+  fixtures?: MockFixtures;
+  // Tokens the mock accepts; any non-empty token when omitted
+  tokens?: string[];
+  // Books per v2 export page and documents per Reader list page
+  exportPageSize?: number;
+  listPageSize?: number;
+  // Faults active from the first request
+  faults?: MockFault[];
+}
+
+function notFound(res: express.Response) {
+  res.status(404).json({ detail: "Not found." });
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+function nextId(items: Array<{ id: number }>): number {
+  return items.reduce((max, item) => Math.max(max, item.id), 0) + 1;
+}
+
+// v2 list endpoints page with `page`/`page_size` and absolute next/previous URLs
+function pageOf<T>(req: express.Request, items: T[], defaultSize: number) {
+  const page = Math.max(parseInt(String(req.query.page ?? '1')) || 1, 1);
+  const size = Math.max(parseInt(String(req.query.page_size ?? defaultSize)) || defaultSize, 1);
+  const url = (target: number) => {
+    const query = new URLSearchParams(req.query as Record<string, string>);
+    query.set('page', String(target));
+    return `${req.protocol}://${req.get('host')}${req.path}?${query}`;
+  };
+  return {
+    count: items.length,
+    next: page * size < items.length ? url(page + 1) : null,
+    previous: page > 1 ? url(page - 1) : null,
+    results: items.slice((page - 1) * size, page * size)
+  };
+}
+
+// Cursor paging for the export and Reader list endpoints. The cursor is just
+// the offset, which is opaque enough for a client.
+function cursorPageOf<T>(req: express.Request, items: T[], size: number) {
+  const offset = parseInt(String(req.query.pageCursor ?? '0')) || 0;
+  return {
+    count: items.length,
+    nextPageCursor: offset + size < items.length ? String(offset + size) : null,
+    results: items.slice(offset, offset + size)
+  };
+}
+
+export class MockReadwiseServer {
+  readonly app: express.Application;
+  // Every request received, oldest first
+  readonly requests: RecordedRequest[] = [];
+  private library: MockFixtures;
+  private faults: MockFault[] = [];
+  private server?: Server;
+
+  constructor(private options: MockOptions = {}) {
+    this.library = clone(options.fixtures ?? defaultFixtures());
+    options.faults?.forEach(fault => this.injectFault(fault));
+    this.app = express();
+    this.app.use(express.json());
+    this.setupControlRoutes();
+    this.app.use((req, res, next) => this.record(req, res, next));
+    this.app.use((req, res, next) => this.applyFaults(req, res, next));
+    this.app.use((req, res, next) => this.authenticate(req, res, next));
+    this.setupReadwiseRoutes();
+    this.app.use((req, res) => notFound(res));
+  }
+
+  // The library as it is now, including writes
+  get fixtures(): MockFixtures {
+    return this.library;
+  }
+
+  injectFault(fault: MockFault) {
+    this.faults.push({ ...fault });
+  }
+
+  clearFaults() {
+    this.faults = [];
+  }
+
+  // Back to the starting library, with no faults and no recorded requests
+  reset(fixtures?: MockFixtures) {
+    if (fixtures) {
+      this.options.fixtures = fixtures;
+    }
+    this.library = clone(this.options.fixtures ?? defaultFixtures());
+    this.clearFaults();
+    this.requests.length = 0;
+  }
+
+  // Marks a highlight deleted, as the export reports it with includeDeleted
+  deleteHighlight(id: number) {
+    const highlight = this.library.highlights.find(candidate => candidate.id === id);
+    if (highlight) {
+      highlight.is_deleted = true;
+      highlight.updated = new Date().toISOString();
+    }
+  }
+
+  // Resolves with the base URL to point BASE_URL at
+  listen(port = 0, host = '127.0.0.1'): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const server = this.app.listen(port, host, () => {
+        this.server = server;
+        resolve(`http://${host}:${(server.address() as AddressInfo).port}`);
+      });
+      server.once('error', reject);
+    });
+  }
+
+  close(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (!server) {
+      return Promise.resolve();
+    }
+    server.closeAllConnections();
+    return new Promise(resolve => server.close(() => resolve()));
+  }
+
+  // Lets tests and scripts drive a standalone mock over HTTP
+  private setupControlRoutes() {
+    this.app.get('/__mock/requests', (req, res) => {
+      res.json(this.requests);
+    });
+    this.app.delete('/__mock/requests', (req, res) => {
+      this.requests.length = 0;
+      res.status(204).end();
+    });
+    this.app.post('/__mock/faults', (req, res) => {
+      if (typeof req.body?.path !== 'string') {
+        return res.status(400).json({ detail: "A fault needs a path" });
+      }
+      this.injectFault(req.body);
+      res.status(201).json(this.faults);
+    });
+    this.app.delete('/__mock/faults', (req, res) => {
+      this.clearFaults();
+      res.status(204).end();
+    });
+    this.app.post('/__mock/reset', (req, res) => {
+      this.reset(req.body?.books ? req.body : undefined);
+      res.status(204).end();
+    });
+  }
+
+  private record(req: express.Request, res: express.Response, next: express.NextFunction) {
+    this.requests.push({
+      method: req.method,
+      path: req.path,
+      query: { ...req.query },
+      body: req.body && Object.keys(req.body).length > 0 ? req.body : undefined,
+      token: this.tokenOf(req),
+      requestId: req.get('X-Request-ID')
+    });
+    next();
+  }
+
+  private async applyFaults(req: express.Request, res: express.Response, next: express.NextFunction) {
+    const fault = this.faults.find(candidate =>
+      req.path.startsWith(candidate.path) && (!candidate.method || candidate.method.toUpperCase() === req.method));
+    if (!fault) {
+      return next();
+    }
+    if (fault.times !== undefined && --fault.times <= 0) {
+      this.faults.splice(this.faults.indexOf(fault), 1);
+    }
+    if (fault.delayMs) {
+      await new Promise(resolve => setTimeout(resolve, fault.delayMs));
+    }
+    if (fault.networkError) {
+      req.socket.destroy();
+      return;
+    }
+    if (fault.status === undefined) {
+      return next();
+    }
+    res.status(fault.status).set(fault.headers ?? {}).json(fault.body ?? { detail: `Injected fault (HTTP ${fault.status})` });
+  }
+
+  private tokenOf(req: express.Request): string | undefined {
+    return req.get('X-Access-Token') || req.get('Authorization')?.replace(/^Token\s+/i, '') || undefined;
+  }
+
+  private authenticate(req: express.Request, res: express.Response, next: express.NextFunction) {
+    const token = this.tokenOf(req);
+    const accepted = token && (!this.options.tokens || this.options.tokens.includes(token));
+    if (!accepted) {
+      return res.status(401).json({ detail: "Invalid token." });
+    }
+    next();
+  }
+
+  private liveHighlights(): MockHighlight[] {
+    return this.library.highlights.filter(highlight => !highlight.is_deleted);
+  }
+
+  private book(id: unknown): MockBook | undefined {
+    return this.library.books.find(book => book.id === Number(id));
+  }
+
+  private highlight(id: unknown): MockHighlight | undefined {
+    return this.liveHighlights().find(highlight => highlight.id === Number(id));
+  }
+
+  private bookJson(book: MockBook) {
+    const highlights = this.liveHighlights().filter(highlight => highlight.book_id === book.id);
+    const last = highlights.map(highlight => highlight.highlighted_at ?? '').sort().pop() || null;
+    return {
+      id: book.id,
+      title: book.title,
+      author: book.author,
+      category: book.category,
+      source: book.source,
+      num_highlights: highlights.length,
+      last_highlight_at: last,
+      updated: book.updated,
+      cover_image_url: null,
+      highlights_url: `https://readwise.io/bookreview/${book.id}`,
+      source_url: book.source_url ?? null,
+      asin: null,
+      tags: book.tags ?? [],
+      document_note: ""
+    };
+  }
+
+  private highlightJson(highlight: MockHighlight) {
+    const { is_deleted, ...rest } = highlight;
+    return { ...rest, url: highlight.url ?? null, color: "yellow" };
+  }
+
+  private searchResultJson(highlight: MockHighlight, score: number) {
+    const book = this.book(highlight.book_id);
+    return {
+      id: highlight.id,
+      score,
+      highlight_plaintext: highlight.text,
+      highlight_note: highlight.note,
+      highlight_tags: highlight.tags.map(tag => tag.name),
+      highlight_location: highlight.location,
+      highlight_url: highlight.url ?? null,
+      highlighted_at: highlight.highlighted_at,
+      document_title: book?.title ?? null,
+      document_author: book?.author ?? null,
+      document_url: book?.source_url ?? null,
+      book_id: highlight.book_id
+    };
+  }
+
+  // Scores by how many words of the vector search term a highlight contains,
+  // then keeps only highlights matching every full-text query
+  private search(payload: any) {
+    const words = String(payload?.vector_search_term ?? '').toLowerCase().split(/\W+/).filter(Boolean);
+    const queries: Array<{ field_name: string; search_term: string }> = payload?.full_text_queries ?? [];
+
+    return this.liveHighlights().map(highlight => {
+      const book = this.book(highlight.book_id);
+      const fields: Record<string, string> = {
+        document_author: book?.author ?? '',
+        document_title: book?.title ?? '',
+        highlight_note: highlight.note,
+        highlight_plaintext: highlight.text,
+        highlight_tags: highlight.tags.map(tag => tag.name).join(' ')
+      };
+      const haystack = Object.values(fields).join(' ').toLowerCase();
+      const score = words.filter(word => haystack.includes(word)).length;
+      const matchesQueries = queries.every(query =>
+        (fields[query.field_name] ?? '').toLowerCase().includes(query.search_term.toLowerCase()));
+      return { highlight, score, matchesQueries };
+    })
+      .filter(({ score, matchesQueries }) => matchesQueries && (score > 0 || words.length === 0))
+      .sort((a, b) => b.score - a.score || a.highlight.id - b.highlight.id)
+      .map(({ highlight, score }) => this.searchResultJson(highlight, score / Math.max(words.length, 1)));
+  }
+
+  private exportBooks(req: express.Request) {
+    const updatedAfter = req.query.updatedAfter ? String(req.query.updatedAfter) : undefined;
+    const ids = req.query.ids ? String(req.query.ids).split(',').map(Number) : undefined;
+    const includeDeleted = req.query.includeDeleted === 'true';
+
+    return this.library.books
+      .filter(book => !ids || ids.includes(book.id))
+      .map(book => ({
+        user_book_id: book.id,
+        title: book.title,
+        readable_title: book.title,
+        author: book.author,
+        category: book.category,
+        source: book.source,
+        source_url: book.source_url ?? null,
+        readwise_url: `https://readwise.io/bookreview/${book.id}`,
+        book_tags: book.tags ?? [],
+        highlights: this.library.highlights
+          .filter(highlight => highlight.book_id === book.id)
+          .filter(highlight => includeDeleted || !highlight.is_deleted)
+          .filter(highlight => !updatedAfter || highlight.updated > updatedAfter)
+          .map(highlight => ({
+            id: highlight.id,
+            text: highlight.text,
+            note: highlight.note,
+            location: highlight.location,
+            location_type: highlight.location_type ?? null,
+            highlighted_at: highlight.highlighted_at,
+            updated_at: highlight.updated,
+            url: highlight.url ?? null,
+            readwise_url: `https://readwise.io/open/${highlight.id}`,
+            tags: highlight.tags,
+            is_deleted: !!highlight.is_deleted
+          }))
+      }))
+      .filter(book => !updatedAfter || book.highlights.length > 0);
+  }
+
+  private setupReadwiseRoutes() {
+    const app = this.app;
+
+    app.get('/api/v2/auth/', (req, res) => {
+      res.status(204).end();
+    });
+
+    app.post('/api/mcp/initialize', (req, res) => {
+      res.json({ status: "ok" });
+    });
+
+    app.post('/api/mcp/highlights', (req, res) => {
+      res.json({ results: this.search(req.body) });
+    });
+
+    app.get('/api/v2/books/', (req, res) => {
+      const { category, source, updated__gt } = req.query;
+      const books = this.library.books
+        .filter(book => !category || book.category === category)
+        .filter(book => !source || book.source === source)
+        .filter(book => !updated__gt || book.updated > String(updated__gt))
+        .map(book => this.bookJson(book));
+      res.json(pageOf(req, books, 100));
+    });
+
+    app.get('/api/v2/books/:id/', (req, res) => {
+      const book = this.book(req.params.id);
+      return book ? res.json(this.bookJson(book)) : notFound(res);
+    });
+
+    app.get('/api/v2/highlights/', (req, res) => {
+      const highlights = this.liveHighlights()
+        .filter(highlight => !req.query.book_id || highlight.book_id === Number(req.query.book_id))
+        .map(highlight => this.highlightJson(highlight));
+      res.json(pageOf(req, highlights, 100));
+    });
+
+    // Highlights with the same title and author go into one book
+    app.post('/api/v2/highlights/', (req, res) => {
+      const input: any[] = req.body?.highlights;
+      if (!Array.isArray(input) || input.some(item => typeof item?.text !== 'string')) {
+        return res.status(400).json({ highlights: ["Each highlight needs a text"] });
+      }
+      const now = new Date().toISOString();
+      const touched = new Map<number, number[]>();
+      for (const item of input) {
+        const title = item.title ?? "Quotes";
+        let book = this.library.books.find(candidate => candidate.title === title && candidate.author === (item.author ?? null));
+        if (!book) {
+          book = {
+            id: nextId(this.library.books),
+            title,
+            author: item.author ?? null,
+            category: item.category ?? 'books',
+            source: item.source_type ?? 'api',
+            source_url: item.source_url ?? null,
+            updated: now
+          };
+          this.library.books.push(book);
+        }
+        const highlight: MockHighlight = {
+          id: nextId(this.library.highlights),
+          book_id: book.id,
+          text: item.text,
+          note: item.note ?? '',
+          location: item.location ?? null,
+          location_type: item.location_type,
+          highlighted_at: item.highlighted_at ?? now,
+          updated: now,
+          url: item.highlight_url ?? null,
+          tags: []
+        };
+        this.library.highlights.push(highlight);
+        book.updated = now;
+        touched.set(book.id, [...(touched.get(book.id) ?? []), highlight.id]);
+      }
+      res.json([...touched].map(([bookId, ids]) => ({ ...this.bookJson(this.book(bookId)!), modified_highlights: ids })));
+    });
+
+    app.get('/api/v2/highlights/:id/', (req, res) => {
+      const highlight = this.highlight(req.params.id);
+      return highlight ? res.json(this.highlightJson(highlight)) : notFound(res);
+    });
+
+    app.patch('/api/v2/highlights/:id/', (req, res) => {
+      const highlight = this.highlight(req.params.id);
+      if (!highlight) {
+        return notFound(res);
+      }
+      for (const field of ['text', 'note', 'location', 'url'] as const) {
+        if (req.body?.[field] !== undefined) {
+          (highlight as any)[field] = req.body[field];
+        }
+      }
+      highlight.updated = new Date().toISOString();
+      res.json(this.highlightJson(highlight));
+    });
+
+    app.get('/api/v2/highlights/:id/tags/', (req, res) => {
+      const highlight = this.highlight(req.params.id);
+      return highlight ? res.json(pageOf(req, highlight.tags, 100)) : notFound(res);
+    });
+
+    app.post('/api/v2/highlights/:id/tags/', (req, res) => {
+      const highlight = this.highlight(req.params.id);
+      if (!highlight) {
+        return notFound(res);
+      }
+      if (typeof req.body?.name !== 'string' || !req.body.name) {
+        return res.status(400).json({ name: ["This field is required."] });
+      }
+      const allTags = this.library.highlights.flatMap(candidate => candidate.tags);
+      const tag = { id: nextId(allTags), name: req.body.name };
+      highlight.tags.push(tag);
+      highlight.updated = new Date().toISOString();
+      res.status(201).json(tag);
+    });
+
+    app.delete('/api/v2/highlights/:id/tags/:tagId/', (req, res) => {
+      const highlight = this.highlight(req.params.id);
+      const index = highlight?.tags.findIndex(tag => tag.id === Number(req.params.tagId)) ?? -1;
+      if (!highlight || index < 0) {
+        return notFound(res);
+      }
+      highlight.tags.splice(index, 1);
+      highlight.updated = new Date().toISOString();
+      res.status(204).end();
+    });
+
+    // The first five highlights stand in for the day's review
+    app.get('/api/v2/review/', (req, res) => {
+      const highlights = this.library.highlights
+        .filter(highlight => !highlight.is_deleted)
+        .slice(0, 5)
+        .map(highlight => {
+          const book = this.library.books.find(candidate => candidate.id === highlight.book_id);
+          return {
+            id: highlight.id,
+            text: highlight.text,
+            title: book?.title ?? null,
+            author: book?.author ?? null,
+            url: highlight.url ?? null,
+            source_url: book?.source_url ?? null,
+            source_type: book?.source ?? null,
+            category: book?.category ?? null,
+            location_type: highlight.location_type ?? null,
+            location: highlight.location,
+            note: highlight.note,
+            highlighted_at: highlight.highlighted_at,
+            highlight_url: `https://readwise.io/open/${highlight.id}`,
+            image_url: null,
+            api_source: null
+          };
+        });
+      res.json({
+        review_id: 1,
+        review_url: "https://readwise.io/reviews/1",
+        review_completed: false,
+        highlights
+      });
+    });
+
+    app.get('/api/v2/export/', (req, res) => {
+      res.json(cursorPageOf(req, this.exportBooks(req), this.options.exportPageSize ?? 1000));
+    });
+
+    app.get('/api/v3/list/', (req, res) => {
+      const { location, category, updatedAfter } = req.query;
+      const documents = this.library.documents
+        .filter(document => !location || document.location === location)
+        .filter(document => !category || document.category === category)
+        .filter(document => !updatedAfter || document.updated_at > String(updatedAfter));
+      res.json(cursorPageOf(req, documents, this.options.listPageSize ?? 100));
+    });
+
+    // 201 for a new document, 200 when the URL was already saved
+    app.post('/api/v3/save/', (req, res) => {
+      if (typeof req.body?.url !== 'string') {
+        return res.status(400).json({ url: ["This field is required."] });
+      }
+      const existing = this.library.documents.find(document => document.source_url === req.body.url);
+      if (existing) {
+        return res.status(200).json({ id: existing.id, url: existing.url });
+      }
+      const now = new Date().toISOString();
+      const id = `01hdoc${String(this.library.documents.length + 1).padStart(19, '0')}`;
+      const document: MockDocument = {
+        id,
+        url: `https://read.readwise.io/read/${id}`,
+        source_url: req.body.url,
+        title: req.body.title ?? req.body.url,
+        author: req.body.author ?? null,
+        category: req.body.category ?? 'article',
+        location: req.body.location ?? 'new',
+        summary: req.body.summary ?? null,
+        notes: req.body.notes,
+        tags: Object.fromEntries((req.body.tags ?? []).map((name: string) => [name, { name }])),
+        created_at: now,
+        updated_at: now
+      };
+      this.library.documents.push(document);
+      res.status(201).json({ id: document.id, url: document.url });
+    });
+
+    app.patch('/api/v3/update/:id/', (req, res) => {
+      const document = this.library.documents.find(candidate => candidate.id === req.params.id);
+      if (!document) {
+        return notFound(res);
+      }
+      for (const field of ['title', 'author', 'summary', 'location', 'category'] as const) {
+        if (req.body?.[field] !== undefined) {
+          document[field] = req.body[field];
+        }
+      }
+      document.updated_at = new Date().toISOString();
+      res.json(document);
+    });
+  }
+}
+
+// Standalone: `npm run mock -- --port 4999 [--fixtures library.json]`
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const { values } = parseArgs({
+    options: {
+      port: { type: 'string', default: '4999' },
+      host: { type: 'string', default: '127.0.0.1' },
+      fixtures: { type: 'string' },
+      token: { type: 'string', multiple: true },
+      'export-page-size': { type: 'string' }
+    }
+  });
+  const mock = new MockReadwiseServer({
+    fixtures: values.fixtures ? loadFixtures(values.fixtures) : undefined,
+    tokens: values.token,
+    exportPageSize: values['export-page-size'] ? parseInt(values['export-page-size']) : undefined
+  });
+  mock.listen(parseInt(values.port!), values.host).then(url => {
+    console.log(`Mock Readwise API listening on ${url}`);
+    console.log(`Point the server at it with BASE_URL=${url}`);
+  });
+}
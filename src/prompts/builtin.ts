@@ -0,0 +1,85 @@
+import { z } from "zod";
+import { promptDefinitionSchema } from './registry.js';
+
+type PromptInput = z.input<typeof promptDefinitionSchema>;
+
+export const synthesizeHighlightsPrompt: PromptInput = {
+  name: "synthesize_highlights",
+  description: "Synthesise what my highlights say about a topic",
+  arguments: [
+    { name: "topic", description: "Topic to synthesise", required: true }
+  ],
+  embed: [
+    {
+      as: "highlights",
+      tool: "search_readwise_highlights",
+      arguments: {
+        vector_search_term: "{{topic}}",
+        full_text_queries: []
+      }
+    }
+  ],
+  template: [
+    "Synthesise what my Readwise highlights say about {{topic}}.",
+    "Group related ideas, point out where sources agree or disagree, and cite each claim with its source title and author.",
+    "",
+    "<highlights>",
+    "{{highlights}}",
+    "</highlights>"
+  ].join("\n")
+};
+
+export const weeklyReviewPrompt: PromptInput = {
+  name: "weekly_review",
+  description: "Review the highlights I added since a date",
+  arguments: [
+    { name: "since", description: "ISO 8601 date or timestamp, e.g. 2024-06-01", required: true }
+  ],
+  embed: [
+    {
+      as: "highlights",
+      tool: "export_highlights",
+      arguments: {
+        updated_after: "{{since}}"
+      }
+    }
+  ],
+  template: [
+    "Here are the highlights I saved since {{since}}, grouped by book.",
+    "Write a short weekly review: the main themes, the three most interesting ideas, and one question worth following up on.",
+    "",
+    "<highlights>",
+    "{{highlights}}",
+    "</highlights>"
+  ].join("\n")
+};
+
+export const essayOutlinePrompt: PromptInput = {
+  name: "essay_outline",
+  description: "Draft an essay outline from my highlights of a book",
+  arguments: [
+    { name: "title", description: "Title of the book", required: true },
+    { name: "angle", description: "Optional thesis or angle for the essay" }
+  ],
+  embed: [
+    {
+      as: "highlights",
+      tool: "search_readwise_highlights",
+      arguments: {
+        vector_search_term: "{{title}}",
+        full_text_queries: [
+          { field_name: "document_title", search_term: "{{title}}" }
+        ]
+      }
+    }
+  ],
+  template: [
+    "Draft an essay outline based on my highlights from \"{{title}}\".",
+    "Angle, if any: {{angle}}",
+    "Use a thesis, three to five sections with supporting highlights quoted under each, and a conclusion.",
+    "",
+    "<highlights>",
+    "{{highlights}}",
+    "</highlights>"
+  ].join("\n")
+};
@@ -0,0 +1,20 @@
+import { DebugLogger } from '../debug-logger.js';
+import { essayOutlinePrompt, synthesizeHighlightsPrompt, weeklyReviewPrompt } from './builtin.js';
+import { PromptRegistry } from './registry.js';
+
+export { PromptArgumentsError, PromptRegistry, promptDefinitionSchema } from './registry.js';
+export type { PromptDefinition } from './registry.js';
+
+// Built-in prompts, plus any JSON prompt files in `directory`. A file can
+// replace a built-in prompt by reusing its name.
+export function createPromptRegistry(logger: DebugLogger, directory?: string): PromptRegistry {
+  const registry = new PromptRegistry(logger);
+  registry.register(synthesizeHighlightsPrompt);
+  registry.register(weeklyReviewPrompt);
+  registry.register(essayOutlinePrompt);
+
+  if (directory) {
+    registry.loadDirectory(directory);
+  }
+  return registry;
+}
@@ -0,0 +1,159 @@
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { z } from "zod";
+import { DebugLogger } from '../debug-logger.js';
+import { ToolContext, ToolRegistry } from '../tools/index.js';
+
+// Prompts are declarative so the same format works for the built-in prompts
+// and for JSON files dropped into PROMPTS_DIR. `embed` runs registered tools
+// and exposes their text output to the template under the `as` name.
+export const promptDefinitionSchema = z.object({
+  name: z.string().regex(/^[A-Za-z0-9_-]+$/),
+  description: z.string(),
+  arguments: z.array(
+    z.object({
+      name: z.string(),
+      description: z.string().optional(),
+      required: z.boolean().default(false),
+    })
+  ).default([]),
+  embed: z.array(
+    z.object({
+      as: z.string(),
+      tool: z.string(),
+      arguments: z.record(z.any()).default({}),
+    })
+  ).default([]),
+  template: z.string(),
+});
+
+export type PromptDefinition = z.infer<typeof promptDefinitionSchema>;
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g;
+
+// Replaces {{name}} placeholders throughout a value. A string that is only a
+// placeholder for a missing variable becomes undefined, so optional prompt
+// arguments drop out of embedded tool arguments instead of becoming "".
+// Prompt arguments are always strings; `{{name:number}}` converts one for
+// tools that take numeric arguments.
+function interpolate(value: unknown, variables: Record<string, string | undefined>): unknown {
+  if (typeof value === 'string') {
+    const whole = value.match(/^\{\{\s*([A-Za-z0-9_]+)(:number)?\s*\}\}$/);
+    if (whole) {
+      const variable = variables[whole[1]];
+      return whole[2] && variable !== undefined ? Number(variable) : variable;
+    }
+    return value.replace(PLACEHOLDER, (_, name) => variables[name] ?? '');
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => interpolate(item, variables));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .map(([key, item]) => [key, interpolate(item, variables)])
+        .filter(([, item]) => item !== undefined)
+    );
+  }
+  return value;
+}
+
+export class PromptArgumentsError extends Error {}
+
+export class PromptRegistry {
+  private prompts = new Map<string, PromptDefinition>();
+
+  constructor(private logger: DebugLogger) {}
+
+  register(prompt: z.input<typeof promptDefinitionSchema>) {
+    const definition = promptDefinitionSchema.parse(prompt);
+    if (this.prompts.has(definition.name)) {
+      this.logger.info('Overriding prompt', { name: definition.name });
+    }
+    this.prompts.set(definition.name, definition);
+  }
+
+  // Loads every *.json file in the directory. Invalid files are skipped with
+  // a warning so one bad prompt doesn't stop the server from starting.
+  loadDirectory(directory: string) {
+    let files: string[];
+    try {
+      files = readdirSync(directory).filter(file => file.endsWith('.json')).sort();
+    } catch (error) {
+      this.logger.warn('Cannot read prompts directory', { directory, error: (error as Error).message });
+      return;
+    }
+
+    for (const file of files) {
+      try {
+        const contents = JSON.parse(readFileSync(path.join(directory, file), 'utf8'));
+        this.register(contents);
+        this.logger.info('Loaded prompt', { file, name: contents.name });
+      } catch (error) {
+        this.logger.warn('Skipping invalid prompt file', { file, error: (error as Error).message });
+      }
+    }
+  }
+
+  get(name: string): PromptDefinition | undefined {
+    return this.prompts.get(name);
+  }
+
+  // Prompt descriptors in the shape prompts/list returns
+  describe() {
+    return [...this.prompts.values()].map(prompt => ({
+      name: prompt.name,
+      description: prompt.description,
+      arguments: prompt.arguments
+    }));
+  }
+
+  async render(
+    prompt: PromptDefinition,
+    args: Record<string, string>,
+    tools: ToolRegistry,
+    context: ToolContext
+  ) {
+    const missing = prompt.arguments.filter(argument => argument.required && !args[argument.name]);
+    if (missing.length > 0) {
+      throw new PromptArgumentsError(`Missing required arguments: ${missing.map(argument => argument.name).join(', ')}`);
+    }
+
+    const variables: Record<string, string | undefined> = { ...args };
+    for (const embed of prompt.embed) {
+      const tool = tools.get(embed.tool);
+      if (!tool) {
+        throw new Error(`Prompt ${prompt.name} embeds unavailable tool ${embed.tool}`);
+      }
+
+      const toolArgs = tool.inputSchema.safeParse(interpolate(embed.arguments, args));
+      if (!toolArgs.success) {
+        throw new PromptArgumentsError(
+          `Invalid arguments: ${toolArgs.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`
+        );
+      }
+
+      context.logger.log('Embedding tool output in prompt', { prompt: prompt.name, tool: embed.tool });
+      const result = await tool.handler(toolArgs.data, context);
+      if (result.isError) {
+        throw new Error(`Tool ${embed.tool} failed while rendering prompt ${prompt.name}`);
+      }
+      variables[embed.as] = result.content
+        .map(item => item.type === 'text' ? item.text : '')
+        .join('\n');
+    }
+
+    return {
+      description: prompt.description,
+      messages: [
+        {
+          role: "user",
+          content: {
+            type: "text",
+            text: interpolate(prompt.template, variables) as string
+          }
+        }
+      ]
+    };
+  }
+}
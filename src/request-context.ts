@@ -0,0 +1,37 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import express from 'express';
+
+// Correlation ID for the HTTP request being handled. It is available to
+// everything the request triggers, including log lines and upstream calls,
+// without being passed around explicitly.
+
+export const REQUEST_ID_HEADER = 'X-Request-ID';
+
+interface RequestContext {
+  requestId: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export function currentRequestId(): string | undefined {
+  return storage.getStore()?.requestId;
+}
+
+// Runs `fn` under a fresh request ID, for messages that don't arrive over
+// HTTP, such as those of the stdio transport
+export function withRequestId<T>(fn: () => T): T {
+  return storage.run({ requestId: randomUUID() }, fn);
+}
+
+// Accepts the caller's X-Request-ID when it looks sane, so IDs can be followed
+// across services, and generates one otherwise. Mounted after body parsing:
+// the parsers resume in the socket's async context and would lose the store.
+export function requestIdMiddleware(): express.RequestHandler {
+  return (req, res, next) => {
+    const incoming = req.get(REQUEST_ID_HEADER);
+    const requestId = incoming && /^[\w.:-]{1,128}$/.test(incoming) ? incoming : randomUUID();
+    res.setHeader(REQUEST_ID_HEADER, requestId);
+    storage.run({ requestId }, next);
+  };
+}
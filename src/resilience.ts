@@ -0,0 +1,343 @@
+import { AxiosError, AxiosInstance, CanceledError, InternalAxiosRequestConfig } from "axios";
+import axiosRetry, { isNetworkError, retryAfter } from 'axios-retry';
+import { DebugLogger } from './debug-logger.js';
+
+// Protection for calls to Readwise: retries for transient failures only,
+// client-side rate limiting matched to Readwise's published limits, and a
+// circuit breaker that stops calling while Readwise is failing.
+
+export interface RetryPolicy {
+  maxRetries: number;
+  // First backoff step; doubles with every retry
+  baseDelayMs: number;
+  // Longest wait between attempts. A Retry-After beyond it fails immediately.
+  maxDelayMs: number;
+}
+
+export interface CircuitBreakerOptions {
+  // Consecutive transient failures that open the circuit
+  failureThreshold: number;
+  // How long the circuit stays open before a trial request is let through
+  cooldownMs: number;
+}
+
+// Readwise is refusing calls or cannot currently be called. Requests that
+// fail this way never reached Readwise.
+export class UpstreamUnavailableError extends Error {
+  constructor(message: string, readonly reason: 'circuit_open' | 'rate_limited', readonly retryAfterMs: number) {
+    super(message);
+  }
+}
+
+export class CircuitOpenError extends UpstreamUnavailableError {
+  constructor(retryAfterMs: number) {
+    super('Readwise is temporarily unavailable; not calling it until it recovers', 'circuit_open', retryAfterMs);
+  }
+}
+
+export class OutboundRateLimitError extends UpstreamUnavailableError {
+  constructor(endpoint: string, retryAfterMs: number) {
+    super(`Readwise rate limit for ${endpoint} reached`, 'rate_limited', retryAfterMs);
+  }
+}
+
+const TRANSIENT_STATUSES = [408, 429, 500, 502, 503, 504];
+
+// POST endpoints that only read, so they are as safe to repeat as a GET
+const READ_ONLY_POSTS = ['/api/mcp/highlights', '/api/mcp/initialize'];
+
+function isTimeout(error: AxiosError): boolean {
+  return error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT';
+}
+
+// Failures that say something about Readwise's health rather than about the
+// request: connection errors, timeouts and 5xx responses
+export function isTransientFailure(error: unknown): boolean {
+  if (!(error instanceof AxiosError) || error.code === AxiosError.ERR_CANCELED) {
+    return false;
+  }
+  const status = error.response?.status;
+  return status === undefined ? isNetworkError(error) || isTimeout(error) : status >= 500 || status === 408;
+}
+
+function isRepeatable(config: InternalAxiosRequestConfig | undefined): boolean {
+  const method = (config?.method ?? 'get').toLowerCase();
+  return ['get', 'head', 'options', 'put', 'delete'].includes(method)
+    || (method === 'post' && READ_ONLY_POSTS.includes(config?.url ?? ''));
+}
+
+// A 429 means Readwise rejected the request unprocessed, so any method may be
+// retried. Other transient errors are only retried for requests that are
+// safe to repeat, so a write is never applied twice. Cancelled requests are
+// never retried.
+export function shouldRetry(error: AxiosError, policy: RetryPolicy): boolean {
+  if (error.code === AxiosError.ERR_CANCELED) {
+    return false;
+  }
+  const status = error.response?.status;
+  if (status === 429) {
+    return retryAfter(error) <= policy.maxDelayMs;
+  }
+  if (status !== undefined && !TRANSIENT_STATUSES.includes(status)) {
+    return false;
+  }
+  if (status === undefined && !isNetworkError(error) && !isTimeout(error)) {
+    return false;
+  }
+  return isRepeatable(error.config) || error.code === 'ECONNREFUSED';
+}
+
+// Exponential backoff with equal jitter, never shorter than Retry-After
+export function retryDelay(retryCount: number, error: AxiosError, policy: RetryPolicy): number {
+  const backoff = Math.min(policy.baseDelayMs * 2 ** (retryCount - 1), policy.maxDelayMs);
+  const jittered = backoff / 2 + Math.random() * (backoff / 2);
+  return Math.max(jittered, retryAfter(error));
+}
+
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+  private pausedUntil = 0;
+
+  constructor(private capacity: number, private refillPerMs: number) {
+    this.tokens = capacity;
+  }
+
+  // Reserves a token and returns how long to wait before using it. Tokens are
+  // reserved in arrival order, so waiting callers are served first come,
+  // first served.
+  reserve(): number {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.refillPerMs);
+    this.updatedAt = now;
+    this.tokens -= 1;
+    const refillWait = this.tokens >= 0 ? 0 : -this.tokens / this.refillPerMs;
+    return Math.max(refillWait, this.pausedUntil - now);
+  }
+
+  // Gives back a reservation that won't be used
+  release() {
+    this.tokens = Math.min(this.capacity, this.tokens + 1);
+  }
+
+  // Readwise said to back off (429 with Retry-After)
+  pause(ms: number) {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+}
+
+interface RateLimitRule {
+  name: string;
+  method?: string;
+  pattern: RegExp;
+  perMinute: number;
+}
+
+// Readwise's documented per-token limits, first match wins: 240 requests a
+// minute in general, 20 for the v2 list and export endpoints and the Reader
+// API, 50 for Reader saves and updates.
+const RATE_LIMIT_RULES: RateLimitRule[] = [
+  { name: 'highlights list', method: 'get', pattern: /^\/api\/v2\/highlights\/$/, perMinute: 20 },
+  { name: 'books list', method: 'get', pattern: /^\/api\/v2\/books\/$/, perMinute: 20 },
+  { name: 'export', method: 'get', pattern: /^\/api\/v2\/export\//, perMinute: 20 },
+  { name: 'reader save', method: 'post', pattern: /^\/api\/v3\/save\//, perMinute: 50 },
+  { name: 'reader update', method: 'patch', pattern: /^\/api\/v3\/update\//, perMinute: 50 },
+  { name: 'reader', pattern: /^\/api\/v3\//, perMinute: 20 },
+  { name: 'default', pattern: /^/, perMinute: 240 }
+];
+
+// One set of buckets per Readwise token, since that is what Readwise limits
+export class OutboundRateLimiter {
+  private buckets = new Map<string, TokenBucket>();
+
+  constructor(private maxWaitMs: number, private logger: DebugLogger) {}
+
+  async acquire(config: InternalAxiosRequestConfig) {
+    const rule = this.ruleFor(config);
+    const bucket = this.bucketFor(rule);
+    const wait = bucket.reserve();
+    if (wait > this.maxWaitMs) {
+      bucket.release();
+      throw new OutboundRateLimitError(rule.name, wait);
+    }
+    if (wait > 0) {
+      this.logger.log('Waiting for outbound rate limit', { endpoint: rule.name, waitMs: Math.round(wait) });
+      await this.delay(wait, config);
+    }
+  }
+
+  // A cancelled request stops waiting and hands its reservation back
+  private delay(ms: number, config: InternalAxiosRequestConfig): Promise<void> {
+    const signal = config.signal as AbortSignal | undefined;
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        this.bucketFor(this.ruleFor(config)).release();
+        reject(new CanceledError(undefined, undefined, config));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      if (signal?.aborted) {
+        onAbort();
+      } else {
+        signal?.addEventListener('abort', onAbort, { once: true });
+      }
+    });
+  }
+
+  pause(config: InternalAxiosRequestConfig | undefined, ms: number) {
+    if (config) {
+      this.bucketFor(this.ruleFor(config)).pause(ms);
+    }
+  }
+
+  private ruleFor(config: InternalAxiosRequestConfig): RateLimitRule {
+    const method = (config.method ?? 'get').toLowerCase();
+    const path = (config.url ?? '').split('?')[0];
+    return RATE_LIMIT_RULES.find(rule => (!rule.method || rule.method === method) && rule.pattern.test(path))!;
+  }
+
+  private bucketFor(rule: RateLimitRule): TokenBucket {
+    let bucket = this.buckets.get(rule.name);
+    if (!bucket) {
+      bucket = new TokenBucket(rule.perMinute, rule.perMinute / 60000);
+      this.buckets.set(rule.name, bucket);
+    }
+    return bucket;
+  }
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+// Shared by every upstream client: an outage of readwise.io affects all
+// tenants alike, and only transient failures (never 4xx) count against it.
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(private options: CircuitBreakerOptions, private logger: DebugLogger) {}
+
+  // Throws CircuitOpenError instead of letting a request through while open.
+  // After the cooldown a single trial request decides whether to close again.
+  check() {
+    if (this.state === 'closed') {
+      return;
+    }
+    const remaining = this.openedAt + this.options.cooldownMs - Date.now();
+    if (this.state === 'open' && remaining <= 0) {
+      this.state = 'half_open';
+      this.logger.info('Circuit breaker half-open, sending a trial request');
+    }
+    if (this.state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return;
+    }
+    throw new CircuitOpenError(Math.max(remaining, 1000));
+  }
+
+  recordSuccess() {
+    if (this.state !== 'closed') {
+      this.logger.info('Circuit breaker closed, Readwise has recovered');
+    }
+    this.state = 'closed';
+    this.failures = 0;
+    this.trialInFlight = false;
+  }
+
+  recordFailure() {
+    this.failures++;
+    this.trialInFlight = false;
+    if (this.state === 'half_open' || (this.state === 'closed' && this.failures >= this.options.failureThreshold)) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+      this.logger.warn('Circuit breaker opened', { failures: this.failures, cooldownMs: this.options.cooldownMs });
+    }
+  }
+
+  // A trial request was cancelled before it told us anything
+  releaseTrial() {
+    this.trialInFlight = false;
+  }
+
+  status() {
+    return {
+      state: this.state,
+      consecutiveFailures: this.failures,
+      ...(this.state !== 'closed' && { openedAt: new Date(this.openedAt).toISOString() })
+    };
+  }
+}
+
+export interface ResilienceOptions {
+  retry: RetryPolicy;
+  breaker: CircuitBreaker;
+  // Longest a request may queue for the outbound rate limit; 0 disables
+  // client-side rate limiting
+  rateLimitMaxWaitMs: number;
+}
+
+// Wires retries, rate limiting and the circuit breaker into a client. Every
+// retry passes through the rate limiter and the breaker again.
+export function applyResilience(client: AxiosInstance, options: ResilienceOptions, logger: DebugLogger) {
+  const limiter = options.rateLimitMaxWaitMs > 0
+    ? new OutboundRateLimiter(options.rateLimitMaxWaitMs, logger)
+    : undefined;
+
+  // Request interceptors run last-registered first. The limiter goes first so
+  // the breaker is consulted right before the request is sent, and a
+  // half-open trial can't get stuck waiting for a token.
+  client.interceptors.request.use(config => {
+    options.breaker.check();
+    return config;
+  });
+  if (limiter) {
+    client.interceptors.request.use(async config => {
+      await limiter.acquire(config);
+      return config;
+    });
+  }
+
+  // Registered before axios-retry so every attempt is recorded
+  client.interceptors.response.use(
+    response => {
+      options.breaker.recordSuccess();
+      return response;
+    },
+    error => {
+      if (error instanceof AxiosError && error.code === AxiosError.ERR_CANCELED) {
+        options.breaker.releaseTrial();
+      } else if (error instanceof AxiosError) {
+        if (isTransientFailure(error)) {
+          options.breaker.recordFailure();
+        } else {
+          options.breaker.recordSuccess();
+        }
+        if (error.response?.status === 429) {
+          limiter?.pause(error.config, retryAfter(error));
+        }
+      }
+      return Promise.reject(error);
+    }
+  );
+
+  axiosRetry(client, {
+    retries: options.retry.maxRetries,
+    // Each attempt gets the full timeout, so a Retry-After wait can't use it up
+    shouldResetTimeout: true,
+    retryCondition: error => shouldRetry(error, options.retry),
+    retryDelay: (retryCount, error) => retryDelay(retryCount, error, options.retry),
+    onRetry: (retryCount, error, config) => {
+      logger.warn('Retrying Readwise request', {
+        attempt: retryCount,
+        method: config.method,
+        url: config.url,
+        status: error.response?.status,
+        code: error.code
+      });
+    }
+  });
+}
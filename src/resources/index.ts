@@ -0,0 +1,14 @@
+import { bookResource, highlightResource, tagResource } from './readwise-resources.js';
+import { ResourceRegistry } from './registry.js';
+
+export { ResourceRegistry, defineResourceTemplate } from './registry.js';
+export type { ResourceContents, ResourceContext, ResourceTemplateDefinition } from './registry.js';
+export { ResourceSubscriptions } from './subscriptions.js';
+
+export function createResourceRegistry(): ResourceRegistry {
+  const registry = new ResourceRegistry();
+  registry.register(bookResource);
+  registry.register(highlightResource);
+  registry.register(tagResource);
+  return registry;
+}
@@ -0,0 +1,93 @@
+// Markdown renderings of Readwise books and highlights for resources/read
+
+function metadataLines(fields: Array<[string, unknown]>): string[] {
+  return fields
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([label, value]) => `- **${label}:** ${value}`);
+}
+
+function quote(text: string): string {
+  return text.split('\n').map(line => `> ${line}`).join('\n');
+}
+
+function tagNames(tags: Array<{ name: string } | string> | undefined): string[] {
+  return (tags ?? []).map(tag => typeof tag === 'string' ? tag : tag.name);
+}
+
+export function renderHighlight(highlight: any): string {
+  const parts = [quote(highlight.text ?? '')];
+  if (highlight.note) {
+    parts.push(`**Note:** ${highlight.note}`);
+  }
+
+  const tags = tagNames(highlight.tags);
+  const details = metadataLines([
+    ['Highlight', `readwise://highlight/${highlight.id}`],
+    ['Location', highlight.location],
+    ['Highlighted', highlight.highlighted_at],
+    ['Tags', tags.length > 0 ? tags.map(tag => `#${tag}`).join(' ') : undefined],
+    ['URL', highlight.url]
+  ]);
+  if (details.length > 0) {
+    parts.push(details.join('\n'));
+  }
+  return parts.join('\n\n');
+}
+
+export function renderBook(book: any, highlights: any[]): string {
+  const lines = [
+    `# ${book.title}`,
+    '',
+    ...metadataLines([
+      ['Author', book.author],
+      ['Category', book.category],
+      ['Source', book.source],
+      ['URL', book.source_url],
+      ['Highlights', book.num_highlights],
+      ['Last highlight', book.last_highlight_at]
+    ]),
+    '',
+    '## Highlights',
+    ''
+  ];
+
+  if (highlights.length === 0) {
+    lines.push('_No highlights yet._');
+  }
+  return lines.join('\n') + '\n' + highlights.map(renderHighlight).join('\n\n---\n\n') + '\n';
+}
+
+export function renderSingleHighlight(highlight: any, book?: any): string {
+  const heading = book ? `# Highlight from ${book.title}` : '# Highlight';
+  const source = book
+    ? '\n\n' + metadataLines([['Book', `${book.title} (readwise://book/${book.id})`], ['Author', book.author]]).join('\n')
+    : '';
+  return `${heading}${source}\n\n${renderHighlight(highlight)}\n`;
+}
+
+// Results from the MCP highlight search endpoint use document_*/highlight_*
+// field names rather than the v2 shapes
+export function renderTagHighlights(tag: string, results: any[]): string {
+  const lines = [`# Highlights tagged #${tag}`, ''];
+  if (results.length === 0) {
+    lines.push('_No highlights with this tag._');
+    return lines.join('\n') + '\n';
+  }
+
+  const entries = results.map(result => {
+    const parts = [quote(result.highlight_plaintext ?? result.text ?? '')];
+    if (result.highlight_note) {
+      parts.push(`**Note:** ${result.highlight_note}`);
+    }
+    const details = metadataLines([
+      ['Source', result.document_title],
+      ['Author', result.document_author],
+      ['URL', result.document_url ?? result.url]
+    ]);
+    if (details.length > 0) {
+      parts.push(details.join('\n'));
+    }
+    return parts.join('\n\n');
+  });
+  return lines.join('\n') + '\n' + entries.join('\n\n---\n\n') + '\n';
+}
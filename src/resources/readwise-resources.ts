@@ -0,0 +1,59 @@
+import { fetchAllPages } from '../tools/pagination.js';
+import { searchHighlights } from '../tools/search-highlights.js';
+import { renderBook, renderSingleHighlight, renderTagHighlights } from './markdown.js';
+import { defineResourceTemplate } from './registry.js';
+
+export const bookResource = defineResourceTemplate({
+  uriTemplate: "readwise://book/{id}",
+  name: "Readwise book",
+  description: "A book or article with all of its highlights, as Markdown",
+  mimeType: "text/markdown",
+  read: async ({ id }, uri, { axios, logger }) => {
+    logger.log('Reading book resource', { bookId: id });
+    const bookResponse = await axios.get(`/api/v2/books/${encodeURIComponent(id)}/`);
+    const { results } = await fetchAllPages(
+      axios,
+      logger,
+      "/api/v2/highlights/",
+      { book_id: id, page_size: 1000 },
+      10
+    );
+    return { uri, mimeType: "text/markdown", text: renderBook(bookResponse.data, results) };
+  }
+});
+
+export const highlightResource = defineResourceTemplate({
+  uriTemplate: "readwise://highlight/{id}",
+  name: "Readwise highlight",
+  description: "A single highlight with its note, tags and source, as Markdown",
+  mimeType: "text/markdown",
+  read: async ({ id }, uri, { axios, logger }) => {
+    logger.log('Reading highlight resource', { highlightId: id });
+    const highlightResponse = await axios.get(`/api/v2/highlights/${encodeURIComponent(id)}/`);
+    const highlight = highlightResponse.data;
+    const bookResponse = highlight.book_id
+      ? await axios.get(`/api/v2/books/${highlight.book_id}/`)
+      : undefined;
+    return { uri, mimeType: "text/markdown", text: renderSingleHighlight(highlight, bookResponse?.data) };
+  }
+});
+
+export const tagResource = defineResourceTemplate({
+  uriTemplate: "readwise://tag/{name}",
+  name: "Readwise tag",
+  description: "Highlights carrying a tag, as Markdown",
+  mimeType: "text/markdown",
+  read: async ({ name }, uri, context) => {
+    // The v2 API can't filter highlights by tag, so use the tag field of the
+    // highlight search endpoint
+    context.logger.log('Reading tag resource', { tag: name });
+    const results = await searchHighlights(
+      {
+        vector_search_term: name,
+        full_text_queries: [{ field_name: "highlight_tags", search_term: name }]
+      },
+      context
+    );
+    return { uri, mimeType: "text/markdown", text: renderTagHighlights(name, results) };
+  }
+});
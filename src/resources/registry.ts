@@ -0,0 +1,88 @@
+import { ToolContext } from '../tools/index.js';
+
+// Resource handlers get the same upstream client and logger as tools
+export type ResourceContext = ToolContext;
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+export interface ResourceTemplateDefinition {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+  read: (params: Record<string, string>, uri: string, context: ResourceContext) => Promise<ResourceContents>;
+}
+
+export function defineResourceTemplate(template: ResourceTemplateDefinition): ResourceTemplateDefinition {
+  return template;
+}
+
+// Turns `readwise://book/{id}` into a regex with one capture group per
+// variable. Variables match a single path segment.
+function compileTemplate(uriTemplate: string): { pattern: RegExp; variables: string[] } {
+  const variables: string[] = [];
+  const source = uriTemplate
+    .split(/(\{[^}]+\})/)
+    .map(part => {
+      const variable = part.match(/^\{([^}]+)\}$/);
+      if (variable) {
+        variables.push(variable[1]);
+        return '([^/]+)';
+      }
+      return part.replace(/[.*+?^$()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return { pattern: new RegExp(`^${source}$`), variables };
+}
+
+export class ResourceRegistry {
+  private templates: Array<ResourceTemplateDefinition & { pattern: RegExp; variables: string[] }> = [];
+
+  register(template: ResourceTemplateDefinition) {
+    this.templates.push({ ...template, ...compileTemplate(template.uriTemplate) });
+  }
+
+  // Resource templates in the shape resources/templates/list returns
+  describeTemplates() {
+    return this.templates.map(({ uriTemplate, name, description, mimeType }) => ({
+      uriTemplate,
+      name,
+      description,
+      mimeType
+    }));
+  }
+
+  match(uri: string): { template: ResourceTemplateDefinition; params: Record<string, string> } | undefined {
+    for (const template of this.templates) {
+      const match = uri.match(template.pattern);
+      if (!match) {
+        continue;
+      }
+      try {
+        const params = Object.fromEntries(
+          template.variables.map((variable, index) => [variable, decodeURIComponent(match[index + 1])])
+        );
+        return { template, params };
+      } catch (error) {
+        // A malformed escape like %E0 doesn't name a resource
+        if (!(error instanceof URIError)) {
+          throw error;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  // Returns undefined when no template matches the URI
+  async read(uri: string, context: ResourceContext): Promise<ResourceContents | undefined> {
+    const matched = this.match(uri);
+    if (!matched) {
+      return undefined;
+    }
+    return matched.template.read(matched.params, uri, context);
+  }
+}
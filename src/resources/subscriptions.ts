@@ -0,0 +1,176 @@
+import { DebugLogger } from '../debug-logger.js';
+import { SessionManager } from '../streamable-http.js';
+import { ResourceContext } from './registry.js';
+
+const BOOK_URI = /^readwise:\/\/book\/(\d+)$/;
+
+interface BookSubscription {
+  uri: string;
+  bookId: string;
+  // Client of the tenant that owns the book
+  context: ResourceContext;
+  sessionIds: Set<string>;
+  // num_highlights/last_highlight_at as of the last poll; unset until a
+  // baseline has been taken
+  fingerprint?: string;
+}
+
+// Tracks resources/subscribe requests and polls subscribed books, sending
+// notifications/resources/updated to each subscribed session when a book's
+// highlights change. Subscriptions are keyed per tenant, since the same book
+// ID means different books in different accounts.
+export class ResourceSubscriptions {
+  private subscriptions = new Map<string, BookSubscription>();
+  private poller?: NodeJS.Timeout;
+
+  constructor(
+    private sessions: SessionManager,
+    private logger: DebugLogger,
+    private pollIntervalMs: number
+  ) {
+    sessions.onClose(sessionId => this.unsubscribeSession(sessionId));
+  }
+
+  static supports(uri: string): boolean {
+    return BOOK_URI.test(uri);
+  }
+
+  async subscribe(uri: string, sessionId: string, context: ResourceContext) {
+    const key = `${context.tenantId} ${uri}`;
+    const existing = this.subscriptions.get(key);
+    const subscription = existing ?? { uri, bookId: uri.match(BOOK_URI)![1], context, sessionIds: new Set() };
+    // Registered before the baseline is awaited, so concurrent subscribes to
+    // the same book share one subscription
+    subscription.sessionIds.add(sessionId);
+    this.subscriptions.set(key, subscription);
+    this.logger.log('Resource subscription added', { uri, sessionId });
+    this.ensurePolling();
+
+    if (!existing) {
+      // Take a baseline so the first poll only reports real changes; without
+      // one the next successful poll takes it
+      try {
+        subscription.fingerprint = await this.fingerprint(subscription);
+      } catch (error) {
+        this.logger.warn('Failed to take a baseline for subscribed resource', { uri, error: (error as Error).message });
+      }
+    }
+  }
+
+  unsubscribe(uri: string, sessionId: string, context: ResourceContext) {
+    const key = `${context.tenantId} ${uri}`;
+    const subscription = this.subscriptions.get(key);
+    subscription?.sessionIds.delete(sessionId);
+    if (subscription && subscription.sessionIds.size === 0) {
+      this.subscriptions.delete(key);
+    }
+    this.logger.log('Resource subscription removed', { uri, sessionId });
+  }
+
+  // Drops every subscription of a session that ended or expired, so its
+  // books stop being polled
+  unsubscribeSession(sessionId: string) {
+    let removed = 0;
+    for (const [key, subscription] of this.subscriptions) {
+      if (subscription.sessionIds.delete(sessionId)) {
+        removed++;
+        if (subscription.sessionIds.size === 0) {
+          this.subscriptions.delete(key);
+        }
+      }
+    }
+    if (removed > 0) {
+      this.logger.log('Resource subscriptions of closed session removed', { sessionId, removed });
+    }
+  }
+
+  get size(): number {
+    return this.subscriptions.size;
+  }
+
+  // A change reported from outside, like a webhook: notifies subscribers
+  // right away and re-takes the fingerprint, so the next poll doesn't report
+  // the same change again. Returns the notifications sent.
+  changed(uri: string, tenantId: string): number {
+    const key = `${tenantId} ${uri}`;
+    const subscription = this.subscriptions.get(key);
+    if (!subscription) {
+      return 0;
+    }
+    this.logger.info('Subscribed resource changed', { uri, tenantId });
+    const sent = this.notify(key, subscription);
+    this.fingerprint(subscription).then(
+      fingerprint => subscription.fingerprint = fingerprint,
+      error => this.logger.warn('Failed to refresh subscribed resource', { uri, error: (error as Error).message })
+    );
+    return sent;
+  }
+
+  stop() {
+    clearInterval(this.poller);
+    this.poller = undefined;
+  }
+
+  private ensurePolling() {
+    if (this.poller) {
+      return;
+    }
+    this.poller = setInterval(() => this.poll(), this.pollIntervalMs);
+    this.poller.unref();
+  }
+
+  private async fingerprint(subscription: BookSubscription): Promise<string> {
+    const response = await subscription.context.axios.get(`/api/v2/books/${subscription.bookId}/`);
+    return `${response.data.num_highlights}:${response.data.last_highlight_at}`;
+  }
+
+  private async poll() {
+    if (this.subscriptions.size === 0) {
+      clearInterval(this.poller);
+      this.poller = undefined;
+      return;
+    }
+
+    for (const [key, subscription] of this.subscriptions) {
+      const { uri } = subscription;
+      try {
+        const fingerprint = await this.fingerprint(subscription);
+        if (fingerprint === subscription.fingerprint) {
+          continue;
+        }
+        const baseline = subscription.fingerprint === undefined;
+        subscription.fingerprint = fingerprint;
+        if (baseline) {
+          continue;
+        }
+        this.logger.info('Subscribed resource changed', { uri, tenantId: subscription.context.tenantId });
+        this.notify(key, subscription);
+      } catch (error) {
+        this.logger.warn('Failed to poll subscribed resource', { uri, error: (error as Error).message });
+      }
+    }
+  }
+
+  private notify(key: string, subscription: BookSubscription): number {
+    let sent = 0;
+    for (const sessionId of subscription.sessionIds) {
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        // Session ended or expired since it subscribed
+        subscription.sessionIds.delete(sessionId);
+        continue;
+      }
+      if (session.sendNotification({
+        jsonrpc: "2.0",
+        method: "notifications/resources/updated",
+        params: { uri: subscription.uri }
+      })) {
+        sent++;
+      }
+    }
+    if (subscription.sessionIds.size === 0) {
+      this.subscriptions.delete(key);
+    }
+    return sent;
+  }
+}
@@ -0,0 +1,155 @@
+import { readFileSync } from 'fs';
+import { rename, writeFile } from 'fs/promises';
+import { z } from "zod";
+import { DebugLogger } from './debug-logger.js';
+
+// Which highlights the resurfacing tools have shown, per tenant, so
+// random_highlights can favour the ones that haven't come up lately. Kept in
+// memory and, with a file configured, saved as JSON so it survives restarts.
+// Only highlight IDs and times are stored, never highlight text.
+
+export interface HistoryOptions {
+  file?: string;
+  // Highlights remembered per tenant; the least recently shown are forgotten
+  maxEntries: number;
+  // How long a shown highlight stays less likely to come back
+  cooldownMs: number;
+}
+
+export interface ShownEntry {
+  shownAt: number;
+  times: number;
+}
+
+// tenant -> highlight ID -> [shown at (epoch ms), times shown]
+const historyFileSchema = z.object({
+  version: z.literal(1),
+  tenants: z.record(z.record(
+    z.string().regex(/^\d+$/),
+    z.tuple([z.number().int().nonnegative(), z.number().int().positive()])
+  ))
+});
+
+type HistoryFile = z.infer<typeof historyFileSchema>;
+
+export class ResurfacingHistory {
+  // Per tenant, in the order highlights were last shown, oldest first
+  private tenants = new Map<string, Map<number, ShownEntry>>();
+  private saving?: Promise<void>;
+  private dirty = false;
+
+  constructor(private options: HistoryOptions, private logger: DebugLogger) {
+    if (options.file) {
+      this.load(options.file);
+    }
+  }
+
+  lastShown(tenantId: string, highlightId: number): ShownEntry | undefined {
+    return this.tenants.get(tenantId)?.get(highlightId);
+  }
+
+  // Sampling weight: 1 for a highlight never shown or shown longer than the
+  // cooldown ago, rising from 0 right after it was shown
+  weight(tenantId: string, highlightId: number, now = Date.now()): number {
+    const entry = this.lastShown(tenantId, highlightId);
+    if (!entry || this.options.cooldownMs <= 0) {
+      return 1;
+    }
+    return Math.min(1, Math.max(0, now - entry.shownAt) / this.options.cooldownMs);
+  }
+
+  record(tenantId: string, highlightIds: number[], now = Date.now()) {
+    if (highlightIds.length === 0) {
+      return;
+    }
+    let shown = this.tenants.get(tenantId);
+    if (!shown) {
+      shown = new Map();
+      this.tenants.set(tenantId, shown);
+    }
+    for (const id of highlightIds) {
+      const times = (shown.get(id)?.times ?? 0) + 1;
+      // Re-insert so iteration order stays oldest first
+      shown.delete(id);
+      shown.set(id, { shownAt: now, times });
+    }
+    while (shown.size > this.options.maxEntries) {
+      shown.delete(shown.keys().next().value!);
+    }
+    this.scheduleSave();
+  }
+
+  stats() {
+    return {
+      tenants: this.tenants.size,
+      entries: [...this.tenants.values()].reduce((total, shown) => total + shown.size, 0),
+      file: this.options.file ?? null
+    };
+  }
+
+  // Resolves once pending changes are on disk
+  async flush() {
+    while (this.saving) {
+      await this.saving;
+    }
+  }
+
+  private load(file: string) {
+    let parsed: HistoryFile;
+    try {
+      parsed = historyFileSchema.parse(JSON.parse(readFileSync(file, 'utf8')));
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        const message = error instanceof z.ZodError
+          ? error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ')
+          : error.message;
+        this.logger.warn('Ignoring unreadable resurfacing history', { file, error: message });
+      }
+      return;
+    }
+    for (const [tenantId, entries] of Object.entries(parsed.tenants)) {
+      const shown = new Map<number, ShownEntry>(
+        Object.entries(entries)
+          .map(([id, [shownAt, times]]) => [Number(id), { shownAt, times }] as [number, ShownEntry])
+          .sort(([, a], [, b]) => a.shownAt - b.shownAt)
+      );
+      this.tenants.set(tenantId, shown);
+    }
+    this.logger.info('Resurfacing history loaded', this.stats());
+  }
+
+  // Writes are coalesced: changes made while a save runs go out in the next
+  // one. The file is replaced atomically so a crash never leaves it half
+  // written.
+  private scheduleSave() {
+    const file = this.options.file;
+    if (!file) {
+      return;
+    }
+    this.dirty = true;
+    if (this.saving) {
+      return;
+    }
+    this.saving = (async () => {
+      while (this.dirty) {
+        this.dirty = false;
+        try {
+          await writeFile(`${file}.tmp`, JSON.stringify(this.serialize()));
+          await rename(`${file}.tmp`, file);
+        } catch (error) {
+          this.logger.warn('Failed to save resurfacing history', { file, error: (error as Error).message });
+        }
+      }
+    })().finally(() => {
+      this.saving = undefined;
+    });
+  }
+
+  private serialize(): HistoryFile {
+    const tenants: HistoryFile['tenants'] = {};
+    for (const [tenantId, shown] of this.tenants) {
+      tenants[tenantId] = Object.fromEntries([...shown].map(([id, entry]) => [id, [entry.shownAt, entry.times]]));
+    }
+    return { version: 1, tenants };
+  }
+}
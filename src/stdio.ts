@@ -0,0 +1,103 @@
+import { createInterface } from 'readline';
+import { Readable, Writable } from 'stream';
+import { DebugLogger } from './debug-logger.js';
+import { JsonRpcMessage, McpResponse } from './mcp-types.js';
+import { ServerConnection } from './mcp-http-server.js';
+import { MessageStream } from './streamable-http.js';
+
+// The MCP stdio transport, for desktop clients that launch the server as a
+// child process: one JSON-RPC message (or batch) per line on stdin, and
+// responses and notifications as lines on stdout. Logs must go to stderr, or
+// they would corrupt the message stream.
+export class StdioTransport implements MessageStream {
+  private closed = false;
+  private closeListeners: (() => void)[] = [];
+
+  constructor(
+    private input: Readable,
+    private output: Writable,
+    private logger: DebugLogger
+  ) {
+    output.on('error', error => {
+      this.logger.warn('stdout closed', { message: error.message });
+      this.end();
+    });
+  }
+
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  send(message: JsonRpcMessage | McpResponse[]) {
+    if (!this.closed) {
+      this.output.write(JSON.stringify(message) + '\n');
+    }
+  }
+
+  onClose(listener: () => void) {
+    this.closeListeners.push(listener);
+  }
+
+  end() {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.closeListeners.forEach(listener => listener());
+  }
+
+  // Handles messages until stdin ends, then waits for the calls still
+  // running. Messages are handled concurrently, so a notifications/cancelled
+  // can reach a call that is still in progress.
+  async serve(connection: ServerConnection): Promise<void> {
+    const pending = new Set<Promise<void>>();
+    const lines = createInterface({ input: this.input, crlfDelay: Infinity });
+
+    for await (const line of lines) {
+      if (!line.trim()) {
+        continue;
+      }
+      const handled = this.handleLine(line, connection);
+      pending.add(handled);
+      handled.finally(() => pending.delete(handled));
+    }
+
+    this.logger.info('stdin closed, shutting down');
+    await Promise.all(pending);
+    connection.close();
+    this.end();
+  }
+
+  private async handleLine(line: string, connection: ServerConnection) {
+    let message: any;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      this.logger.warn('Malformed JSON on stdin');
+      this.send({ jsonrpc: "2.0", id: null, error: { code: -32700, message: "Parse error" } });
+      return;
+    }
+
+    try {
+      if (!Array.isArray(message)) {
+        const response = await connection.receive(message);
+        if (response) {
+          this.send(response);
+        }
+        return;
+      }
+      if (message.length === 0) {
+        this.send({ jsonrpc: "2.0", id: null, error: { code: -32600, message: "Invalid Request: empty batch" } });
+        return;
+      }
+      const responses = (await Promise.all(message.map(item => connection.receive(item))))
+        .filter((response): response is McpResponse => response !== undefined);
+      if (responses.length > 0) {
+        this.send(responses);
+      }
+    } catch (error) {
+      this.logger.error('stdio message failed', error);
+      this.send({ jsonrpc: "2.0", id: message?.id ?? null, error: { code: -32603, message: "Internal error" } });
+    }
+  }
+}
@@ -0,0 +1,306 @@
+import { randomUUID } from 'crypto';
+import express from 'express';
+import { DebugLogger } from './debug-logger.js';
+import { JsonRpcMessage, McpNotification } from './mcp-types.js';
+import { ToolCall } from './tool-calls.js';
+import { ToolContext } from './tools/index.js';
+
+// Building blocks for the MCP Streamable HTTP transport: sessions, SSE streams
+// and the per-session event history used to resume dropped streams.
+
+interface StoredEvent {
+  id: string;
+  seq: number;
+  message: JsonRpcMessage;
+}
+
+// Keeps the most recent events of the most recently used streams so a client
+// can reconnect with `Last-Event-ID` and pick up where it left off. Every POST
+// answered as SSE is a stream of its own, so older streams are evicted rather
+// than kept for the life of the session. Event IDs are
+// `<streamId>_<sequence>`, so the stream can be recovered from the ID alone;
+// the sequence is shared by all streams, so an evicted stream that sends
+// again never reuses an ID.
+export class EventStore {
+  private streams = new Map<string, StoredEvent[]>();
+  private counter = 0;
+
+  constructor(private maxEventsPerStream = 100, private maxStreams = 20) {}
+
+  store(streamId: string, message: JsonRpcMessage): string {
+    const seq = ++this.counter;
+    const id = `${streamId}_${seq}`;
+    const events = this.streams.get(streamId) ?? [];
+    events.push({ id, seq, message });
+    if (events.length > this.maxEventsPerStream) {
+      events.shift();
+    }
+    // Re-insert so iteration order stays least recently used first
+    this.streams.delete(streamId);
+    this.streams.set(streamId, events);
+    while (this.streams.size > this.maxStreams) {
+      this.streams.delete(this.streams.keys().next().value!);
+    }
+    return id;
+  }
+
+  replayAfter(lastEventId: string): { streamId: string; events: StoredEvent[] } | undefined {
+    const separator = lastEventId.lastIndexOf('_');
+    if (separator <= 0) {
+      return undefined;
+    }
+
+    const streamId = lastEventId.slice(0, separator);
+    const seq = Number(lastEventId.slice(separator + 1));
+    const events = this.streams.get(streamId);
+    if (!events || !Number.isInteger(seq)) {
+      return undefined;
+    }
+
+    return { streamId, events: events.filter(event => event.seq > seq) };
+  }
+
+  get size(): number {
+    return this.streams.size;
+  }
+
+  clear() {
+    this.streams.clear();
+  }
+}
+
+// Where a session's server-initiated messages go: the GET stream over HTTP,
+// stdout over stdio
+export interface MessageStream {
+  readonly isClosed: boolean;
+  send(message: JsonRpcMessage): unknown;
+  onClose(listener: () => void): void;
+  end(): void;
+}
+
+// A single `text/event-stream` response. Every message is recorded in the
+// event store (when there is one) before it is written, so it can be replayed
+// even if the socket has already gone away.
+export class SseStream implements MessageStream {
+  private closed = false;
+  private heartbeat?: NodeJS.Timeout;
+
+  constructor(
+    private res: express.Response,
+    readonly streamId: string,
+    private eventStore?: EventStore
+  ) {}
+
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  open(heartbeatMs = 0) {
+    this.res.status(200);
+    this.res.setHeader('Content-Type', 'text/event-stream');
+    this.res.setHeader('Cache-Control', 'no-cache, no-transform');
+    this.res.setHeader('Connection', 'keep-alive');
+    this.res.flushHeaders();
+
+    this.res.on('close', () => this.markClosed());
+
+    if (heartbeatMs > 0) {
+      // Comment lines keep idle proxies from dropping the connection
+      this.heartbeat = setInterval(() => {
+        if (!this.closed) {
+          this.res.write(': keep-alive\n\n');
+        }
+      }, heartbeatMs);
+      this.heartbeat.unref();
+    }
+  }
+
+  send(message: JsonRpcMessage): string | undefined {
+    const id = this.eventStore?.store(this.streamId, message);
+    this.writeEvent(message, id);
+    return id;
+  }
+
+  writeEvent(message: JsonRpcMessage, id?: string) {
+    if (this.closed) {
+      return;
+    }
+    const idLine = id ? `id: ${id}\n` : '';
+    this.res.write(`${idLine}event: message\ndata: ${JSON.stringify(message)}\n\n`);
+  }
+
+  onClose(listener: () => void) {
+    this.res.on('close', listener);
+  }
+
+  end() {
+    if (!this.closed) {
+      this.res.end();
+    }
+    this.markClosed();
+  }
+
+  private markClosed() {
+    this.closed = true;
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = undefined;
+    }
+  }
+}
+
+export class McpSession {
+  readonly id = randomUUID();
+  readonly createdAt = new Date();
+  readonly eventStore = new EventStore();
+  // The GET stream keeps one ID across reconnects so its event numbering
+  // stays monotonic and `Last-Event-ID` values remain valid.
+  readonly standaloneStreamId = randomUUID();
+  lastActivity = Date.now();
+  // Readwise client chosen at initialize, used when later requests don't
+  // name a tenant themselves
+  tenantContext?: ToolContext;
+  private standaloneStream?: MessageStream;
+  // Tool calls still running, so notifications/cancelled can reach them
+  private calls = new Map<string | number, ToolCall>();
+
+  constructor(
+    readonly protocolVersion: string,
+    readonly clientInfo?: { name?: string; version?: string },
+    // The authenticated principal that created the session, if auth is on
+    readonly principalId?: string
+  ) {}
+
+  touch() {
+    this.lastActivity = Date.now();
+  }
+
+  get hasStandaloneStream(): boolean {
+    return !!this.standaloneStream && !this.standaloneStream.isClosed;
+  }
+
+  attachStandaloneStream(stream: MessageStream) {
+    this.standaloneStream = stream;
+    stream.onClose(() => {
+      if (this.standaloneStream === stream) {
+        this.standaloneStream = undefined;
+      }
+    });
+  }
+
+  // Server-initiated messages go out on the GET stream. Without one the
+  // message is dropped, as the transport spec allows.
+  sendNotification(notification: McpNotification): boolean {
+    if (!this.hasStandaloneStream) {
+      return false;
+    }
+    this.standaloneStream!.send(notification);
+    return true;
+  }
+
+  // Returns a function to call once the tool call has finished
+  trackCall(call: ToolCall): () => void {
+    this.calls.set(call.requestId, call);
+    return () => {
+      if (this.calls.get(call.requestId) === call) {
+        this.calls.delete(call.requestId);
+      }
+    };
+  }
+
+  // False when no call with that request ID is running
+  cancelCall(requestId: string | number, reason?: string): boolean {
+    const call = this.calls.get(requestId);
+    call?.cancel(reason);
+    return !!call;
+  }
+
+  close() {
+    this.calls.forEach(call => call.cancel('session closed'));
+    this.calls.clear();
+    this.standaloneStream?.end();
+    this.standaloneStream = undefined;
+    this.eventStore.clear();
+  }
+}
+
+export class SessionManager {
+  private sessions = new Map<string, McpSession>();
+  private sweeper: NodeJS.Timeout;
+  private closeListeners: Array<(sessionId: string) => void> = [];
+
+  constructor(private logger: DebugLogger, private idleTimeoutMs: number) {
+    this.sweeper = setInterval(() => this.sweep(), Math.min(idleTimeoutMs, 60000));
+    this.sweeper.unref();
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  create(
+    protocolVersion: string,
+    clientInfo?: { name?: string; version?: string },
+    principalId?: string
+  ): McpSession {
+    const session = new McpSession(protocolVersion, clientInfo, principalId);
+    this.sessions.set(session.id, session);
+    this.logger.info('MCP session created', { sessionId: session.id, protocolVersion, clientInfo, principalId });
+    return session;
+  }
+
+  // Doesn't count as activity; callers handling a client request touch() the
+  // session themselves
+  get(id: string): McpSession | undefined {
+    return this.sessions.get(id);
+  }
+
+  delete(id: string): boolean {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return false;
+    }
+    session.close();
+    this.sessions.delete(id);
+    this.logger.info('MCP session terminated', { sessionId: id });
+    this.closeListeners.forEach(listener => listener(id));
+    return true;
+  }
+
+  // Called with the ID of every session that ends: deleted by the client,
+  // expired, or closed at shutdown
+  onClose(listener: (sessionId: string) => void) {
+    this.closeListeners.push(listener);
+  }
+
+  // Sends a notification to every session that passes `filter`; returns how
+  // many had a stream to receive it
+  broadcast(notification: McpNotification, filter: (session: McpSession) => boolean = () => true): number {
+    let sent = 0;
+    for (const session of this.sessions.values()) {
+      if (filter(session) && session.sendNotification(notification)) {
+        sent++;
+      }
+    }
+    return sent;
+  }
+
+  // Server shutdown: ends every session and its open streams
+  closeAll() {
+    clearInterval(this.sweeper);
+    for (const id of [...this.sessions.keys()]) {
+      this.delete(id);
+    }
+  }
+
+  private sweep() {
+    const cutoff = Date.now() - this.idleTimeoutMs;
+    for (const session of this.sessions.values()) {
+      // An open GET stream counts as activity
+      if (session.lastActivity < cutoff && !session.hasStandaloneStream) {
+        this.logger.log('Expiring idle MCP session', { sessionId: session.id });
+        this.delete(session.id);
+      }
+    }
+  }
+}
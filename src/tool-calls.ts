@@ -0,0 +1,90 @@
+import { McpNotification, McpResponse } from './mcp-types.js';
+
+// Per-call plumbing for tools/call: an AbortSignal that notifications/cancelled
+// (or a client that went away) triggers, and notifications/progress for calls
+// whose request carries a progressToken.
+
+// How the requests of one POST body reach back to their client before the
+// response is sent
+export interface CallChannel {
+  // Delivers a notification about a request; absent when there is no open
+  // stream to send it on
+  notify?: (notification: McpNotification) => void;
+  // Aborted when responses can no longer be delivered
+  signal?: AbortSignal;
+}
+
+// Marks the response of a cancelled request. The MCP spec asks for no
+// response at all, so these are dropped before anything is sent.
+export const REQUEST_CANCELLED = -32800;
+
+export function cancelledResponse(id: string | number): McpResponse {
+  return { jsonrpc: "2.0", id, error: { code: REQUEST_CANCELLED, message: "Request cancelled" } };
+}
+
+export function isCancelledResponse(response: McpResponse): boolean {
+  return response.error?.code === REQUEST_CANCELLED;
+}
+
+// `total` is omitted while it isn't known
+export type ProgressReporter = (progress: number, total?: number, message?: string) => void;
+
+export class ToolCall {
+  private controller = new AbortController();
+  private lastProgress?: number;
+
+  constructor(
+    readonly requestId: string | number,
+    private progressToken: string | number | undefined,
+    private channel: CallChannel = {}
+  ) {
+    const parent = channel.signal;
+    if (parent?.aborted) {
+      this.cancel(String(parent.reason));
+    } else {
+      parent?.addEventListener('abort', () => this.cancel(String(parent.reason)), { once: true });
+    }
+  }
+
+  // The progress token a request asked for, from `params._meta.progressToken`
+  static progressTokenOf(params: any): string | number | undefined {
+    const token = params?._meta?.progressToken;
+    return typeof token === 'string' || typeof token === 'number' ? token : undefined;
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  get cancelled(): boolean {
+    return this.controller.signal.aborted;
+  }
+
+  cancel(reason = 'cancelled') {
+    if (!this.cancelled) {
+      this.controller.abort(reason);
+    }
+  }
+
+  // Progress must grow with every notification, so stale or repeated values
+  // are dropped, as is everything after cancellation
+  readonly reportProgress: ProgressReporter = (progress, total, message) => {
+    if (this.progressToken === undefined || !this.channel.notify || this.cancelled) {
+      return;
+    }
+    if (this.lastProgress !== undefined && progress <= this.lastProgress) {
+      return;
+    }
+    this.lastProgress = progress;
+    this.channel.notify({
+      jsonrpc: "2.0",
+      method: "notifications/progress",
+      params: {
+        progressToken: this.progressToken,
+        progress,
+        ...(total !== undefined && { total }),
+        ...(message && { message })
+      }
+    });
+  };
+}
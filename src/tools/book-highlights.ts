@@ -0,0 +1,41 @@
+import { z } from "zod";
+import { fromV2Highlight, highlightPageSchema, highlightSchema, pageHighlights, presentationShape, presentHighlights } from './formatting.js';
+import { fetchAllPages } from './pagination.js';
+import { defineTool } from './registry.js';
+
+export const getBookHighlightsTool = defineTool({
+  name: "get_book_highlights",
+  description: "Fetch every highlight from a single Readwise book or article, following pagination",
+  inputSchema: z.object({
+    book_id: z.number().int().describe("Readwise book ID, as returned by list_readwise_books"),
+    max_pages: z.number().int().min(1).max(50).default(10)
+      .describe("Upper bound on pages of 1000 highlights to fetch"),
+    ...presentationShape(100),
+  }),
+  outputSchema: highlightPageSchema(highlightSchema, {
+    book_id: z.number().int(),
+    complete: z.boolean().describe("False when max_pages stopped paging before the last highlight"),
+  }),
+  annotations: {
+    readOnlyHint: true
+  },
+  handler: async (args, { axios, logger, signal, reportProgress }) => {
+    // The book supplies the title and author for citations
+    const [bookResponse, { results, complete }] = await Promise.all([
+      axios.get(`/api/v2/books/${args.book_id}/`, { signal }),
+      fetchAllPages<any>(
+        axios,
+        logger,
+        "/api/v2/highlights/",
+        { book_id: args.book_id, page_size: 1000 },
+        args.max_pages,
+        { signal, reportProgress }
+      )
+    ]);
+    logger.log('Readwise book highlights received', { bookId: args.book_id, count: results.length, complete });
+
+    const highlights = results.map(highlight => fromV2Highlight(highlight, bookResponse.data));
+    const page = pageHighlights(highlights, args);
+    return presentHighlights(page, args.format, { book_id: args.book_id, complete });
+  }
+});
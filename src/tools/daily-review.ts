@@ -0,0 +1,35 @@
+import { z } from "zod";
+import { fromReviewHighlight, highlightPageSchema, highlightSchema, pageHighlights, presentationShape, presentHighlights } from './formatting.js';
+import { defineTool } from './registry.js';
+
+export const getDailyReviewTool = defineTool({
+  name: "get_daily_review",
+  description: "Get today's Readwise Daily Review: the highlights Readwise picked for spaced-repetition resurfacing, with a link to review them in Readwise",
+  inputSchema: z.object({
+    ...presentationShape(20),
+  }),
+  outputSchema: highlightPageSchema(highlightSchema, {
+    review_id: z.number().nullable(),
+    review_url: z.string().nullable().describe("Where to work through the review in Readwise"),
+    review_completed: z.boolean(),
+  }),
+  annotations: {
+    readOnlyHint: true
+  },
+  handler: async (args, { axios, logger, signal, history, tenantId }) => {
+    const response = await axios.get("/api/v2/review/", { signal });
+    logger.log('Readwise daily review received', {
+      reviewId: response.data.review_id,
+      count: response.data.highlights?.length ?? 0
+    });
+
+    const page = pageHighlights((response.data.highlights ?? []).map(fromReviewHighlight), args);
+    // Counts as shown, so random_highlights doesn't bring the same ones back
+    history.record(tenantId, page.results.flatMap(highlight => highlight.id ?? []));
+    return presentHighlights(page, args.format, {
+      review_id: response.data.review_id ?? null,
+      review_url: response.data.review_url ?? null,
+      review_completed: !!response.data.review_completed
+    });
+  }
+});
@@ -0,0 +1,69 @@
+import { z } from "zod";
+import { ExportRequestError, exportRequestSchema, ExportStream } from '../export/index.js';
+import { defineTool } from './registry.js';
+
+export const exportHighlightsAsTool = defineTool({
+  name: "export_highlights_as",
+  description: "Export the results of a highlight search, a book or a tag as a file: Obsidian Markdown with front-matter and block references, JSONL or CSV. Returns the file contents, cut short for large exports with a download link for the rest",
+  inputSchema: exportRequestSchema,
+  outputSchema: z.object({
+    format: z.string(),
+    mime_type: z.string(),
+    filename: z.string().describe("Suggested file name"),
+    highlights: z.number().int().describe("Highlights included in the returned text"),
+    truncated: z.boolean().describe("True when the export was longer than the server returns inline"),
+    download_url: z.string().describe("GET /export URL serving the complete export"),
+  }),
+  annotations: {
+    readOnlyHint: true
+  },
+  handler: async (args, context) => {
+    const { exporter, logger } = context;
+    let stream: ExportStream;
+    try {
+      stream = exporter.open(args, context);
+    } catch (error) {
+      if (error instanceof ExportRequestError) {
+        return { content: [{ type: "text", text: error.message }], isError: true };
+      }
+      throw error;
+    }
+
+    // Each chunk is one highlight, so the text stops at the last highlight
+    // that fits and never cuts one in half. Stopping also stops the paging
+    // behind the export.
+    const limit = exporter.options.inlineLimit;
+    let text = '';
+    let highlights = 0;
+    let truncated = false;
+    for await (const chunk of stream.chunks) {
+      if (text.length + chunk.text.length > limit) {
+        truncated = true;
+        break;
+      }
+      text += chunk.text;
+      highlights += chunk.highlights;
+    }
+    logger.log('Highlights exported', { format: stream.template.name, highlights, characters: text.length, truncated });
+
+    const download_url = exporter.downloadUrl(args);
+    const content: Array<{ type: "text"; text: string }> = [{ type: "text", text }];
+    if (truncated) {
+      content.push({
+        type: "text",
+        text: `Export cut short after ${highlights} highlights to stay under ${limit} characters. The complete export is at ${download_url}`
+      });
+    }
+    return {
+      content,
+      structuredContent: {
+        format: stream.template.name,
+        mime_type: stream.mimeType,
+        filename: stream.filename,
+        highlights,
+        truncated,
+        download_url
+      }
+    };
+  }
+});
@@ -0,0 +1,45 @@
+import { z } from "zod";
+import { fetchCursorPages } from './pagination.js';
+import { defineTool } from './registry.js';
+
+export const exportHighlightsTool = defineTool({
+  name: "export_highlights",
+  description: "Export highlights grouped by book via the Readwise v2 export API. Returns a cursor to continue from when more pages remain",
+  inputSchema: z.object({
+    updated_after: z.union([z.string().datetime({ offset: true }), z.string().date()]).optional()
+      .describe("ISO 8601 date or timestamp; only export highlights updated after it"),
+    book_ids: z.array(z.number().int()).optional().describe("Only export these books"),
+    include_deleted: z.boolean().default(false),
+    page_cursor: z.string().optional().describe("next_page_cursor from a previous call, to continue an export"),
+    max_pages: z.number().int().min(1).max(20).default(3)
+      .describe("Upper bound on export pages to fetch in this call"),
+  }),
+  annotations: {
+    readOnlyHint: true
+  },
+  handler: async (args, { axios, logger, signal, reportProgress }) => {
+    const params = {
+      updatedAfter: args.updated_after,
+      ids: args.book_ids?.join(','),
+      includeDeleted: args.include_deleted || undefined
+    };
+
+    const { results, nextPageCursor } = await fetchCursorPages(
+      axios,
+      logger,
+      "/api/v2/export/",
+      params,
+      args.max_pages,
+      args.page_cursor,
+      { signal, reportProgress }
+    );
+    logger.log('Readwise export received', { books: results.length, nextPageCursor });
+
+    const result = {
+      count: results.length,
+      next_page_cursor: nextPageCursor,
+      results
+    };
+    return { content: [{ type: "text", text: JSON.stringify(result) }] };
+  }
+});
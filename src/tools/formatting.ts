@@ -0,0 +1,231 @@
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { LocalHighlight } from '../mirror/index.js';
+
+// Shared result shape for the tools that return highlights: structured
+// content with a declared output schema, paged and optionally de-duplicated,
+// plus a text rendering in the format the caller asked for.
+
+export const highlightSchema = z.object({
+  id: z.number().nullable(),
+  text: z.string(),
+  note: z.string().nullable(),
+  tags: z.array(z.string()),
+  title: z.string().nullable().describe("Title of the source book or article"),
+  author: z.string().nullable(),
+  location: z.number().nullable(),
+  url: z.string().nullable(),
+  highlighted_at: z.string().nullable(),
+  book_id: z.number().nullable(),
+});
+
+export type Highlight = z.infer<typeof highlightSchema>;
+
+// Output schema for a page of highlights; `extra` adds tool-specific fields
+export function highlightPageSchema<Item extends z.ZodTypeAny, Extra extends z.ZodRawShape = {}>(
+  item: Item,
+  extra?: Extra
+) {
+  return z.object({
+    total: z.number().int().nullable().describe("Results available after de-duplication, or null when unknown"),
+    offset: z.number().int(),
+    count: z.number().int(),
+    next_offset: z.number().int().nullable().describe("Offset of the next page, or null on the last page"),
+    duplicates_removed: z.number().int(),
+    results: z.array(item),
+    ...(extra ?? {}) as Extra,
+  });
+}
+
+export const highlightListOutputSchema = highlightPageSchema(highlightSchema);
+
+export type OutputFormat = 'markdown' | 'json' | 'text';
+
+// Input fields every highlight tool accepts
+export function presentationShape(defaultLimit: number) {
+  return {
+    format: z.enum(["markdown", "json", "text"]).default("markdown")
+      .describe("Text rendering: compact Markdown with citations, JSON, or plain text. Structured content is always included"),
+    limit: z.number().int().min(1).max(1000).default(defaultLimit).describe("Maximum highlights to return"),
+    offset: z.number().int().min(0).default(0).describe("Highlights to skip, for paging"),
+    dedupe: z.boolean().default(true).describe("Drop highlights whose text repeats an earlier result"),
+  };
+}
+
+export interface HighlightPage<Item extends Highlight = Highlight> {
+  total: number | null;
+  offset: number;
+  count: number;
+  next_offset: number | null;
+  duplicates_removed: number;
+  results: Item[];
+}
+
+function dedupeKey(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+export function removeDuplicates<Item extends Highlight>(highlights: Item[]): { unique: Item[]; removed: number } {
+  const seen = new Set<string>();
+  const unique = highlights.filter(highlight => {
+    const key = dedupeKey(highlight.text);
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+  return { unique, removed: highlights.length - unique.length };
+}
+
+// Pages a complete result set
+export function pageHighlights<Item extends Highlight>(
+  highlights: Item[],
+  options: { limit: number; offset: number; dedupe: boolean }
+): HighlightPage<Item> {
+  const { unique, removed } = options.dedupe ? removeDuplicates(highlights) : { unique: highlights, removed: 0 };
+  const results = unique.slice(options.offset, options.offset + options.limit);
+  const end = options.offset + results.length;
+  return {
+    total: unique.length,
+    offset: options.offset,
+    count: results.length,
+    next_offset: end < unique.length ? end : null,
+    duplicates_removed: removed,
+    results
+  };
+}
+
+function oneLine(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function citation(highlight: Highlight, markdown: boolean): string {
+  const parts = [
+    highlight.title && (markdown ? `*${highlight.title}*` : highlight.title),
+    highlight.author,
+    highlight.location !== null && `loc. ${highlight.location}`
+  ].filter(Boolean);
+  const source = parts.length > 0 ? parts.join(', ') : 'Unknown source';
+  return highlight.url ? `${source} ${markdown ? `<${highlight.url}>` : `(${highlight.url})`}` : source;
+}
+
+function renderEntry(highlight: Highlight, index: number, markdown: boolean): string {
+  const lines = [`${index}. "${oneLine(highlight.text)}"`, `   — ${citation(highlight, markdown)}`];
+  if (highlight.note) {
+    lines.push(`   Note: ${oneLine(highlight.note)}`);
+  }
+  if (highlight.tags.length > 0) {
+    lines.push(`   Tags: ${highlight.tags.map(tag => `#${tag}`).join(' ')}`);
+  }
+  return lines.join('\n');
+}
+
+function renderSummary(page: HighlightPage): string {
+  if (page.count === 0) {
+    return page.offset > 0 ? 'No more highlights.' : 'No highlights found.';
+  }
+  const range = `${page.offset + 1}–${page.offset + page.count}`;
+  const parts = [page.total !== null ? `Showing ${range} of ${page.total}` : `Showing ${range}`];
+  if (page.duplicates_removed > 0) {
+    parts.push(`${page.duplicates_removed} duplicate${page.duplicates_removed === 1 ? '' : 's'} removed`);
+  }
+  if (page.next_offset !== null) {
+    parts.push(`next offset ${page.next_offset}`);
+  }
+  return `${parts.join('; ')}.`;
+}
+
+export function renderHighlights(page: HighlightPage, format: Exclude<OutputFormat, 'json'>): string {
+  const markdown = format === 'markdown';
+  const entries = page.results.map((highlight, index) => renderEntry(highlight, page.offset + index + 1, markdown));
+  return [...entries, renderSummary(page)].join('\n\n');
+}
+
+// Builds the tool result: `structuredContent` matching the output schema and
+// a text content block in the requested format
+export function presentHighlights(
+  page: HighlightPage<any>,
+  format: OutputFormat,
+  extra: Record<string, unknown> = {}
+): CallToolResult {
+  const structuredContent = { ...page, ...extra };
+  const text = format === 'json' ? JSON.stringify(structuredContent) : renderHighlights(page, format);
+  return { content: [{ type: "text", text }], structuredContent };
+}
+
+function tagList(tags: unknown): string[] {
+  if (typeof tags === 'string') {
+    return tags.split(',').map(tag => tag.trim()).filter(Boolean);
+  }
+  return Array.isArray(tags) ? tags.map(tag => typeof tag === 'string' ? tag : tag?.name).filter(Boolean) : [];
+}
+
+function numberOrNull(value: unknown): number | null {
+  return typeof value === 'number' ? value : null;
+}
+
+// Results of the MCP highlight search endpoint use document_*/highlight_*
+// field names
+export function fromSearchResult(result: any): Highlight {
+  return {
+    id: numberOrNull(result.id ?? result.highlight_id),
+    text: result.highlight_plaintext ?? result.text ?? '',
+    note: result.highlight_note || null,
+    tags: tagList(result.highlight_tags ?? result.tags),
+    title: result.document_title ?? null,
+    author: result.document_author ?? null,
+    location: numberOrNull(result.highlight_location ?? result.location),
+    url: result.highlight_url ?? result.document_url ?? result.url ?? null,
+    highlighted_at: result.highlighted_at ?? null,
+    book_id: numberOrNull(result.book_id),
+  };
+}
+
+// v2 highlights carry the book only as an ID, so its details are passed in
+export function fromV2Highlight(highlight: any, book?: { title?: string; author?: string; source_url?: string }): Highlight {
+  return {
+    id: numberOrNull(highlight.id),
+    text: highlight.text ?? '',
+    note: highlight.note || null,
+    tags: tagList(highlight.tags),
+    title: book?.title ?? null,
+    author: book?.author ?? null,
+    location: numberOrNull(highlight.location),
+    url: highlight.url ?? book?.source_url ?? null,
+    highlighted_at: highlight.highlighted_at ?? null,
+    book_id: numberOrNull(highlight.book_id),
+  };
+}
+
+// Rows of the local mirror carry their book's title and author
+export function fromLocalHighlight(row: LocalHighlight): Highlight {
+  return {
+    id: row.id,
+    text: row.text,
+    note: row.note,
+    tags: row.tags,
+    title: row.book_title,
+    author: row.book_author,
+    location: row.location,
+    url: row.url,
+    highlighted_at: row.highlighted_at,
+    book_id: row.book_id,
+  };
+}
+
+// Daily review highlights carry their source's title and author inline
+export function fromReviewHighlight(highlight: any): Highlight {
+  return {
+    id: numberOrNull(highlight.id),
+    text: highlight.text ?? '',
+    note: highlight.note || null,
+    tags: tagList(highlight.tags),
+    title: highlight.title ?? null,
+    author: highlight.author ?? null,
+    location: numberOrNull(highlight.location),
+    url: highlight.url ?? highlight.source_url ?? null,
+    highlighted_at: highlight.highlighted_at ?? null,
+    book_id: numberOrNull(highlight.book_id),
+  };
+}
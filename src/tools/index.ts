@@ -0,0 +1,44 @@
+import { getBookHighlightsTool } from './book-highlights.js';
+import { getDailyReviewTool } from './daily-review.js';
+import { exportHighlightsTool } from './export-highlights.js';
+import { exportHighlightsAsTool } from './export-highlights-as.js';
+import { listBooksTool } from './list-books.js';
+import { randomHighlightsTool } from './random-highlights.js';
+import { listReaderDocumentsTool, saveReaderDocumentTool, updateReaderDocumentTool } from './reader-documents.js';
+import { ToolRegistry } from './registry.js';
+import { searchHighlightsTool } from './search-highlights.js';
+import { searchLocalHighlightsTool } from './search-local-highlights.js';
+import {
+  addHighlightTagTool,
+  createHighlightsTool,
+  removeHighlightTagTool,
+  updateHighlightNoteTool
+} from './write-highlights.js';
+
+export { ToolRegistry, defineTool, isMutating } from './registry.js';
+export type { ToolContext, ToolDefinition } from './registry.js';
+
+// Every tool the server exposes. New tools only need to be added here.
+// In read-only mode mutating tools are hidden from listings and refused.
+// Local search is only offered when there is a local mirror to search.
+export function createToolRegistry(readOnly = false, options: { localMirror?: boolean } = {}): ToolRegistry {
+  const registry = new ToolRegistry(readOnly);
+  registry.register(searchHighlightsTool);
+  if (options.localMirror) {
+    registry.register(searchLocalHighlightsTool);
+  }
+  registry.register(listBooksTool);
+  registry.register(getBookHighlightsTool);
+  registry.register(exportHighlightsTool);
+  registry.register(exportHighlightsAsTool);
+  registry.register(getDailyReviewTool);
+  registry.register(randomHighlightsTool);
+  registry.register(listReaderDocumentsTool);
+  registry.register(saveReaderDocumentTool);
+  registry.register(updateReaderDocumentTool);
+  registry.register(createHighlightsTool);
+  registry.register(updateHighlightNoteTool);
+  registry.register(addHighlightTagTool);
+  registry.register(removeHighlightTagTool);
+  return registry;
+}
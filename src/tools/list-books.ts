@@ -0,0 +1,39 @@
+import { z } from "zod";
+import { defineTool } from './registry.js';
+
+export const listBooksTool = defineTool({
+  name: "list_readwise_books",
+  description: "List books, articles and other sources in the Readwise library, optionally filtered by category, source or last update",
+  inputSchema: z.object({
+    category: z.enum(["books", "articles", "tweets", "supplementals", "podcasts"]).optional()
+      .describe("Only return sources of this category"),
+    source: z.string().optional().describe("Only return sources imported from this source, e.g. kindle or reader"),
+    updated_after: z.string().datetime({ offset: true }).optional()
+      .describe("ISO 8601 timestamp; only return sources updated after it"),
+    page: z.number().int().min(1).default(1),
+    page_size: z.number().int().min(1).max(1000).default(100),
+  }),
+  annotations: {
+    readOnlyHint: true
+  },
+  handler: async (args, { axios, logger, signal }) => {
+    const params = {
+      category: args.category,
+      source: args.source,
+      updated__gt: args.updated_after,
+      page: args.page,
+      page_size: args.page_size
+    };
+
+    logger.log('Calling Readwise books API', params);
+    const response = await axios.get("/api/v2/books/", { params, signal });
+    logger.log('Readwise books response received', { count: response.data.count });
+
+    const result = {
+      count: response.data.count,
+      next_page: response.data.next ? args.page + 1 : null,
+      results: response.data.results
+    };
+    return { content: [{ type: "text", text: JSON.stringify(result) }] };
+  }
+});
@@ -0,0 +1,38 @@
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { AxiosInstance, AxiosRequestConfig, AxiosResponse } from "axios";
+import { z } from "zod";
+import { ToolContext } from './registry.js';
+
+// Shared plumbing for tools that change the Readwise library
+
+export const dryRunSchema = z.boolean().default(false)
+  .describe("Return the exact upstream request without sending it");
+
+// Describes the request as the axios client would send it, with the access
+// token redacted
+export function dryRunResult(axios: AxiosInstance, request: AxiosRequestConfig): CallToolResult {
+  const defaults = axios.defaults.headers as Record<string, any>;
+  const preview = {
+    dry_run: true,
+    request: {
+      method: (request.method ?? 'get').toUpperCase(),
+      url: axios.getUri(request),
+      headers: {
+        "Accept": defaults["Accept"],
+        "Content-Type": defaults["Content-Type"],
+        "X-Access-Token": "[REDACTED]"
+      },
+      ...(request.data !== undefined && { body: request.data })
+    }
+  };
+  return { content: [{ type: "text", text: JSON.stringify(preview) }] };
+}
+
+// Sends a write and then drops cached responses, which may no longer match
+// the library. Cache keys are hashes that don't tell tenants apart, so the
+// whole cache goes, as it does for a webhook.
+export async function sendWrite(request: AxiosRequestConfig, { axios, cache, signal }: ToolContext): Promise<AxiosResponse> {
+  const response = await axios.request({ ...request, signal });
+  await cache.clear();
+  return response;
+}
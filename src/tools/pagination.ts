@@ -0,0 +1,114 @@
+import { AxiosInstance } from "axios";
+import { DebugLogger } from '../debug-logger.js';
+import { ToolContext } from './registry.js';
+
+// Cancellation and progress of the tool call doing the paging. Progress is
+// counted in items, out of the `count` Readwise reports.
+type PagingCall = Pick<ToolContext, 'signal' | 'reportProgress'>;
+
+function totalOf(data: any): number | undefined {
+  return typeof data.count === 'number' ? data.count : undefined;
+}
+
+// Readwise v2 list endpoints (`/api/v2/books/`, `/api/v2/highlights/`) page
+// with `page`/`page_size` and report a `next` URL while more remain. Yields
+// each page's results as it arrives and returns whether paging reached the
+// last page.
+export async function* iterateAllPages<T>(
+  axios: AxiosInstance,
+  logger: DebugLogger,
+  url: string,
+  params: Record<string, unknown>,
+  maxPages: number,
+  call: PagingCall = {}
+): AsyncGenerator<T[], boolean> {
+  let fetched = 0;
+
+  for (let page = 1; page <= maxPages; page++) {
+    logger.log('Fetching Readwise page', { url, page });
+    const response = await axios.get(url, { params: { ...params, page }, signal: call.signal });
+    fetched += response.data.results.length;
+    call.reportProgress?.(fetched, totalOf(response.data), `Fetched page ${page}`);
+    yield response.data.results;
+
+    if (!response.data.next) {
+      return true;
+    }
+  }
+
+  logger.warn('Stopped paging before the last page', { url, maxPages });
+  return false;
+}
+
+export async function fetchAllPages<T>(
+  axios: AxiosInstance,
+  logger: DebugLogger,
+  url: string,
+  params: Record<string, unknown>,
+  maxPages: number,
+  call: PagingCall = {}
+): Promise<{ results: T[]; complete: boolean }> {
+  const results: T[] = [];
+  const pages = iterateAllPages<T>(axios, logger, url, params, maxPages, call);
+  let page = await pages.next();
+  while (!page.done) {
+    results.push(...page.value);
+    page = await pages.next();
+  }
+  return { results, complete: page.value };
+}
+
+// The v2 export and Reader v3 list endpoints page with an opaque
+// `nextPageCursor` instead. Returns the cursor to continue from, or null
+// after the last page.
+export async function* iterateCursorPages<T>(
+  axios: AxiosInstance,
+  logger: DebugLogger,
+  url: string,
+  params: Record<string, unknown>,
+  maxPages: number,
+  pageCursor?: string,
+  call: PagingCall = {}
+): AsyncGenerator<T[], string | null> {
+  let fetched = 0;
+  let cursor = pageCursor;
+
+  for (let page = 1; page <= maxPages; page++) {
+    logger.log('Fetching Readwise cursor page', { url, page, pageCursor: cursor });
+    const response = await axios.get(url, {
+      params: { ...params, ...(cursor && { pageCursor: cursor }) },
+      signal: call.signal
+    });
+    fetched += response.data.results.length;
+    // The count covers the whole listing, so it is only a total when paging
+    // started at the beginning
+    call.reportProgress?.(fetched, pageCursor ? undefined : totalOf(response.data), `Fetched page ${page}`);
+    yield response.data.results;
+
+    cursor = response.data.nextPageCursor ?? undefined;
+    if (!cursor) {
+      return null;
+    }
+  }
+
+  return cursor ?? null;
+}
+
+export async function fetchCursorPages<T>(
+  axios: AxiosInstance,
+  logger: DebugLogger,
+  url: string,
+  params: Record<string, unknown>,
+  maxPages: number,
+  pageCursor?: string,
+  call: PagingCall = {}
+): Promise<{ results: T[]; nextPageCursor: string | null }> {
+  const results: T[] = [];
+  const pages = iterateCursorPages<T>(axios, logger, url, params, maxPages, pageCursor, call);
+  let page = await pages.next();
+  while (!page.done) {
+    results.push(...page.value);
+    page = await pages.next();
+  }
+  return { results, nextPageCursor: page.value };
+}
@@ -0,0 +1,133 @@
+import { z } from "zod";
+import { cacheKey } from '../cache.js';
+import { ExportBook } from '../mirror/index.js';
+import { fromLocalHighlight, fromV2Highlight, Highlight, highlightPageSchema, highlightSchema, presentationShape, presentHighlights, removeDuplicates } from './formatting.js';
+import { fetchCursorPages } from './pagination.js';
+import { defineTool, ToolContext } from './registry.js';
+
+// Export pages fetched to build the pool of candidates, and the most
+// candidates kept from them or read from the local mirror
+const MAX_POOL_PAGES = 10;
+const MAX_POOL_SIZE = 50000;
+
+const CATEGORIES = ["books", "articles", "tweets", "supplementals", "podcasts"] as const;
+
+interface PoolFilters {
+  tag?: string;
+  book_id?: number;
+  category?: string;
+}
+
+// Candidates come from the local mirror when there is one. Otherwise they
+// come from the export API, cached per book filter since export is the most
+// rate-limited endpoint; tag and category are applied afterwards. Only the
+// mapped highlights are cached, at most MAX_POOL_SIZE of them, never the
+// export pages themselves.
+async function candidatePool(filters: PoolFilters, context: ToolContext): Promise<{ highlights: Highlight[]; source: 'mirror' | 'readwise' }> {
+  const { mirror, axios, logger, cache, tenantId, signal, reportProgress } = context;
+  if (mirror) {
+    const rows = mirror.search({
+      tag: filters.tag,
+      bookId: filters.book_id,
+      category: filters.category,
+      limit: MAX_POOL_SIZE,
+      offset: 0
+    });
+    return { highlights: rows.map(fromLocalHighlight), source: 'mirror' };
+  }
+
+  const key = cacheKey(tenantId, 'random_highlights_pool', { book_id: filters.book_id });
+  const pool = await cache.getOrFetch(key, async () => {
+    const { results: books } = await fetchCursorPages<ExportBook>(
+      axios,
+      logger,
+      "/api/v2/export/",
+      { ids: filters.book_id },
+      MAX_POOL_PAGES,
+      undefined,
+      { signal, reportProgress }
+    );
+    return books
+      .flatMap(book => book.highlights
+        .filter(highlight => !highlight.is_deleted)
+        .map(highlight => ({
+          category: book.category ?? null,
+          highlight: fromV2Highlight(
+            { ...highlight, book_id: book.user_book_id },
+            { title: book.title ?? undefined, author: book.author ?? undefined, source_url: book.source_url ?? undefined }
+          )
+        })))
+      .slice(0, MAX_POOL_SIZE);
+  });
+
+  const tag = filters.tag?.toLowerCase();
+  const highlights = pool
+    .filter(candidate => !filters.category || candidate.category === filters.category)
+    .map(candidate => candidate.highlight)
+    .filter(highlight => !tag || highlight.tags.some(name => name.toLowerCase() === tag));
+  return { highlights, source: 'readwise' };
+}
+
+// Weighted sampling without replacement (Efraimidis–Spirakis): each candidate
+// gets the key u^(1/weight) and the highest keys win, so a candidate's chance
+// is proportional to its weight. Keys of tiny weights round to 0; those
+// only fill up what is left, highest weight first.
+function sample<Item>(items: Item[], count: number, weight: (item: Item) => number): Item[] {
+  return items
+    .map(item => {
+      const w = weight(item);
+      return { item, w, key: w > 0 ? Math.random() ** (1 / w) : 0 };
+    })
+    .sort((a, b) => b.key - a.key || b.w - a.w)
+    .slice(0, count)
+    .map(({ item }) => item);
+}
+
+export const randomHighlightsTool = defineTool({
+  name: "random_highlights",
+  description: "Resurface random highlights, optionally only those with a tag, from one book or of one category. Highlights shown recently, here or in the daily review, are less likely to come back until RESURFACING_COOLDOWN has passed",
+  inputSchema: z.object({
+    count: z.number().int().min(1).max(50).default(5).describe("Number of highlights to return"),
+    tag: z.string().min(1).optional().describe("Only highlights with this tag (case-insensitive)"),
+    book_id: z.number().int().optional().describe("Only highlights from this book"),
+    category: z.enum(CATEGORIES).optional().describe("Only highlights from sources of this category"),
+    avoid_repeats: z.boolean().default(true)
+      .describe("Favour highlights that haven't been shown lately. False draws uniformly"),
+    format: presentationShape(5).format,
+  }),
+  outputSchema: highlightPageSchema(
+    highlightSchema.extend({
+      last_shown_at: z.string().nullable().describe("When this highlight was last resurfaced before now"),
+    }),
+    { source: z.enum(["mirror", "readwise"]).describe("Where the candidates came from") }
+  ),
+  annotations: {
+    readOnlyHint: true
+  },
+  handler: async (args, context) => {
+    const { logger, history, tenantId } = context;
+    const { highlights, source } = await candidatePool(args, context);
+    // Repeated text would come back as a repeat under another ID
+    const { unique, removed } = removeDuplicates(highlights.filter(highlight => highlight.id !== null));
+
+    const now = Date.now();
+    const picked = sample(unique, args.count, highlight => args.avoid_repeats ? history.weight(tenantId, highlight.id!, now) : 1);
+    logger.log('Random highlights picked', { pool: unique.length, picked: picked.length, source });
+
+    const results = picked.map(highlight => {
+      const shown = history.lastShown(tenantId, highlight.id!);
+      return { ...highlight, last_shown_at: shown ? new Date(shown.shownAt).toISOString() : null };
+    });
+    history.record(tenantId, picked.map(highlight => highlight.id!), now);
+
+    const page = {
+      total: unique.length,
+      offset: 0,
+      count: results.length,
+      next_offset: null,
+      duplicates_removed: removed,
+      results
+    };
+    return presentHighlights(page, args.format, { source });
+  }
+});
@@ -0,0 +1,141 @@
+import { z } from "zod";
+import { dryRunResult, dryRunSchema, sendWrite } from './mutations.js';
+import { fetchCursorPages } from './pagination.js';
+import { defineTool } from './registry.js';
+
+// Tools for Readwise Reader documents (v3 API)
+
+const locationSchema = z.enum(["new", "later", "shortlist", "archive", "feed"]);
+const categorySchema = z.enum(["article", "email", "rss", "highlight", "note", "pdf", "epub", "tweet", "video"]);
+
+export const listReaderDocumentsTool = defineTool({
+  name: "list_reader_documents",
+  description: "List Readwise Reader documents, optionally filtered by location (new, later, shortlist, archive, feed), category or last update",
+  inputSchema: z.object({
+    location: locationSchema.optional().describe("Only return documents in this location"),
+    category: categorySchema.optional().describe("Only return documents of this category"),
+    updated_after: z.string().datetime({ offset: true }).optional()
+      .describe("ISO 8601 timestamp; only return documents updated after it"),
+    page_cursor: z.string().optional().describe("next_page_cursor from a previous call"),
+    max_pages: z.number().int().min(1).max(10).default(1)
+      .describe("Upper bound on pages of 100 documents to fetch in this call"),
+  }),
+  annotations: {
+    readOnlyHint: true
+  },
+  handler: async (args, { axios, logger, signal, reportProgress }) => {
+    const params = {
+      location: args.location,
+      category: args.category,
+      updatedAfter: args.updated_after
+    };
+
+    const { results, nextPageCursor } = await fetchCursorPages(
+      axios,
+      logger,
+      "/api/v3/list/",
+      params,
+      args.max_pages,
+      args.page_cursor,
+      { signal, reportProgress }
+    );
+    logger.log('Reader documents received', { count: results.length, nextPageCursor });
+
+    const result = {
+      count: results.length,
+      next_page_cursor: nextPageCursor,
+      results
+    };
+    return { content: [{ type: "text", text: JSON.stringify(result) }] };
+  }
+});
+
+export const saveReaderDocumentTool = defineTool({
+  name: "save_reader_document",
+  description: "Save a URL to Readwise Reader, with optional tags, notes and target location",
+  inputSchema: z.object({
+    url: z.string().url().describe("URL of the document to save"),
+    title: z.string().optional(),
+    author: z.string().optional(),
+    summary: z.string().optional(),
+    location: locationSchema.optional().describe("Where to file the document (defaults to new)"),
+    category: categorySchema.optional(),
+    tags: z.array(z.string()).optional(),
+    notes: z.string().optional().describe("Top-level note attached to the document"),
+    dry_run: dryRunSchema,
+  }),
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true
+  },
+  handler: async ({ dry_run, ...args }, context) => {
+    const { axios, logger } = context;
+    const request = {
+      method: 'post',
+      url: "/api/v3/save/",
+      data: {
+        ...args,
+        saved_using: "readwise-mcp-http"
+      }
+    };
+    if (dry_run) {
+      return dryRunResult(axios, request);
+    }
+
+    logger.log('Saving document to Reader', { url: args.url, location: args.location });
+    const response = await sendWrite(request, context);
+    logger.log('Reader save response received', { status: response.status, id: response.data.id });
+
+    const result = {
+      id: response.data.id,
+      url: response.data.url,
+      // Reader answers 200 instead of 201 when the URL was already saved
+      already_existed: response.status === 200
+    };
+    return { content: [{ type: "text", text: JSON.stringify(result) }] };
+  }
+});
+
+export const updateReaderDocumentTool = defineTool({
+  name: "update_reader_document",
+  description: "Move a Readwise Reader document to another location or update its metadata",
+  inputSchema: z.object({
+    document_id: z.string().describe("Reader document ID, as returned by list_reader_documents"),
+    location: locationSchema.optional().describe("Move the document to this location"),
+    category: categorySchema.optional(),
+    title: z.string().optional(),
+    author: z.string().optional(),
+    summary: z.string().optional(),
+    dry_run: dryRunSchema,
+  }),
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true
+  },
+  handler: async ({ document_id, dry_run, ...changes }, context) => {
+    const { axios, logger } = context;
+    if (Object.values(changes).every(value => value === undefined)) {
+      return {
+        content: [{ type: "text", text: "Nothing to update: pass a location or at least one field to change" }],
+        isError: true
+      };
+    }
+
+    const request = {
+      method: 'patch',
+      url: `/api/v3/update/${encodeURIComponent(document_id)}/`,
+      data: changes
+    };
+    if (dry_run) {
+      return dryRunResult(axios, request);
+    }
+
+    logger.log('Updating Reader document', { documentId: document_id, changes });
+    const response = await sendWrite(request, context);
+    logger.log('Reader update response received', { status: response.status });
+
+    return { content: [{ type: "text", text: JSON.stringify(response.data) }] };
+  }
+});
@@ -0,0 +1,123 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CallToolResult, ServerNotification, ServerNotificationSchema, ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+import { AxiosInstance } from "axios";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { ResponseCache } from '../cache.js';
+import { DebugLogger } from '../debug-logger.js';
+import { classifyError, toolErrorResult } from '../errors.js';
+import { HighlightExporter } from '../export/index.js';
+import { MirrorStore } from '../mirror/index.js';
+import { ResurfacingHistory } from '../resurfacing-history.js';
+import { ProgressReporter, ToolCall } from '../tool-calls.js';
+
+// Everything a tool handler may use to do its work
+export interface ToolContext {
+  axios: AxiosInstance;
+  logger: DebugLogger;
+  // Identifies the Readwise account behind `axios` without revealing its token
+  tenantId: string;
+  // Shared response cache; keys must include `tenantId`
+  cache: ResponseCache;
+  // Local copy of the library, when MIRROR_DB is set
+  mirror?: MirrorStore;
+  // What the resurfacing tools have shown; keys must include `tenantId`
+  history: ResurfacingHistory;
+  // Export templates and the pipeline behind GET /export
+  exporter: HighlightExporter;
+  // Set for tool calls: aborted when the client cancels the call, and pass
+  // it on to every upstream request
+  signal?: AbortSignal;
+  // Set for tool calls; a no-op unless the client asked for progress
+  reportProgress?: ProgressReporter;
+}
+
+export interface ToolDefinition<Shape extends z.ZodRawShape = z.ZodRawShape> {
+  name: string;
+  description: string;
+  inputSchema: z.ZodObject<Shape>;
+  outputSchema?: z.AnyZodObject;
+  annotations?: ToolAnnotations;
+  handler: (args: z.objectOutputType<Shape, z.ZodTypeAny>, context: ToolContext) => Promise<CallToolResult>;
+}
+
+// Identity helper so each tool file gets its handler arguments inferred from
+// its schema
+export function defineTool<Shape extends z.ZodRawShape>(tool: ToolDefinition<Shape>): ToolDefinition<Shape> {
+  return tool;
+}
+
+// A tool counts as mutating unless it is explicitly annotated read-only, so a
+// forgotten annotation hides the tool in read-only mode rather than exposing it
+export function isMutating(tool: ToolDefinition<any>): boolean {
+  return tool.annotations?.readOnlyHint !== true;
+}
+
+// Single source of truth for tools: tools/list, tools/call, the legacy
+// streaming endpoint and the McpServer instance are all driven from here.
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition<any>>();
+
+  constructor(private readOnly = false) {}
+
+  register(tool: ToolDefinition<any>) {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool ${tool.name} is already registered`);
+    }
+    this.tools.set(tool.name, tool);
+  }
+
+  // Returns undefined for unknown tools and for mutating tools in read-only mode
+  get(name: string): ToolDefinition<any> | undefined {
+    const tool = this.tools.get(name);
+    return tool && !this.isBlocked(tool) ? tool : undefined;
+  }
+
+  // True when the tool exists but read-only mode refuses it
+  isBlocked(nameOrTool: string | ToolDefinition<any>): boolean {
+    const tool = typeof nameOrTool === 'string' ? this.tools.get(nameOrTool) : nameOrTool;
+    return this.readOnly && !!tool && isMutating(tool);
+  }
+
+  list(): ToolDefinition<any>[] {
+    return [...this.tools.values()].filter(tool => !this.isBlocked(tool));
+  }
+
+  // Tool descriptors in the shape tools/list returns
+  describe() {
+    return this.list().map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: zodToJsonSchema(tool.inputSchema, { strictUnions: true }),
+      ...(tool.outputSchema && { outputSchema: zodToJsonSchema(tool.outputSchema, { strictUnions: true }) }),
+      ...(tool.annotations && { annotations: tool.annotations })
+    }));
+  }
+
+  // Progress notifications are checked against the SDK's schema on the way
+  // out, since its server only sends ServerNotification
+  attachTo(mcpServer: McpServer, context: ToolContext) {
+    this.list().forEach((tool: ToolDefinition) => {
+      mcpServer.registerTool(
+        tool.name,
+        {
+          description: tool.description,
+          inputSchema: tool.inputSchema.shape,
+          outputSchema: tool.outputSchema?.shape,
+          annotations: tool.annotations
+        },
+        (args: z.infer<ToolDefinition['inputSchema']>, extra) => {
+          const call = new ToolCall(extra.requestId, ToolCall.progressTokenOf({ _meta: extra._meta }), {
+            notify: notification => {
+              const serverNotification: ServerNotification = ServerNotificationSchema.parse(notification);
+              extra.sendNotification(serverNotification);
+            },
+            signal: extra.signal
+          });
+          return tool.handler(args, { ...context, signal: call.signal, reportProgress: call.reportProgress })
+            .catch(error => toolErrorResult(classifyError(error)));
+        }
+      );
+    });
+  }
+}
@@ -0,0 +1,73 @@
+import { z } from "zod";
+import { cacheKey } from '../cache.js';
+import { fromSearchResult, highlightListOutputSchema, pageHighlights, presentationShape, presentHighlights } from './formatting.js';
+import { defineTool, ToolContext } from './registry.js';
+
+const searchFieldSchema = z.enum([
+  "document_author",
+  "document_title",
+  "highlight_note",
+  "highlight_plaintext",
+  "highlight_tags",
+]);
+
+// A highlight search as the Readwise MCP endpoint takes it
+export const searchPayloadSchema = z.object({
+  vector_search_term: z.string().describe("Semantic search term for vector search"),
+  full_text_queries: z.array(
+    z.object({
+      field_name: searchFieldSchema,
+      search_term: z.string(),
+    })
+  ).describe("Field-specific full-text searches"),
+});
+
+export type SearchPayload = z.infer<typeof searchPayloadSchema>;
+
+// Whitespace and query order don't change the results, so they shouldn't
+// defeat the cache either
+function normalizeSearch(payload: SearchPayload): SearchPayload {
+  const clean = (term: string) => term.trim().replace(/\s+/g, ' ');
+  return {
+    vector_search_term: clean(payload.vector_search_term),
+    full_text_queries: payload.full_text_queries
+      .map(query => ({ field_name: query.field_name, search_term: clean(query.search_term) }))
+      .sort((a, b) => `${a.field_name}\n${a.search_term}`.localeCompare(`${b.field_name}\n${b.search_term}`))
+  };
+}
+
+// Highlight search through the response cache. Shared with the tag resource,
+// which queries the same endpoint.
+export async function searchHighlights(
+  payload: SearchPayload,
+  { axios, logger, tenantId, cache, signal }: ToolContext,
+  bypassCache = false
+): Promise<any[]> {
+  const normalized = normalizeSearch(payload);
+  return cache.getOrFetch(cacheKey(tenantId, "search_highlights", normalized), async () => {
+    logger.log('Calling Readwise API', normalized);
+    const response = await axios.post("/api/mcp/highlights", normalized, { signal });
+    logger.log('Readwise API response received', { resultCount: response.data.results?.length || 0 });
+    return response.data.results ?? [];
+  }, bypassCache);
+}
+
+// Same schema and endpoint as the official Readwise MCP module
+export const searchHighlightsTool = defineTool({
+  name: "search_readwise_highlights",
+  description: "Search through Readwise highlights using vector search and full-text queries",
+  inputSchema: z.object({
+    ...searchPayloadSchema.shape,
+    bypass_cache: z.boolean().default(false)
+      .describe("Skip the response cache and fetch fresh results (the cache is refreshed with them)"),
+    ...presentationShape(20),
+  }),
+  outputSchema: highlightListOutputSchema,
+  annotations: {
+    readOnlyHint: true
+  },
+  handler: async ({ bypass_cache, format, limit, offset, dedupe, ...payload }, context) => {
+    const results = await searchHighlights(payload, context, bypass_cache);
+    return presentHighlights(pageHighlights(results.map(fromSearchResult), { limit, offset, dedupe }), format);
+  }
+});
@@ -0,0 +1,78 @@
+import { z } from "zod";
+import { LocalSearchQueryError } from '../mirror/index.js';
+import { fromLocalHighlight, Highlight, highlightPageSchema, highlightSchema, presentationShape, presentHighlights, removeDuplicates } from './formatting.js';
+import { defineTool } from './registry.js';
+
+const dateSchema = z.union([z.string().datetime({ offset: true }), z.string().date()]);
+
+// Searches the SQLite mirror instead of readwise.io, so it answers even when
+// the Readwise API is slow or down
+export const searchLocalHighlightsTool = defineTool({
+  name: "search_local_highlights",
+  description: "Search the local mirror of the Readwise library with exact word and phrase matching, filtered by tag, book and highlight date. Works offline; results are as fresh as the last sync",
+  inputSchema: z.object({
+    query: z.string().min(1).optional()
+      .describe('Full-text query. Words must all appear; use "double quotes" for phrases, OR / NOT to combine and word* for prefixes. Omit to list by filters only'),
+    phrase: z.boolean().default(false).describe("Match the whole query as one exact phrase"),
+    tag: z.string().optional().describe("Only highlights with this tag (case-insensitive)"),
+    book_id: z.number().int().optional().describe("Only highlights from this book"),
+    book_title: z.string().optional().describe("Only highlights from books whose title contains this text"),
+    highlighted_after: dateSchema.optional().describe("ISO 8601 date or timestamp; only highlights made on or after it"),
+    highlighted_before: dateSchema.optional().describe("ISO 8601 date or timestamp; only highlights made before it"),
+    ...presentationShape(20),
+  }),
+  outputSchema: highlightPageSchema(
+    highlightSchema.extend({
+      snippet: z.string().optional().describe("Matching passage with the query terms in **bold**"),
+    }),
+    { last_synced_at: z.string().nullable() }
+  ),
+  annotations: {
+    readOnlyHint: true
+  },
+  handler: async (args, { mirror, logger }) => {
+    if (!mirror) {
+      return {
+        content: [{ type: "text", text: "The local mirror is not enabled on this server" }],
+        isError: true
+      };
+    }
+
+    const query = args.query && args.phrase ? `"${args.query.replace(/"/g, '""')}"` : args.query;
+    logger.log('Searching local mirror', { ...args, query });
+    try {
+      // One extra row tells whether another page follows
+      const rows = mirror.search({
+        query,
+        tag: args.tag,
+        bookId: args.book_id,
+        bookTitle: args.book_title,
+        highlightedAfter: args.highlighted_after,
+        highlightedBefore: args.highlighted_before,
+        limit: args.limit + 1,
+        offset: args.offset
+      });
+
+      const highlights: Array<Highlight & { snippet?: string }> = rows.slice(0, args.limit).map(row => ({
+        ...fromLocalHighlight(row),
+        ...(row.snippet && { snippet: row.snippet })
+      }));
+      // The total isn't counted, so duplicates are only removed within the page
+      const { unique, removed } = args.dedupe ? removeDuplicates(highlights) : { unique: highlights, removed: 0 };
+      const page = {
+        total: null,
+        offset: args.offset,
+        count: unique.length,
+        next_offset: rows.length > args.limit ? args.offset + args.limit : null,
+        duplicates_removed: removed,
+        results: unique
+      };
+      return presentHighlights(page, args.format, { last_synced_at: mirror.getState('last_sync_at') ?? null });
+    } catch (error) {
+      if (error instanceof LocalSearchQueryError) {
+        return { content: [{ type: "text", text: error.message }], isError: true };
+      }
+      throw error;
+    }
+  }
+});
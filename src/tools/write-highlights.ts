@@ -0,0 +1,140 @@
+import { z } from "zod";
+import { dryRunResult, dryRunSchema, sendWrite } from './mutations.js';
+import { defineTool } from './registry.js';
+
+// Tools that create and edit highlights through the Readwise v2 API. All of
+// them support dry_run and are hidden when the server runs with READ_ONLY.
+
+const mutatingAnnotations = {
+  readOnlyHint: false,
+  destructiveHint: false
+};
+
+export const createHighlightsTool = defineTool({
+  name: "create_highlights",
+  description: "Create one or more highlights in Readwise. Highlights with the same title and author are grouped into one book",
+  inputSchema: z.object({
+    highlights: z.array(
+      z.object({
+        text: z.string().min(1).max(8191),
+        title: z.string().optional().describe("Title of the book or article the highlight belongs to"),
+        author: z.string().optional(),
+        source_url: z.string().url().optional(),
+        category: z.enum(["books", "articles", "tweets", "podcasts"]).optional(),
+        note: z.string().optional(),
+        location: z.number().int().optional(),
+        location_type: z.enum(["page", "order", "time_offset"]).optional(),
+        highlighted_at: z.string().datetime({ offset: true }).optional(),
+        highlight_url: z.string().url().optional(),
+      })
+    ).min(1).max(100),
+    dry_run: dryRunSchema,
+  }),
+  annotations: mutatingAnnotations,
+  handler: async ({ highlights, dry_run }, context) => {
+    const { axios, logger } = context;
+    const request = {
+      method: 'post',
+      url: "/api/v2/highlights/",
+      data: {
+        highlights: highlights.map(highlight => ({ source_type: "readwise-mcp-http", ...highlight }))
+      }
+    };
+    if (dry_run) {
+      return dryRunResult(axios, request);
+    }
+
+    logger.log('Creating Readwise highlights', { count: highlights.length });
+    const response = await sendWrite(request, context);
+    logger.log('Readwise highlights created', { books: response.data.length });
+    return { content: [{ type: "text", text: JSON.stringify(response.data) }] };
+  }
+});
+
+export const updateHighlightNoteTool = defineTool({
+  name: "update_highlight_note",
+  description: "Replace the note attached to a Readwise highlight. Pass an empty string to clear it",
+  inputSchema: z.object({
+    highlight_id: z.number().int(),
+    note: z.string(),
+    dry_run: dryRunSchema,
+  }),
+  annotations: { ...mutatingAnnotations, idempotentHint: true },
+  handler: async ({ highlight_id, note, dry_run }, context) => {
+    const { axios, logger } = context;
+    const request = {
+      method: 'patch',
+      url: `/api/v2/highlights/${highlight_id}/`,
+      data: { note }
+    };
+    if (dry_run) {
+      return dryRunResult(axios, request);
+    }
+
+    logger.log('Updating Readwise highlight note', { highlightId: highlight_id });
+    const response = await sendWrite(request, context);
+    return { content: [{ type: "text", text: JSON.stringify(response.data) }] };
+  }
+});
+
+export const addHighlightTagTool = defineTool({
+  name: "add_highlight_tag",
+  description: "Add a tag to a Readwise highlight",
+  inputSchema: z.object({
+    highlight_id: z.number().int(),
+    tag: z.string().min(1),
+    dry_run: dryRunSchema,
+  }),
+  annotations: mutatingAnnotations,
+  handler: async ({ highlight_id, tag, dry_run }, context) => {
+    const { axios, logger } = context;
+    const request = {
+      method: 'post',
+      url: `/api/v2/highlights/${highlight_id}/tags/`,
+      data: { name: tag }
+    };
+    if (dry_run) {
+      return dryRunResult(axios, request);
+    }
+
+    logger.log('Adding Readwise highlight tag', { highlightId: highlight_id, tag });
+    const response = await sendWrite(request, context);
+    return { content: [{ type: "text", text: JSON.stringify(response.data) }] };
+  }
+});
+
+export const removeHighlightTagTool = defineTool({
+  name: "remove_highlight_tag",
+  description: "Remove a tag from a Readwise highlight by tag name",
+  inputSchema: z.object({
+    highlight_id: z.number().int(),
+    tag: z.string().min(1),
+    dry_run: dryRunSchema,
+  }),
+  annotations: { ...mutatingAnnotations, destructiveHint: true },
+  handler: async ({ highlight_id, tag, dry_run }, context) => {
+    const { axios, logger, signal } = context;
+    // The API deletes tags by ID, so look the name up first. This read also
+    // happens on dry runs so the previewed request is the real one.
+    const tagsResponse = await axios.get(`/api/v2/highlights/${highlight_id}/tags/`, { signal });
+    const match = tagsResponse.data.results?.find((existing: { name: string }) => existing.name === tag);
+    if (!match) {
+      return {
+        content: [{ type: "text", text: `Highlight ${highlight_id} has no tag named "${tag}"` }],
+        isError: true
+      };
+    }
+
+    const request = {
+      method: 'delete',
+      url: `/api/v2/highlights/${highlight_id}/tags/${match.id}/`
+    };
+    if (dry_run) {
+      return dryRunResult(axios, request);
+    }
+
+    logger.log('Removing Readwise highlight tag', { highlightId: highlight_id, tag, tagId: match.id });
+    await sendWrite(request, context);
+    return { content: [{ type: "text", text: JSON.stringify({ removed: true, highlight_id, tag }) }] };
+  }
+});
@@ -0,0 +1,110 @@
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import axios, { AxiosInstance } from "axios";
+import { traceClient } from './audit/trace.js';
+import { DebugLogger } from './debug-logger.js';
+import { Metrics } from './metrics.js';
+import { currentRequestId, REQUEST_ID_HEADER } from './request-context.js';
+import { applyResilience, ResilienceOptions } from './resilience.js';
+
+// Readwise API clients. Single-tenant deployments use one client built from
+// ACCESS_TOKEN; multi-tenant deployments get one client per Readwise token.
+
+export type TenantMode = 'single' | 'header' | 'principal';
+
+export const READWISE_TOKEN_HEADER = 'X-Readwise-Token';
+
+export interface UpstreamOptions {
+  baseURL: string;
+  timeout: number;
+  resilience: ResilienceOptions;
+  metrics?: Metrics;
+}
+
+// How the server builds its Readwise clients; replaceable so tests and
+// embedding applications can supply their own
+export type ReadwiseClientFactory = typeof createReadwiseClient;
+
+export function createReadwiseClient(
+  token: string | undefined,
+  options: UpstreamOptions,
+  logger: DebugLogger
+): AxiosInstance {
+  const client = axios.create({
+    baseURL: options.baseURL,
+    timeout: options.timeout,
+    headers: {
+      "Accept": "application/json",
+      "Content-Type": "application/json",
+      "X-Access-Token": token,
+    },
+  });
+
+  // Lets Readwise support correlate a failing call with our logs
+  client.interceptors.request.use(config => {
+    const requestId = currentRequestId();
+    if (requestId) {
+      config.headers.set(REQUEST_ID_HEADER, requestId);
+    }
+    return config;
+  });
+
+  options.metrics?.instrumentClient(client);
+  traceClient(client);
+  applyResilience(client, options.resilience, logger);
+
+  return client;
+}
+
+// Short, non-reversible identifier for a token that is safe to log and to
+// use as a cache key
+export function tenantIdFor(token: string): string {
+  return createHash('sha256').update(token).digest('hex').slice(0, 12);
+}
+
+// Reads the principal -> Readwise token mapping used in `principal` mode. Keys
+// are principal IDs as produced by auth, e.g. `api_key:laptop` or
+// `oauth:<sub>`.
+export function loadTenantTokens(file: string | undefined): Record<string, string> {
+  if (!file) {
+    return {};
+  }
+  const tokens = JSON.parse(readFileSync(file, 'utf8'));
+  if (typeof tokens !== 'object' || tokens === null || Object.values(tokens).some(token => typeof token !== 'string')) {
+    throw new Error(`${file} must be a JSON object mapping principal IDs to Readwise tokens`);
+  }
+  return tokens;
+}
+
+// Keeps one client per tenant so connection pools and retry state are never
+// shared between accounts. Least recently used clients are dropped first.
+export class UpstreamClients {
+  private clients = new Map<string, AxiosInstance>();
+
+  constructor(
+    private options: UpstreamOptions,
+    private logger: DebugLogger,
+    private createClient: ReadwiseClientFactory = createReadwiseClient,
+    private maxClients = 100
+  ) {}
+
+  forToken(token: string): { tenantId: string; axios: AxiosInstance } {
+    const tenantId = tenantIdFor(token);
+    let client = this.clients.get(tenantId);
+    if (client) {
+      // Re-insert to mark as most recently used
+      this.clients.delete(tenantId);
+    } else {
+      client = this.createClient(token, this.options, this.logger);
+      this.logger.log('Created upstream client for tenant', { tenantId });
+    }
+    this.clients.set(tenantId, client);
+
+    if (this.clients.size > this.maxClients) {
+      const oldest = this.clients.keys().next().value!;
+      this.clients.delete(oldest);
+      this.logger.log('Evicted upstream client', { tenantId: oldest });
+    }
+    return { tenantId, axios: client };
+  }
+}
@@ -0,0 +1,132 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import express from 'express';
+import { DebugLogger } from './debug-logger.js';
+import { Metrics } from './metrics.js';
+
+// Inbound Readwise and Reader webhooks. Readwise includes the webhook's
+// secret in every event body; relays that sign instead can send an HMAC of
+// the body in X-Readwise-Signature. Events are normalised to what changed,
+// so the server can drop stale cache entries and tell connected clients.
+
+declare global {
+  namespace Express {
+    interface Request {
+      // The body as received, kept for signature checks on webhook routes
+      rawBody?: Buffer;
+    }
+  }
+}
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Readwise-Signature';
+
+export interface WebhookEvent {
+  // As Readwise named it, e.g. `readwise.highlight.created` or
+  // `reader.any_document.created`
+  type: string;
+  subject: 'highlight' | 'document' | 'other';
+  // Tag changes, moves between locations and the like count as updates
+  action: 'created' | 'updated' | 'deleted';
+  highlightId?: number;
+  bookId?: number;
+  documentId?: string;
+}
+
+// What the server did with an event: the number of notifications it sent
+export type WebhookHandler = (event: WebhookEvent) => Promise<number>;
+
+function digest(value: string | Buffer): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+// Compares digests so the comparison takes the same time whatever the input
+function matches(candidate: string | Buffer, expected: string | Buffer): boolean {
+  return timingSafeEqual(digest(candidate), digest(expected));
+}
+
+function numberOrUndefined(value: unknown): number | undefined {
+  const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof parsed === 'number' && Number.isInteger(parsed) ? parsed : undefined;
+}
+
+// Undefined for bodies that carry no event type
+export function normalizeWebhookEvent(body: any): WebhookEvent | undefined {
+  const type = body?.event_type ?? body?.type;
+  if (typeof type !== 'string' || !type) {
+    return undefined;
+  }
+
+  const [, object = '', verb = ''] = type.split('.');
+  const subject = object.includes('highlight') ? 'highlight' : object.includes('document') ? 'document' : 'other';
+  const action = verb === 'created' || verb === 'deleted' ? verb : 'updated';
+  const payload = body.data && typeof body.data === 'object' ? body.data : body;
+
+  if (subject === 'highlight') {
+    return {
+      type,
+      subject,
+      action,
+      highlightId: numberOrUndefined(payload.id),
+      bookId: numberOrUndefined(payload.book_id)
+    };
+  }
+  return {
+    type,
+    subject,
+    action,
+    ...(payload.id !== undefined && payload.id !== null && { documentId: String(payload.id) })
+  };
+}
+
+export class WebhookReceiver {
+  constructor(private secret: string, private logger: DebugLogger, private metrics?: Metrics) {}
+
+  // Body parser for webhook routes: keeps the raw bytes for the signature and
+  // allows larger bodies than MCP requests, since document events can carry
+  // the whole document
+  bodyParser(): express.RequestHandler {
+    return express.json({
+      limit: '5mb',
+      verify: (req, res, buffer) => {
+        (req as express.Request).rawBody = buffer;
+      }
+    });
+  }
+
+  verify(req: express.Request): boolean {
+    const signature = req.get(WEBHOOK_SIGNATURE_HEADER);
+    if (signature) {
+      const expected = createHmac('sha256', this.secret).update(req.rawBody ?? '').digest('hex');
+      return matches(signature.replace(/^sha256=/i, '').toLowerCase(), expected);
+    }
+    const secret = req.body?.secret;
+    return typeof secret === 'string' && matches(secret, this.secret);
+  }
+
+  handler(handle: WebhookHandler): express.RequestHandler {
+    return async (req, res) => {
+      if (!this.verify(req)) {
+        this.logger.warn('Rejected webhook with a wrong or missing secret', { ip: req.ip });
+        this.metrics?.recordWebhook('unknown', 'rejected');
+        return res.status(401).json({ error: 'Invalid webhook secret or signature' });
+      }
+
+      const event = normalizeWebhookEvent(req.body);
+      if (!event) {
+        this.metrics?.recordWebhook('unknown', 'invalid');
+        return res.status(400).json({ error: 'Not a Readwise webhook event: event_type is missing' });
+      }
+
+      this.logger.info('Webhook received', { ...event });
+      try {
+        const notified = await handle(event);
+        this.metrics?.recordWebhook(event.subject, 'accepted');
+        res.json({ received: true, event: event.type, notified });
+      } catch (error) {
+        // A failed response makes Readwise deliver the event again
+        this.logger.error('Failed to handle webhook', error);
+        this.metrics?.recordWebhook(event.subject, 'failed');
+        res.status(500).json({ error: 'Failed to handle webhook' });
+      }
+    };
+  }
+}
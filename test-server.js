@@ -42,11 +42,19 @@ async function testServer() {
         const initData = await initResponse.json();
         console.log("✅ MCP initialize:", initData.result ? "success" : "failed");
 
+        // Every request after initialize must carry the assigned session ID
+        const sessionId = initResponse.headers.get("mcp-session-id");
+        console.log("✅ Session ID:", sessionId);
+        const sessionHeaders = {
+            "Content-Type": "application/json",
+            "Mcp-Session-Id": sessionId
+        };
+
         // Test 4: Tools list
         console.log("\n4. Testing tools list...");
         const toolsResponse = await fetch(`${baseUrl}/mcp`, {
             method: "POST",
-            headers: { "Content-Type": "application/json" },
+            headers: sessionHeaders,
             body: JSON.stringify({
                 jsonrpc: "2.0",
                 id: 2,
@@ -60,7 +68,7 @@ async function testServer() {
         console.log("\n5. Testing tool call with proper arguments...");
         const toolResponse = await fetch(`${baseUrl}/mcp`, {
             method: "POST",
-            headers: { "Content-Type": "application/json" },
+            headers: sessionHeaders,
             body: JSON.stringify({
                 jsonrpc: "2.0",
                 id: 3,
@@ -90,7 +98,7 @@ async function testServer() {
         console.log("\n6. Testing tool call with empty arguments...");
         const emptyToolResponse = await fetch(`${baseUrl}/mcp`, {
             method: "POST",
-            headers: { "Content-Type": "application/json" },
+            headers: sessionHeaders,
             body: JSON.stringify({
                 jsonrpc: "2.0",
                 id: 4,
@@ -108,6 +116,14 @@ async function testServer() {
             console.log("⚠️  Empty arguments unexpectedly succeeded");
         }
 
+        // Test 7: Session termination
+        console.log("\n7. Testing session termination...");
+        const deleteResponse = await fetch(`${baseUrl}/mcp`, {
+            method: "DELETE",
+            headers: sessionHeaders
+        });
+        console.log("✅ Session terminated:", deleteResponse.status);
+
         console.log("\n🎉 All tests passed! Server is working correctly.");
     } catch (error) {
         console.error("❌ Test failed:", error.message);
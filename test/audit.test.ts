@@ -0,0 +1,167 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { Harness, McpTestClient, startHarness } from './helpers.js';
+
+const API_KEY = 'audit-test-key';
+const OTHER_KEY = 'audit-other-key';
+
+function fetchJson(url: string, key: string, init: RequestInit = {}, headers: Record<string, string> = {}): Promise<{ status: number; body: any }> {
+  return fetch(url, { ...init, headers: { 'Content-Type': 'application/json', 'X-API-Key': key, ...headers } })
+    .then(async response => ({ status: response.status, body: await response.json() }));
+}
+
+describe('audit log', () => {
+  let harness: Harness;
+  let client: McpTestClient;
+
+  before(async () => {
+    harness = await startHarness({
+      auth: { apiKeys: { laptop: API_KEY, phone: OTHER_KEY } },
+      audit: { database: ':memory:', results: true, adminKeys: ['laptop'] }
+    });
+    client = new McpTestClient(harness.url, { 'X-API-Key': API_KEY });
+    await client.initialize();
+  });
+
+  after(() => harness.close());
+
+  const admin = (path: string, init: RequestInit = {}) => fetchJson(`${harness.url}${path}`, API_KEY, init);
+
+  it('records who called which tool and how it went', async () => {
+    const args = { vector_search_term: 'thinking', full_text_queries: [] };
+    await client.callTool('search_readwise_highlights', args);
+    // Answered from the cache the second time
+    await client.callTool('search_readwise_highlights', args);
+
+    const { body } = await admin('/admin/audit?tool=search_readwise_highlights');
+    assert.equal(body.entries.length, 2);
+    const [cached, first] = body.entries;
+    assert.equal(first.principal, 'api_key:laptop');
+    assert.equal(first.client, 'test');
+    assert.equal(first.sessionId, client.sessionId);
+    assert.equal(first.method, 'tools/call');
+    assert.equal(first.arguments.vector_search_term, 'thinking');
+    assert.equal(first.outcome, 'success');
+    assert.equal(first.upstreamRequests, 1);
+    assert.equal(first.upstreamStatus, 200);
+    assert.equal(first.resultSize, JSON.stringify(first.result).length);
+    assert.equal(cached.upstreamRequests, 0);
+    assert.equal(cached.upstreamStatus, null);
+  });
+
+  it('records failures with their upstream status', async () => {
+    harness.mock.injectFault({ path: '/api/v2/books/', status: 404, times: 1 });
+    const result = await client.callTool('get_book_highlights', { book_id: 999 });
+    assert.equal(result.isError, true);
+
+    const { body } = await admin('/admin/audit?tool=get_book_highlights&outcome=error');
+    assert.equal(body.entries.length, 1);
+    assert.equal(body.entries[0].upstreamStatus, 404);
+    assert.equal(body.entries[0].errorType, 'not_found');
+  });
+
+  it('filters and pages', async () => {
+    const page = await admin('/admin/audit?limit=1');
+    assert.equal(page.body.entries.length, 1);
+    const next = await admin(`/admin/audit?limit=1&before=${page.body.nextBefore}`);
+    assert.ok(next.body.entries[0].id < page.body.entries[0].id);
+
+    assert.equal((await admin('/admin/audit?principal=api_key:other')).body.entries.length, 0);
+    assert.equal((await admin('/admin/audit?since=2999-01-01T00:00:00Z')).body.entries.length, 0);
+    assert.equal((await admin('/admin/audit?outcome=maybe')).status, 400);
+    assert.equal((await admin('/admin/audit/999999')).status, 404);
+  });
+
+  it('replays entries against the mock and the live upstream', async () => {
+    const { body } = await admin('/admin/audit?tool=search_readwise_highlights&limit=1');
+    const entry = body.entries[0];
+    const mockRequests = harness.mock.requests.length;
+
+    const mock = await admin(`/admin/audit/${entry.id}/replay`, { method: 'POST', body: '{}' });
+    assert.equal(mock.status, 200);
+    assert.equal(mock.body.target, 'mock');
+    assert.equal(mock.body.outcome, 'success');
+    assert.equal(mock.body.upstreamRequests, 1);
+    assert.equal(mock.body.recorded.outcome, 'success');
+    assert.equal(typeof mock.body.sameResult, 'boolean');
+    // The in-process mock answered, not the upstream
+    assert.equal(harness.mock.requests.length, mockRequests);
+
+    // Live replays skip the shared cache
+    const live = await admin(`/admin/audit/${entry.id}/replay`, { method: 'POST', body: '{"target":"live"}' });
+    assert.equal(live.body.outcome, 'success');
+    assert.equal(live.body.upstreamRequests, 1);
+    assert.equal(live.body.sameResult, true);
+    assert.equal(harness.mock.requests.length, mockRequests + 1);
+
+    // Replays aren't recorded
+    assert.equal((await admin('/admin/audit?tool=search_readwise_highlights')).body.entries.length, 2);
+  });
+
+  it('only replays writes live when asked to', async () => {
+    await client.callTool('create_highlights', { highlights: [{ text: 'Audited' }], dry_run: true });
+    const { body } = await admin('/admin/audit?tool=create_highlights');
+    const id = body.entries[0].id;
+
+    const refused = await admin(`/admin/audit/${id}/replay`, { method: 'POST', body: '{"target":"live"}' });
+    assert.equal(refused.status, 409);
+    assert.match(refused.body.error, /allowWrites/);
+    assert.equal((await admin(`/admin/audit/${id}/replay`, { method: 'POST', body: '{}' })).status, 200);
+  });
+
+  it('refuses keys that are not audit admins', async () => {
+    const { body } = await admin('/admin/audit?limit=1');
+    const id = body.entries[0].id;
+    for (const [path, init] of [['/admin/audit', {}], [`/admin/audit/${id}`, {}], [`/admin/audit/${id}/replay`, { method: 'POST', body: '{}' }]] as const) {
+      const refused = await fetchJson(`${harness.url}${path}`, OTHER_KEY, init);
+      assert.equal(refused.status, 403);
+      assert.match(refused.body.error, /only open to admins/);
+    }
+  });
+});
+
+describe('audit log access', () => {
+  it('is refused when no admins are configured', async () => {
+    const harness = await startHarness({
+      auth: { apiKeys: { laptop: API_KEY } },
+      audit: { database: ':memory:' }
+    });
+    try {
+      const { status, body } = await fetchJson(`${harness.url}/admin/audit`, API_KEY);
+      assert.equal(status, 403);
+      assert.match(body.error, /AUDIT_ADMIN_KEYS/);
+    } finally {
+      await harness.close();
+    }
+  });
+
+  it('limits other principals to their own tenant', async () => {
+    const harness = await startHarness({
+      tenants: { mode: 'header' },
+      auth: { apiKeys: { laptop: API_KEY, phone: OTHER_KEY } },
+      audit: { database: ':memory:', adminKeys: ['laptop'] }
+    });
+    try {
+      const tenants = { laptop: 'laptop-readwise-token', phone: 'phone-readwise-token' };
+      for (const [key, token] of [[API_KEY, tenants.laptop], [OTHER_KEY, tenants.phone]]) {
+        const client = new McpTestClient(harness.url, { 'X-API-Key': key, 'X-Readwise-Token': token });
+        await client.initialize();
+        await client.callTool('list_readwise_books', {});
+      }
+      const list = (key: string, token: string, query = '') =>
+        fetchJson(`${harness.url}/admin/audit${query}`, key, {}, { 'X-Readwise-Token': token });
+
+      const all = await list(API_KEY, tenants.laptop);
+      assert.equal(all.body.entries.length, 2);
+      const own = await list(OTHER_KEY, tenants.phone);
+      assert.deepEqual(own.body.entries.map((entry: any) => entry.principal), ['api_key:phone']);
+      // Asking for another tenant's entries still only gets your own
+      const laptopTenant = all.body.entries.find((entry: any) => entry.principal === 'api_key:laptop').tenantId;
+      assert.equal((await list(OTHER_KEY, tenants.phone, `?tenantId=${laptopTenant}`)).body.entries.length, 1);
+      const laptopEntry = all.body.entries.find((entry: any) => entry.principal === 'api_key:laptop').id;
+      assert.equal((await list(OTHER_KEY, tenants.phone, `/${laptopEntry}`)).status, 404);
+    } finally {
+      await harness.close();
+    }
+  });
+});
@@ -0,0 +1,94 @@
+import assert from 'node:assert/strict';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import { exportJWK, generateKeyPair, JWTPayload, KeyLike, SignJWT } from 'jose';
+import { parseConfig } from '../src/config.js';
+import { Harness, startHarness } from './helpers.js';
+
+const ISSUER = 'https://auth.example.com';
+const PUBLIC_URL = 'https://mcp.example.com';
+
+describe('OAuth', () => {
+  let harness: Harness;
+  let jwksServer: Server;
+  let privateKey: KeyLike;
+
+  before(async () => {
+    const keys = await generateKeyPair('RS256');
+    privateKey = keys.privateKey;
+    const jwk = { ...await exportJWK(keys.publicKey), kid: 'test', alg: 'RS256' };
+    jwksServer = createServer((_req, res) => {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ keys: [jwk] }));
+    });
+    await new Promise<void>(resolve => jwksServer.listen(0, '127.0.0.1', resolve));
+    const jwksUrl = `http://127.0.0.1:${(jwksServer.address() as AddressInfo).port}/jwks`;
+
+    harness = await startHarness({
+      server: { publicUrl: PUBLIC_URL },
+      auth: { oauth: { issuer: ISSUER, jwksUrl } }
+    });
+  });
+
+  after(async () => {
+    await harness.close();
+    await new Promise(resolve => jwksServer.close(resolve));
+  });
+
+  function token(claims: JWTPayload): Promise<string> {
+    return new SignJWT(claims)
+      .setProtectedHeader({ alg: 'RS256', kid: 'test' })
+      .setIssuer(ISSUER)
+      .setIssuedAt()
+      .setExpirationTime('5m')
+      .sign(privateKey);
+  }
+
+  async function status(bearer: string, scheme = 'Bearer '): Promise<{ status: number; challenge: string | null }> {
+    const response = await fetch(`${harness.url}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json', Authorization: `${scheme}${bearer}` },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "initialize",
+        params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } }
+      })
+    });
+    await response.body?.cancel();
+    return { status: response.status, challenge: response.headers.get('WWW-Authenticate') };
+  }
+
+  it('accepts tokens for the resource URL when no audience is configured', async () => {
+    assert.equal((await status(await token({ sub: 'alice', aud: `${PUBLIC_URL}/mcp` }))).status, 200);
+  });
+
+  it('parses the Bearer scheme leniently but takes only one token', async () => {
+    const valid = await token({ sub: 'alice', aud: `${PUBLIC_URL}/mcp` });
+    assert.equal((await status(valid, 'bearer   ')).status, 200);
+    assert.equal((await status(`${valid} extra`)).status, 401);
+    assert.equal((await status(valid, 'Basic ')).status, 401);
+  });
+
+  it('refuses tokens minted for other resources', async () => {
+    const refused = await status(await token({ sub: 'alice', aud: 'https://other.example.com/mcp' }));
+    assert.equal(refused.status, 401);
+    assert.match(refused.challenge!, /invalid_token/);
+    assert.equal((await status(await token({ sub: 'alice' }))).status, 401);
+  });
+
+  it('refuses tokens without a subject', async () => {
+    const refused = await status(await token({ aud: `${PUBLIC_URL}/mcp` }));
+    assert.equal(refused.status, 401);
+    assert.match(refused.challenge!, /invalid_token/);
+  });
+
+  it('needs an audience or a public URL', () => {
+    assert.throws(
+      () => parseConfig({ auth: { oauth: { issuer: ISSUER } } }),
+      /OAuth requires auth.oauth.audience or server.publicUrl/
+    );
+    assert.doesNotThrow(() => parseConfig({ auth: { oauth: { issuer: ISSUER, audience: `${PUBLIC_URL}/mcp` } } }));
+  });
+});
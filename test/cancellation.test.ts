@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { Harness, McpTestClient, sseMessages, startHarness, waitFor } from './helpers.js';
+
+// notifications/cancelled, client disconnects and notifications/progress
+
+describe('tool call cancellation and progress', () => {
+  let harness: Harness;
+  let client: McpTestClient;
+
+  before(async () => {
+    harness = await startHarness({}, { exportPageSize: 1 });
+    client = new McpTestClient(harness.url);
+    await client.initialize();
+  });
+
+  after(() => harness.close());
+
+  const cancelledCalls = async (tool: string) => {
+    const metrics = await (await fetch(`${harness.url}/metrics`)).text();
+    const match = metrics.match(new RegExp(`mcp_tool_calls_total\\{tool="${tool}",outcome="cancelled"\\} (\\d+)`));
+    return match ? Number(match[1]) : 0;
+  };
+
+  it('reports progress while paging through an export', async () => {
+    const response = await client.post({
+      jsonrpc: '2.0',
+      id: 'export-1',
+      method: 'tools/call',
+      params: { name: 'export_highlights', arguments: { max_pages: 5 }, _meta: { progressToken: 'p1' } }
+    });
+    const messages = sseMessages(await response.text());
+    const progress = messages.filter(message => message.method === 'notifications/progress');
+    assert.deepEqual(progress.map(message => [message.params.progressToken, message.params.progress, message.params.total]), [
+      ['p1', 1, 3],
+      ['p1', 2, 3],
+      ['p1', 3, 3]
+    ]);
+    assert.equal(messages.at(-1).id, 'export-1');
+  });
+
+  it('sends no progress without a progressToken', async () => {
+    const response = await client.post({
+      jsonrpc: '2.0', id: 'export-2', method: 'tools/call', params: { name: 'export_highlights', arguments: {} }
+    });
+    const messages = sseMessages(await response.text());
+    assert.deepEqual(messages.map(message => message.id), ['export-2']);
+  });
+
+  it('notifications/cancelled aborts the upstream request and drops the response', async () => {
+    harness.mock.reset();
+    harness.mock.injectFault({ path: '/api/v2/books/', delayMs: 3000 });
+    const started = Date.now();
+    const pending = client.post(
+      { jsonrpc: '2.0', id: 'slow-1', method: 'tools/call', params: { name: 'list_readwise_books', arguments: {} } },
+      { Accept: 'application/json' }
+    );
+    await waitFor(() => harness.mock.requests.some(request => request.path === '/api/v2/books/'));
+
+    const cancel = await client.post({
+      jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 'slow-1', reason: 'user gave up' }
+    });
+    assert.equal(cancel.status, 202);
+
+    const response = await pending;
+    assert.equal(response.status, 202);
+    assert.equal(await response.text(), '');
+    assert.ok(Date.now() - started < 2500);
+    assert.equal(await cancelledCalls('list_readwise_books'), 1);
+    harness.mock.clearFaults();
+  });
+
+  it('cancels a legacy streaming call when the client disconnects', async () => {
+    harness.mock.reset();
+    harness.mock.injectFault({ path: '/api/v2/export/', delayMs: 3000 });
+    const controller = new AbortController();
+    const request = fetch(`${harness.url}/mcp/stream`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'export_highlights', arguments: {} } }),
+      signal: controller.signal
+    });
+    await waitFor(() => harness.mock.requests.some(recorded => recorded.path === '/api/v2/export/'));
+    controller.abort();
+    await request.catch(() => {});
+
+    assert.equal(await waitFor(async () => await cancelledCalls('export_highlights') === 1 || undefined), true);
+    harness.mock.clearFaults();
+  });
+});
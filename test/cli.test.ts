@@ -0,0 +1,157 @@
+import assert from 'node:assert/strict';
+import { execFile } from 'node:child_process';
+import { copyFileSync, mkdirSync, mkdtempSync, rmSync, symlinkSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { PassThrough } from 'node:stream';
+import { after, before, describe, it } from 'node:test';
+import { CliIO, runCli } from '../src/cli.js';
+import { MockReadwiseServer } from '../src/mock/readwise-mock.js';
+import { TOKEN, waitFor } from './helpers.js';
+
+// The readwise-mcp commands, run in-process against the mock with captured
+// stdin, stdout and stderr
+
+interface Captured {
+  io: CliIO;
+  stdin: PassThrough;
+  stdout(): string;
+  stderr(): string;
+}
+
+function capture(env: NodeJS.ProcessEnv): Captured {
+  const stdin = new PassThrough();
+  const stdout = new PassThrough();
+  const stderr = new PassThrough();
+  let out = '';
+  let err = '';
+  stdout.on('data', chunk => out += chunk);
+  stderr.on('data', chunk => err += chunk);
+  return { io: { stdin, stdout, stderr, env }, stdin, stdout: () => out, stderr: () => err };
+}
+
+describe('readwise-mcp CLI', () => {
+  let mock: MockReadwiseServer;
+  let env: NodeJS.ProcessEnv;
+
+  before(async () => {
+    mock = new MockReadwiseServer({ tokens: [TOKEN] });
+    env = {
+      BASE_URL: await mock.listen(),
+      ACCESS_TOKEN: TOKEN,
+      UPSTREAM_MAX_RETRIES: '0',
+      UPSTREAM_CHECK_INTERVAL: '0',
+      LOG_LEVEL: 'error',
+      LOG_FORMAT: 'json'
+    };
+  });
+
+  after(() => mock.close());
+
+  it('call prints a tool result', async () => {
+    const run = capture(env);
+    const code = await runCli(['call', 'list_readwise_books', '--args', '{"category":"articles"}'], run.io);
+    assert.equal(code, 0);
+    assert.deepEqual(JSON.parse(run.stdout()).results.map((book: any) => book.id), [103]);
+  });
+
+  it('call reads arguments from stdin', async () => {
+    const run = capture(env);
+    run.stdin.end('{"book_id": 102, "format": "json"}');
+    assert.equal(await runCli(['call', 'get_book_highlights', '--args', '-'], run.io), 0);
+    assert.equal(JSON.parse(run.stdout()).count, 3);
+  });
+
+  it('call exits 2 for unknown tools and invalid arguments, 1 for tool errors', async () => {
+    const unknown = capture(env);
+    assert.equal(await runCli(['call', 'no_such_tool'], unknown.io), 2);
+    assert.match(unknown.stderr(), /Tool not found/);
+
+    assert.equal(await runCli(['call', 'get_book_highlights', '--args', '{}'], capture(env).io), 2);
+
+    const failed = capture(env);
+    assert.equal(await runCli(['call', 'get_book_highlights', '--args', '{"book_id":999}'], failed.io), 1);
+    assert.equal(JSON.parse(failed.stderr()).error.type, 'not_found');
+    assert.equal(failed.stdout(), '');
+  });
+
+  it('check reports readiness and fails for a rejected token', async () => {
+    const ok = capture(env);
+    assert.equal(await runCli(['check'], ok.io), 0);
+    assert.match(ok.stdout(), /token: pass/);
+    assert.match(ok.stdout(), /Status: ready/);
+
+    const rejected = capture(env);
+    assert.equal(await runCli(['check', '--access-token', 'wrong'], rejected.io), 1);
+    assert.match(rejected.stdout(), /token: fail \(invalid\)/);
+  });
+
+  it('check reports configuration errors', async () => {
+    const run = capture({ ...env, PORT: 'eighty' });
+    assert.equal(await runCli(['check'], run.io), 1);
+    assert.match(run.stderr(), /server\.port \(PORT \/ --port\): Expected a number/);
+  });
+
+  it('rejects unknown commands and misplaced flags', async () => {
+    assert.equal(await runCli(['launch'], capture(env).io), 2);
+    assert.equal(await runCli(['check', '--stdio'], capture(env).io), 2);
+    assert.equal(await runCli(['serve', '--http', '--stdio'], capture(env).io), 2);
+  });
+
+  it('serve --stdio speaks MCP over stdin and stdout', async () => {
+    const run = capture(env);
+    const serving = runCli(['serve', '--stdio'], run.io);
+    const messages = () => run.stdout().split('\n').filter(Boolean).map(line => JSON.parse(line));
+    const send = (message: unknown) => run.stdin.write(JSON.stringify(message) + '\n');
+
+    send({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-03-26' } });
+    const initialized = await waitFor(() => messages().find(message => message.id === 1));
+    assert.equal(initialized.result.serverInfo.name, 'Readwise MCP HTTP Server');
+
+    send({ jsonrpc: '2.0', method: 'notifications/initialized' });
+    send({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+    send({
+      jsonrpc: '2.0',
+      id: 3,
+      method: 'tools/call',
+      params: { name: 'export_highlights', arguments: {}, _meta: { progressToken: 'p' } }
+    });
+    run.stdin.write('not json\n');
+    run.stdin.end();
+    assert.equal(await serving, 0);
+
+    const all = messages();
+    assert.ok(all.find(message => message.id === 2).result.tools.some((tool: any) => tool.name === 'export_highlights'));
+    assert.equal(JSON.parse(all.find(message => message.id === 3).result.content[0].text).count, 3);
+    assert.ok(all.some(message => message.method === 'notifications/progress' && message.params.progressToken === 'p'));
+    assert.ok(all.some(message => message.error?.code === -32700));
+  });
+});
+
+// The built bin, run the way npm links it: through a symlink
+describe('installed readwise-mcp bin', () => {
+  const root = resolve(import.meta.dirname, '..');
+  let prefix: string;
+
+  before(async () => {
+    prefix = mkdtempSync(join(tmpdir(), 'readwise-mcp-bin-'));
+    await run(process.execPath, [join(root, 'node_modules/typescript/bin/tsc'), '-p', root, '--outDir', join(prefix, 'dist')]);
+    copyFileSync(join(root, 'package.json'), join(prefix, 'package.json'));
+    symlinkSync(join(root, 'node_modules'), join(prefix, 'node_modules'));
+    mkdirSync(join(prefix, 'bin'));
+    symlinkSync('../dist/cli.js', join(prefix, 'bin/readwise-mcp'));
+  });
+
+  after(() => rmSync(prefix, { recursive: true, force: true }));
+
+  function run(file: string, args: string[]): Promise<string> {
+    return new Promise((resolve, reject) => {
+      execFile(file, args, { timeout: 120_000 }, (error, stdout) => error ? reject(error) : resolve(stdout));
+    });
+  }
+
+  it('runs through its symlink', async () => {
+    const stdout = await run(process.execPath, [join(prefix, 'bin/readwise-mcp'), '--help']);
+    assert.match(stdout, /Usage: readwise-mcp <command>/);
+  });
+});
@@ -0,0 +1,173 @@
+import { AddressInfo } from 'net';
+import { parseConfig } from '../src/config.js';
+import { createServer, ReadwiseMcpHttpServer, ServerDependencies } from '../src/mcp-http-server.js';
+import { MockOptions, MockReadwiseServer } from '../src/mock/readwise-mock.js';
+
+// Starts the server against a fresh mock Readwise API, both on free ports.
+// Retries and backoff are shortened so fault tests finish quickly; overrides
+// use the config file's layout.
+
+export const TOKEN = 'test-token';
+
+export interface Harness {
+  mock: MockReadwiseServer;
+  server: ReadwiseMcpHttpServer;
+  url: string;
+  close(): Promise<void>;
+}
+
+function merge(base: any, override: any): any {
+  if (!override || typeof override !== 'object' || Array.isArray(override)) {
+    return override ?? base;
+  }
+  const merged = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = merge(base?.[key], value);
+  }
+  return merged;
+}
+
+export async function startHarness(
+  overrides: Record<string, unknown> = {},
+  mockOptions: MockOptions = {},
+  dependencies: ServerDependencies = {}
+): Promise<Harness> {
+  const mock = new MockReadwiseServer(mockOptions);
+  const mockUrl = await mock.listen();
+  const config = parseConfig(merge({
+    server: { host: '127.0.0.1', port: 0 },
+    upstream: {
+      baseUrl: mockUrl,
+      accessToken: TOKEN,
+      retry: { maxRetries: 2, baseDelay: 0.01, maxDelay: 0.05 },
+      rateLimitMaxWait: 1,
+      circuitBreaker: { threshold: 5, cooldown: 0.2 },
+      initMaxRetryDelay: 0.1,
+      checkInterval: 0
+    },
+    logging: { level: 'error', format: 'json' }
+  }, overrides));
+
+  const server = createServer(config, dependencies);
+  const httpServer = await server.start();
+  const url = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  return {
+    mock,
+    server,
+    url,
+    async close() {
+      await server.close();
+      await mock.close();
+    }
+  };
+}
+
+export async function waitFor<T>(check: () => Promise<T | undefined> | T | undefined, timeoutMs = 5000): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const value = await check();
+    if (value !== undefined && value !== false) {
+      return value;
+    }
+    await new Promise(resolve => setTimeout(resolve, 25));
+  }
+  throw new Error(`Condition not met within ${timeoutMs}ms`);
+}
+
+// A minimal Streamable HTTP client: initializes a session and sends JSON-RPC
+// messages on it
+export class McpTestClient {
+  sessionId?: string;
+  private nextId = 1;
+
+  constructor(private url: string, private headers: Record<string, string> = {}) {}
+
+  async post(body: unknown, headers: Record<string, string> = {}): Promise<Response> {
+    return fetch(`${this.url}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json, text/event-stream',
+        ...(this.sessionId && { 'Mcp-Session-Id': this.sessionId }),
+        ...this.headers,
+        ...headers
+      },
+      body: JSON.stringify(body)
+    });
+  }
+
+  async initialize(): Promise<any> {
+    const response = await this.post({
+      jsonrpc: '2.0',
+      id: this.nextId++,
+      method: 'initialize',
+      params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } }
+    }, { Accept: 'application/json' });
+    this.sessionId = response.headers.get('Mcp-Session-Id') ?? undefined;
+    const body = await response.json();
+    await this.post({ jsonrpc: '2.0', method: 'notifications/initialized' });
+    return body;
+  }
+
+  // Sends a request and returns the whole JSON-RPC response
+  async request(method: string, params?: unknown): Promise<any> {
+    const response = await this.post({ jsonrpc: '2.0', id: this.nextId++, method, params }, { Accept: 'application/json' });
+    return response.json();
+  }
+
+  async callTool(name: string, args: Record<string, unknown> = {}): Promise<any> {
+    const response = await this.request('tools/call', { name, arguments: args });
+    if (response.error) {
+      throw new Error(`${name} failed: ${response.error.message}`);
+    }
+    return response.result;
+  }
+
+  // The JSON a tool returned as its text content
+  async callToolJson(name: string, args: Record<string, unknown> = {}): Promise<any> {
+    const result = await this.callTool(name, args);
+    if (result.isError) {
+      throw new Error(`${name} returned an error: ${result.content[0].text}`);
+    }
+    return JSON.parse(result.content[0].text);
+  }
+
+  // Opens the session's standalone GET stream; `next()` resolves with each
+  // server notification in turn
+  async listen(): Promise<{ next(): Promise<any>; close(): void }> {
+    const controller = new AbortController();
+    const response = await fetch(`${this.url}/mcp`, {
+      headers: { 'Accept': 'text/event-stream', 'Mcp-Session-Id': this.sessionId!, ...this.headers },
+      signal: controller.signal
+    });
+    const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+    const messages: any[] = [];
+    let buffer = '';
+    return {
+      async next() {
+        while (messages.length === 0) {
+          const { value, done } = await reader.read();
+          if (done) {
+            throw new Error('Stream ended');
+          }
+          buffer += value;
+          const end = buffer.lastIndexOf('\n\n');
+          if (end !== -1) {
+            messages.push(...sseMessages(buffer.slice(0, end)));
+            buffer = buffer.slice(end + 2);
+          }
+        }
+        return messages.shift();
+      },
+      close: () => controller.abort()
+    };
+  }
+}
+
+// Parses an SSE body into the JSON payloads of its events
+export function sseMessages(body: string): any[] {
+  return body.split('\n\n')
+    .map(event => event.split('\n').filter(line => line.startsWith('data:')).map(line => line.slice(5).trim()).join('\n'))
+    .filter(Boolean)
+    .map(data => JSON.parse(data));
+}
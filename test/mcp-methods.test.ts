@@ -0,0 +1,337 @@
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import express from 'express';
+import { parseConfig } from '../src/config.js';
+import { createServer } from '../src/mcp-http-server.js';
+import { MockReadwiseServer } from '../src/mock/readwise-mock.js';
+import { DebugLogger } from '../src/debug-logger.js';
+import { ResourceContext, ResourceSubscriptions } from '../src/resources/index.js';
+import { EventStore, SessionManager } from '../src/streamable-http.js';
+import { createReadwiseClient } from '../src/upstream.js';
+import { Harness, McpTestClient, sseMessages, startHarness, TOKEN, waitFor } from './helpers.js';
+
+describe('MCP methods', () => {
+  let harness: Harness;
+  let client: McpTestClient;
+
+  before(async () => {
+    harness = await startHarness();
+    client = new McpTestClient(harness.url);
+    await client.initialize();
+  });
+
+  after(() => harness.close());
+
+  it('initialize negotiates the protocol version and opens a session', async () => {
+    const fresh = new McpTestClient(harness.url);
+    const response = await fresh.initialize();
+    assert.equal(response.result.protocolVersion, '2025-03-26');
+    assert.equal(response.result.serverInfo.name, 'Readwise MCP HTTP Server');
+    assert.equal(response.result.capabilities.resources.subscribe, true);
+    assert.ok(fresh.sessionId);
+  });
+
+  it('initialize falls back to the latest version for unknown ones', async () => {
+    const response = await new McpTestClient(harness.url).post({
+      jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '1999-01-01' }
+    }, { Accept: 'application/json' });
+    assert.equal((await response.json()).result.protocolVersion, '2025-06-18');
+  });
+
+  it('rejects requests without or with an unknown session', async () => {
+    const anonymous = new McpTestClient(harness.url);
+    assert.equal((await anonymous.post({ jsonrpc: '2.0', id: 1, method: 'ping' })).status, 400);
+    anonymous.sessionId = 'no-such-session';
+    assert.equal((await anonymous.post({ jsonrpc: '2.0', id: 1, method: 'ping' })).status, 404);
+  });
+
+  it('ping', async () => {
+    assert.deepEqual((await client.request('ping')).result, {});
+  });
+
+  it('tools/list lists every tool with a schema', async () => {
+    const { result } = await client.request('tools/list');
+    const names = result.tools.map((tool: any) => tool.name).sort();
+    assert.deepEqual(names, [
+      'add_highlight_tag',
+      'create_highlights',
+      'export_highlights',
+      'export_highlights_as',
+      'get_book_highlights',
+      'get_daily_review',
+      'list_reader_documents',
+      'list_readwise_books',
+      'random_highlights',
+      'remove_highlight_tag',
+      'save_reader_document',
+      'search_readwise_highlights',
+      'update_highlight_note',
+      'update_reader_document'
+    ]);
+    for (const tool of result.tools) {
+      assert.equal(tool.inputSchema.type, 'object', tool.name);
+    }
+  });
+
+  it('tools/call rejects unknown tools and invalid arguments', async () => {
+    assert.equal((await client.request('tools/call', { name: 'no_such_tool', arguments: {} })).error.code, -32601);
+    const invalid = await client.request('tools/call', { name: 'get_book_highlights', arguments: { book_id: 'x' } });
+    assert.equal(invalid.error.code, -32602);
+  });
+
+  it('resources/list lists books', async () => {
+    const { result } = await client.request('resources/list');
+    assert.deepEqual(result.resources.map((resource: any) => resource.uri), [
+      'readwise://book/101',
+      'readwise://book/102',
+      'readwise://book/103'
+    ]);
+  });
+
+  it('resources/templates/list', async () => {
+    const { result } = await client.request('resources/templates/list');
+    assert.deepEqual(result.resourceTemplates.map((template: any) => template.uriTemplate).sort(), [
+      'readwise://book/{id}',
+      'readwise://highlight/{id}',
+      'readwise://tag/{name}'
+    ]);
+  });
+
+  it('resources/read renders books, highlights and tags', async () => {
+    const book = await client.request('resources/read', { uri: 'readwise://book/102' });
+    assert.match(book.result.contents[0].text, /Don't live with broken windows/);
+
+    const highlight = await client.request('resources/read', { uri: 'readwise://highlight/1003' });
+    assert.match(highlight.result.contents[0].text, /broken windows/);
+
+    const tag = await client.request('resources/read', { uri: 'readwise://tag/writing' });
+    assert.match(tag.result.contents[0].text, /conclusion first/);
+  });
+
+  it('resources/read reports unknown resources', async () => {
+    const missing = await client.request('resources/read', { uri: 'readwise://book/999' });
+    assert.ok(missing.error);
+    const unsupported = await client.request('resources/read', { uri: 'https://example.com/' });
+    assert.ok(unsupported.error);
+    const malformed = await client.request('resources/read', { uri: 'readwise://tag/%E0' });
+    assert.equal(malformed.error.code, -32002);
+  });
+
+  it('resources/subscribe and resources/unsubscribe', async () => {
+    assert.deepEqual((await client.request('resources/subscribe', { uri: 'readwise://book/101' })).result, {});
+    assert.deepEqual((await client.request('resources/unsubscribe', { uri: 'readwise://book/101' })).result, {});
+
+    // The legacy streaming endpoint has no session to notify
+    const response = await fetch(`${harness.url}/mcp/stream`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'resources/subscribe', params: { uri: 'readwise://book/101' } })
+    });
+    assert.equal(JSON.parse(await response.text()).error.code, -32600);
+  });
+
+  it('prompts/list and prompts/get', async () => {
+    const { result } = await client.request('prompts/list');
+    assert.deepEqual(result.prompts.map((prompt: any) => prompt.name).sort(), [
+      'essay_outline',
+      'synthesize_highlights',
+      'weekly_review'
+    ]);
+
+    const prompt = await client.request('prompts/get', { name: 'synthesize_highlights', arguments: { topic: 'attention' } });
+    assert.ok(prompt.result.messages.length > 0);
+
+    const missingArgument = await client.request('prompts/get', { name: 'synthesize_highlights', arguments: {} });
+    assert.equal(missingArgument.error.code, -32602);
+  });
+
+  it('notifications/list', async () => {
+    assert.deepEqual((await client.request('notifications/list')).result, { notifications: [] });
+  });
+
+  it('unknown methods are reported as method not found', async () => {
+    assert.equal((await client.request('no/such/method')).error.code, -32601);
+  });
+
+  it('notifications get 202 without a body', async () => {
+    const response = await client.post({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 99 } });
+    assert.equal(response.status, 202);
+    assert.equal(await response.text(), '');
+  });
+
+  it('answers batches with an array of responses', async () => {
+    const response = await client.post([
+      { jsonrpc: '2.0', id: 'a', method: 'ping' },
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+      { jsonrpc: '2.0', id: 'b', method: 'prompts/list' }
+    ], { Accept: 'application/json' });
+    const body = await response.json();
+    assert.deepEqual(body.map((message: any) => message.id), ['a', 'b']);
+  });
+
+  it('rejects empty batches and batched initialize', async () => {
+    assert.equal((await client.post([])).status, 400);
+    const batched = await client.post([{ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} }]);
+    assert.equal(batched.status, 400);
+  });
+
+  it('streams responses as SSE when the client accepts it', async () => {
+    const response = await client.post({ jsonrpc: '2.0', id: 7, method: 'ping' });
+    assert.match(response.headers.get('Content-Type') ?? '', /text\/event-stream/);
+    assert.deepEqual(sseMessages(await response.text()), [{ jsonrpc: '2.0', id: 7, result: {} }]);
+  });
+
+  it('GET /mcp opens the standalone SSE stream once per session', async () => {
+    const headers = { 'Accept': 'text/event-stream', 'Mcp-Session-Id': client.sessionId! };
+    assert.equal((await fetch(`${harness.url}/mcp`, { headers: { 'Mcp-Session-Id': client.sessionId! } })).status, 406);
+
+    const controller = new AbortController();
+    const stream = await fetch(`${harness.url}/mcp`, { headers, signal: controller.signal });
+    assert.equal(stream.status, 200);
+    assert.equal((await fetch(`${harness.url}/mcp`, { headers })).status, 409);
+    controller.abort();
+  });
+
+  it('the legacy /mcp/stream endpoint streams a tool call as NDJSON', async () => {
+    const response = await fetch(`${harness.url}/mcp/stream`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'tools/call',
+        params: { name: 'list_readwise_books', arguments: {} }
+      })
+    });
+    assert.equal(response.headers.get('Deprecation'), 'true');
+    const lines = (await response.text()).split('\n').filter(Boolean).map(line => JSON.parse(line));
+    assert.equal(lines.length, 1);
+    assert.equal(JSON.parse(lines[0].result.content[0].text).count, 3);
+  });
+
+  it('DELETE /mcp ends the session', async () => {
+    const session = new McpTestClient(harness.url);
+    await session.initialize();
+    const headers = { 'Mcp-Session-Id': session.sessionId! };
+    assert.equal((await fetch(`${harness.url}/mcp`, { method: 'DELETE', headers })).status, 204);
+    assert.equal((await session.post({ jsonrpc: '2.0', id: 1, method: 'ping' })).status, 404);
+  });
+
+  it('serves info, health and metrics', async () => {
+    const info = await (await fetch(`${harness.url}/mcp/info`)).json();
+    assert.ok(info);
+
+    assert.equal((await fetch(`${harness.url}/health/live`)).status, 200);
+    const ready = await waitFor(async () => {
+      const response = await fetch(`${harness.url}/health/ready`);
+      return response.status === 200 ? response.json() : undefined;
+    });
+    assert.equal(ready.status, 'ready');
+
+    const metrics = await (await fetch(`${harness.url}/metrics`)).text();
+    assert.match(metrics, /mcp_rpc_requests_total\{method="ping"/);
+  });
+});
+
+describe('embedding', () => {
+  it('mounts in another Express app with an injected upstream client', async () => {
+    const mock = new MockReadwiseServer();
+    const mockUrl = await mock.listen();
+    const tokens: Array<string | undefined> = [];
+    const server = createServer(
+      parseConfig({ upstream: { accessToken: TOKEN }, logging: { level: 'error', format: 'json' } }),
+      {
+        createClient: (token, options, logger) => {
+          tokens.push(token);
+          return createReadwiseClient(token, { ...options, baseURL: mockUrl }, logger);
+        }
+      }
+    );
+
+    const host = express();
+    host.use('/readwise', server.app);
+    const listener = host.listen(0, '127.0.0.1');
+    await new Promise(resolve => listener.once('listening', resolve));
+    try {
+      const client = new McpTestClient(`http://127.0.0.1:${(listener.address() as AddressInfo).port}/readwise`);
+      await client.initialize();
+      assert.equal((await client.callToolJson('list_readwise_books')).count, 3);
+      assert.ok(tokens.includes(TOKEN));
+    } finally {
+      await server.close();
+      listener.closeAllConnections();
+      await new Promise(resolve => listener.close(resolve));
+      await mock.close();
+    }
+  });
+});
+
+describe('header tenant mode', () => {
+  it('keeps a session on the Readwise account it was initialized with', async () => {
+    const harness = await startHarness({ tenants: { mode: 'header' } });
+    try {
+      const client = new McpTestClient(harness.url, { 'X-Readwise-Token': 'first-account-token' });
+      await client.initialize();
+      assert.ok((await client.request('tools/list')).result);
+
+      const response = await client.post(
+        { jsonrpc: '2.0', id: 99, method: 'tools/list' },
+        { Accept: 'application/json', 'X-Readwise-Token': 'second-account-token' }
+      );
+      assert.equal(response.status, 403);
+      assert.match((await response.json()).error.message, /another Readwise account/);
+    } finally {
+      await harness.close();
+    }
+  });
+});
+
+describe('EventStore', () => {
+  it('keeps only the most recently used streams', () => {
+    const store = new EventStore(100, 2);
+    const ping = { jsonrpc: '2.0' as const, method: 'notifications/message' };
+    const first = store.store('a', ping);
+    store.store('b', ping);
+    store.store('a', ping);
+    store.store('c', ping);
+
+    assert.equal(store.size, 2);
+    assert.equal(store.replayAfter('b_0'), undefined);
+    assert.equal(store.replayAfter(first)!.events.length, 1);
+    // IDs never repeat, even for a stream that was evicted
+    assert.equal(store.store('b', ping), 'b_5');
+  });
+});
+
+describe('ResourceSubscriptions', () => {
+  const logger = new DebugLogger({ level: 'error', format: 'json' });
+
+  it('shares one subscription between concurrent subscribers and drops them with their sessions', async () => {
+    const sessions = new SessionManager(logger, 60000);
+    const subscriptions = new ResourceSubscriptions(sessions, logger, 60000);
+    const context = {
+      tenantId: 'default',
+      axios: { get: async () => { throw new Error('Readwise is down'); } }
+    } as unknown as ResourceContext;
+    try {
+      const first = sessions.create('2025-03-26');
+      const second = sessions.create('2025-03-26');
+      // A failed baseline doesn't fail the subscribe
+      await Promise.all([
+        subscriptions.subscribe('readwise://book/101', first.id, context),
+        subscriptions.subscribe('readwise://book/101', second.id, context)
+      ]);
+      assert.equal(subscriptions.size, 1);
+
+      // The first subscriber is still there once the second has gone
+      sessions.delete(second.id);
+      assert.equal(subscriptions.size, 1);
+      sessions.delete(first.id);
+      assert.equal(subscriptions.size, 0);
+    } finally {
+      subscriptions.stop();
+      sessions.closeAll();
+    }
+  });
+});
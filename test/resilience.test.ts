@@ -0,0 +1,166 @@
+import assert from 'node:assert/strict';
+import { after, afterEach, before, describe, it } from 'node:test';
+import { Harness, McpTestClient, startHarness, waitFor } from './helpers.js';
+
+// Upstream failures injected into the mock, and how they reach the client
+
+function toolError(result: any) {
+  assert.equal(result.isError, true);
+  return JSON.parse(result.content[0].text).error;
+}
+
+describe('upstream failures', () => {
+  let harness: Harness;
+  let client: McpTestClient;
+
+  before(async () => {
+    harness = await startHarness({ upstream: { timeout: 0.3, circuitBreaker: { threshold: 50 } } });
+    client = new McpTestClient(harness.url);
+    await client.initialize();
+  });
+
+  afterEach(() => harness.mock.clearFaults());
+
+  after(() => harness.close());
+
+  const bookRequests = () => harness.mock.requests.filter(request => request.path === '/api/v2/books/').length;
+
+  it('retries transient failures of reads', async () => {
+    harness.mock.injectFault({ path: '/api/v2/books/', status: 503, times: 2 });
+    const before = bookRequests();
+    const result = await client.callToolJson('list_readwise_books');
+    assert.equal(result.count, 3);
+    assert.equal(bookRequests() - before, 3);
+  });
+
+  it('reports an outage once retries run out', async () => {
+    harness.mock.injectFault({ path: '/api/v2/books/', status: 502 });
+    const error = toolError(await client.callTool('list_readwise_books'));
+    assert.equal(error.type, 'unavailable');
+    assert.equal(error.retryable, true);
+    assert.equal(error.upstream_status, 502);
+  });
+
+  it('never retries writes that may have been applied', async () => {
+    harness.mock.injectFault({ method: 'PATCH', path: '/api/v2/highlights/', status: 503 });
+    const before = harness.mock.requests.filter(request => request.method === 'PATCH').length;
+    toolError(await client.callTool('update_highlight_note', { highlight_id: 1001, note: 'x' }));
+    assert.equal(harness.mock.requests.filter(request => request.method === 'PATCH').length - before, 1);
+  });
+
+  it('passes on rate limits and holds back further calls until Retry-After', async () => {
+    harness.mock.injectFault({ path: '/api/v3/list/', status: 429, headers: { 'Retry-After': '30' }, times: 1 });
+    const error = toolError(await client.callTool('list_reader_documents'));
+    assert.equal(error.type, 'rate_limited');
+    assert.equal(error.retry_after_seconds, 30);
+
+    const before = harness.mock.requests.length;
+    assert.equal(toolError(await client.callTool('list_reader_documents')).type, 'rate_limited');
+    assert.equal(harness.mock.requests.length, before);
+  });
+
+  it('classifies timeouts, dropped connections and missing items', async () => {
+    harness.mock.injectFault({ path: '/api/v2/books/102/', delayMs: 1000 });
+    assert.equal(toolError(await client.callTool('get_book_highlights', { book_id: 102 })).type, 'timeout');
+    harness.mock.clearFaults();
+
+    harness.mock.injectFault({ path: '/api/v2/books/102/', networkError: true });
+    assert.equal(toolError(await client.callTool('get_book_highlights', { book_id: 102 })).type, 'unavailable');
+
+    assert.equal(toolError(await client.callTool('update_highlight_note', { highlight_id: 999, note: '' })).type, 'not_found');
+  });
+
+  it('returns invalid requests with the upstream explanation', async () => {
+    harness.mock.injectFault({ path: '/api/v3/save/', status: 400, body: { url: ["Enter a valid URL."] } });
+    const error = toolError(await client.callTool('save_reader_document', { url: 'https://example.com/x' }));
+    assert.equal(error.type, 'validation');
+    assert.match(error.upstream_message, /valid URL/);
+  });
+
+  it('forwards the request ID upstream', async () => {
+    await client.post(
+      { jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'list_readwise_books', arguments: {} } },
+      { 'Accept': 'application/json', 'X-Request-ID': 'trace-123' }
+    );
+    const forwarded = harness.mock.requests.filter(request => request.requestId === 'trace-123');
+    assert.deepEqual(forwarded.map(request => request.path), ['/api/v2/books/']);
+  });
+});
+
+describe('circuit breaker', () => {
+  let harness: Harness;
+  let client: McpTestClient;
+
+  before(async () => {
+    harness = await startHarness({ upstream: { retry: { maxRetries: 0 }, circuitBreaker: { threshold: 2, cooldown: 0.3 } } });
+    client = new McpTestClient(harness.url);
+    await client.initialize();
+  });
+
+  after(() => harness.close());
+
+  it('opens after repeated failures, fails fast and recovers', async () => {
+    harness.mock.injectFault({ path: '/api/v2/books/', status: 500 });
+    toolError(await client.callTool('list_readwise_books'));
+    toolError(await client.callTool('list_readwise_books'));
+
+    const before = harness.mock.requests.length;
+    const error = toolError(await client.callTool('list_reader_documents'));
+    assert.equal(error.type, 'unavailable');
+    assert.equal(harness.mock.requests.length, before);
+
+    const ready = await (await fetch(`${harness.url}/health/ready`)).json();
+    assert.equal(ready.components.circuitBreaker.status, 'fail');
+
+    harness.mock.clearFaults();
+    await new Promise(resolve => setTimeout(resolve, 350));
+    assert.equal((await client.callToolJson('list_readwise_books')).count, 3);
+    const recovered = await (await fetch(`${harness.url}/health/ready`)).json();
+    assert.equal(recovered.components.circuitBreaker.status, 'pass');
+  });
+});
+
+describe('rejected access token', () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await startHarness({}, { tokens: ['some-other-token'] });
+  });
+
+  after(() => harness.close());
+
+  it('makes the server not ready and fails initialize with an auth error', async () => {
+    const report = await waitFor(async () => {
+      const response = await fetch(`${harness.url}/health/ready`);
+      const body = await response.json();
+      return body.components.token.state === 'invalid' ? { status: response.status, body } : undefined;
+    });
+    assert.equal(report.status, 503);
+    assert.equal(report.body.status, 'not_ready');
+
+    const response = await new McpTestClient(harness.url).initialize();
+    assert.equal(response.error.data.type, 'auth');
+  });
+});
+
+describe('upstream down at startup', () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await startHarness(
+      { upstream: { retry: { maxRetries: 0 } } },
+      { faults: [{ path: '/api/mcp/initialize', status: 503, times: 2 }] }
+    );
+  });
+
+  after(() => harness.close());
+
+  it('keeps retrying initialization in the background', async () => {
+    const ready = await waitFor(async () => {
+      const response = await fetch(`${harness.url}/health/ready`);
+      return response.status === 200 ? response.json() : undefined;
+    });
+    assert.equal(ready.components.upstream.status, 'pass');
+    assert.equal(ready.components.upstream.attempts, 3);
+  });
+});
@@ -0,0 +1,455 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { DebugLogger } from '../src/debug-logger.js';
+import { renderExport } from '../src/export/render.js';
+import { csvTemplate, exportTemplateSchema } from '../src/export/templates.js';
+import { ResurfacingHistory } from '../src/resurfacing-history.js';
+import { Harness, McpTestClient, startHarness, waitFor } from './helpers.js';
+
+describe('tools', () => {
+  let harness: Harness;
+  let client: McpTestClient;
+
+  before(async () => {
+    harness = await startHarness({}, { exportPageSize: 2, listPageSize: 1 });
+    client = new McpTestClient(harness.url);
+    await client.initialize();
+  });
+
+  after(() => harness.close());
+
+  describe('search_readwise_highlights', () => {
+    it('returns structured results and removes duplicates', async () => {
+      const result = await client.callTool('search_readwise_highlights', {
+        vector_search_term: 'thinking important',
+        full_text_queries: []
+      });
+      const page = result.structuredContent;
+      assert.equal(page.total, 2);
+      assert.equal(page.duplicates_removed, 1);
+      assert.equal(page.results[0].id, 1001);
+      assert.equal(page.results[0].title, 'Thinking, Fast and Slow');
+      assert.match(result.content[0].text, /Nothing in life is as important/);
+    });
+
+    it('applies full-text queries', async () => {
+      const page = await client.callToolJson('search_readwise_highlights', {
+        vector_search_term: '',
+        full_text_queries: [{ field_name: 'highlight_tags', search_term: 'favorite' }],
+        format: 'json'
+      });
+      assert.deepEqual(page.results.map((highlight: any) => highlight.id), [1001, 1003]);
+    });
+
+    it('pages with limit and offset', async () => {
+      const page = await client.callToolJson('search_readwise_highlights', {
+        vector_search_term: 'software craft windows',
+        full_text_queries: [],
+        limit: 1,
+        offset: 1,
+        format: 'json'
+      });
+      assert.equal(page.count, 1);
+      assert.equal(page.offset, 1);
+    });
+
+    it('caches identical searches', async () => {
+      const args = { vector_search_term: 'cached  query', full_text_queries: [] };
+      await client.callTool('search_readwise_highlights', args);
+      await client.callTool('search_readwise_highlights', { ...args, vector_search_term: 'cached query' });
+      const searches = harness.mock.requests.filter(request =>
+        request.path === '/api/mcp/highlights' && (request.body as any).vector_search_term === 'cached query');
+      assert.equal(searches.length, 1);
+    });
+  });
+
+  it('list_readwise_books filters and pages', async () => {
+    const all = await client.callToolJson('list_readwise_books');
+    assert.equal(all.count, 3);
+
+    const articles = await client.callToolJson('list_readwise_books', { category: 'articles' });
+    assert.deepEqual(articles.results.map((book: any) => book.id), [103]);
+
+    const firstPage = await client.callToolJson('list_readwise_books', { page_size: 2 });
+    assert.equal(firstPage.results.length, 2);
+    assert.equal(firstPage.next_page, 2);
+  });
+
+  it('get_book_highlights returns every highlight of a book', async () => {
+    const page = await client.callToolJson('get_book_highlights', { book_id: 102, format: 'json' });
+    assert.equal(page.book_id, 102);
+    assert.equal(page.complete, true);
+    assert.deepEqual(page.results.map((highlight: any) => highlight.id).sort(), [1003, 1004, 1005]);
+    assert.equal(page.results[0].author, 'Andrew Hunt and David Thomas');
+  });
+
+  it('get_book_highlights reports unknown books as tool errors', async () => {
+    const result = await client.callTool('get_book_highlights', { book_id: 999 });
+    assert.equal(result.isError, true);
+  });
+
+  it('export_highlights follows and returns export cursors', async () => {
+    const first = await client.callToolJson('export_highlights', { max_pages: 1 });
+    assert.equal(first.count, 2);
+    assert.ok(first.next_page_cursor);
+
+    const rest = await client.callToolJson('export_highlights', { page_cursor: first.next_page_cursor });
+    assert.equal(rest.count, 1);
+    assert.equal(rest.next_page_cursor, null);
+
+    const filtered = await client.callToolJson('export_highlights', { book_ids: [101], updated_after: '2024-03-01' });
+    assert.deepEqual(filtered.results[0].highlights.map((highlight: any) => highlight.id), [1001]);
+  });
+
+  it('get_daily_review returns the review with its link', async () => {
+    const review = await client.callToolJson('get_daily_review', { format: 'json' });
+    assert.equal(review.review_id, 1);
+    assert.equal(review.review_url, 'https://readwise.io/reviews/1');
+    assert.equal(review.review_completed, false);
+    assert.equal(review.results[0].title, 'Thinking, Fast and Slow');
+    assert.equal(review.count, 5);
+  });
+
+  it('list_reader_documents filters and pages', async () => {
+    const later = await client.callToolJson('list_reader_documents', { location: 'later' });
+    assert.deepEqual(later.results.map((document: any) => document.title), ['Notes on Deep Work']);
+
+    const all = await client.callToolJson('list_reader_documents', { max_pages: 5 });
+    assert.equal(all.count, 2);
+    assert.equal(all.next_page_cursor, null);
+  });
+
+  it('save_reader_document saves new URLs and reports existing ones', async () => {
+    const saved = await client.callToolJson('save_reader_document', { url: 'https://example.com/new-post', location: 'later' });
+    assert.equal(saved.already_existed, false);
+    assert.ok(harness.mock.fixtures.documents.some(document => document.id === saved.id));
+
+    const again = await client.callToolJson('save_reader_document', { url: 'https://example.com/new-post' });
+    assert.equal(again.already_existed, true);
+    assert.equal(again.id, saved.id);
+  });
+
+  it('update_reader_document moves documents and needs a change', async () => {
+    const updated = await client.callToolJson('update_reader_document', {
+      document_id: '01hdoc0000000000000000002',
+      location: 'archive'
+    });
+    assert.equal(updated.location, 'archive');
+
+    const empty = await client.callTool('update_reader_document', { document_id: '01hdoc0000000000000000002' });
+    assert.equal(empty.isError, true);
+  });
+
+  it('create_highlights groups highlights into books', async () => {
+    const books = await client.callToolJson('create_highlights', {
+      highlights: [
+        { text: 'First new highlight', title: 'A New Book', author: 'New Author' },
+        { text: 'Second new highlight', title: 'A New Book', author: 'New Author', note: 'a note' }
+      ]
+    });
+    assert.equal(books.length, 1);
+    assert.equal(books[0].modified_highlights.length, 2);
+    assert.equal(harness.mock.fixtures.books.find(book => book.title === 'A New Book')?.id, books[0].id);
+  });
+
+  it('update_highlight_note replaces the note', async () => {
+    const args = { vector_search_term: 'before the write', full_text_queries: [] };
+    const searches = () => harness.mock.requests.filter(request =>
+      request.path === '/api/mcp/highlights' && (request.body as any).vector_search_term === 'before the write').length;
+    await client.callTool('search_readwise_highlights', args);
+
+    const highlight = await client.callToolJson('update_highlight_note', { highlight_id: 1002, note: 'Repetition breeds belief' });
+    assert.equal(highlight.note, 'Repetition breeds belief');
+
+    // Writes drop cached responses
+    await client.callTool('search_readwise_highlights', args);
+    assert.equal(searches(), 2);
+  });
+
+  it('add_highlight_tag and remove_highlight_tag', async () => {
+    const tag = await client.callToolJson('add_highlight_tag', { highlight_id: 1004, tag: 'craft' });
+    assert.equal(tag.name, 'craft');
+
+    const removed = await client.callToolJson('remove_highlight_tag', { highlight_id: 1004, tag: 'craft' });
+    assert.deepEqual(removed, { removed: true, highlight_id: 1004, tag: 'craft' });
+    assert.deepEqual(harness.mock.fixtures.highlights.find(highlight => highlight.id === 1004)?.tags, []);
+
+    const missing = await client.callTool('remove_highlight_tag', { highlight_id: 1004, tag: 'craft' });
+    assert.equal(missing.isError, true);
+  });
+
+  it('dry_run previews writes without sending them', async () => {
+    const before = harness.mock.requests.length;
+    const preview = await client.callToolJson('update_highlight_note', { highlight_id: 1001, note: 'changed', dry_run: true });
+    assert.equal(preview.dry_run, true);
+    assert.equal(preview.request.method, 'PATCH');
+    assert.equal(preview.request.headers['X-Access-Token'], '[REDACTED]');
+    assert.deepEqual(preview.request.body, { note: 'changed' });
+    assert.equal(harness.mock.requests.length, before);
+    assert.equal(harness.mock.fixtures.highlights.find(highlight => highlight.id === 1001)?.note, 'The focusing illusion');
+  });
+});
+
+describe('random_highlights', () => {
+  let harness: Harness;
+  let client: McpTestClient;
+  let directory: string;
+
+  before(async () => {
+    directory = mkdtempSync(join(tmpdir(), 'readwise-history-'));
+    harness = await startHarness({ resurfacing: { historyFile: join(directory, 'history.json') } });
+    client = new McpTestClient(harness.url);
+    await client.initialize();
+  });
+
+  after(async () => {
+    await harness.close();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  const ids = (page: any) => page.results.map((highlight: any) => highlight.id).sort();
+
+  it('avoids highlights the daily review just showed', async () => {
+    await client.callToolJson('get_daily_review', { format: 'json' });
+    const page = await client.callToolJson('random_highlights', { count: 1, format: 'json' });
+    assert.deepEqual(ids(page), [1006]);
+    assert.equal(page.total, 6);
+    assert.equal(page.duplicates_removed, 1);
+    assert.equal(page.source, 'readwise');
+  });
+
+  it('brings back the least recently shown once everything has been shown', async () => {
+    const page = await client.callToolJson('random_highlights', { count: 3, format: 'json' });
+    assert.equal(page.count, 3);
+    assert.ok(page.results.every((highlight: any) => highlight.id !== 1006 && highlight.last_shown_at));
+  });
+
+  it('filters by tag, book and category', async () => {
+    const tagged = await client.callToolJson('random_highlights', { tag: 'Favorite', count: 10, avoid_repeats: false, format: 'json' });
+    assert.deepEqual(ids(tagged), [1001, 1003]);
+
+    const book = await client.callToolJson('random_highlights', { book_id: 102, count: 10, format: 'json' });
+    assert.deepEqual(ids(book), [1003, 1004, 1005]);
+
+    const articles = await client.callToolJson('random_highlights', { category: 'articles', count: 10, format: 'json' });
+    assert.deepEqual(ids(articles), [1006, 1007]);
+  });
+
+  it('keeps the history in the configured file', async () => {
+    const saved = await waitFor(() => {
+      try {
+        return JSON.parse(readFileSync(join(directory, 'history.json'), 'utf8'));
+      } catch {
+        return undefined;
+      }
+    });
+    assert.ok(saved.tenants.default['1006']);
+  });
+
+  it('starts afresh from a history file of the wrong shape', () => {
+    const file = join(directory, 'broken.json');
+    writeFileSync(file, JSON.stringify({ version: 1, tenants: { default: { 1001: 'yesterday' } } }));
+    const history = new ResurfacingHistory(
+      { maxEntries: 10, cooldownMs: 0, file },
+      new DebugLogger({ level: 'error', format: 'json' })
+    );
+    assert.equal(history.stats().entries, 0);
+  });
+});
+
+describe('export_highlights_as', () => {
+  let harness: Harness;
+  let client: McpTestClient;
+  let directory: string;
+
+  before(async () => {
+    directory = mkdtempSync(join(tmpdir(), 'readwise-templates-'));
+    writeFileSync(join(directory, 'list.json'), JSON.stringify({
+      name: 'list',
+      kind: 'markdown',
+      header: '{{title}}\n',
+      highlight: '- {{text}}{{#note}} ({{note}}){{/note}}\n'
+    }));
+    harness = await startHarness({ export: { templatesDir: directory } });
+    client = new McpTestClient(harness.url);
+    await client.initialize();
+  });
+
+  after(async () => {
+    await harness.close();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('renders a book as an Obsidian note', async () => {
+    const result = await client.callTool('export_highlights_as', { book_id: 101 });
+    const [note] = result.content;
+    assert.match(note.text, /^---\ntitle: Thinking, Fast and Slow\nsource: readwise\nexport: book\nquery: "101"\n/);
+    assert.match(note.text, /\n## Thinking, Fast and Slow\n\n\*Daniel Kahneman\*\n/);
+    assert.match(note.text, /> Nothing in life .*\n\n\^rw-1001\n\n\*\*Note:\*\* The focusing illusion\n\n#favorite #attention\n/);
+    assert.equal(result.structuredContent.filename, 'readwise-book-101.md');
+    assert.equal(result.structuredContent.highlights, 2);
+    assert.equal(result.structuredContent.truncated, false);
+  });
+
+  it('exports search results as JSONL and tags as CSV', async () => {
+    const jsonl = await client.callTool('export_highlights_as', {
+      search: { vector_search_term: 'nothing life', full_text_queries: [] },
+      format: 'jsonl'
+    });
+    const lines = jsonl.content[0].text.trim().split('\n').map((line: string) => JSON.parse(line));
+    assert.deepEqual(lines.map((highlight: any) => highlight.id), [1001, 1007, 1004]);
+    assert.equal(jsonl.structuredContent.mime_type, 'application/x-ndjson; charset=utf-8');
+
+    const csv = await client.callTool('export_highlights_as', { tag: 'Favorite', format: 'csv' });
+    const rows = csv.content[0].text.split('\r\n');
+    assert.equal(rows[0], 'id,text,note,tags,title,author,location,url,highlighted_at,book_id');
+    assert.match(rows[1], /^1001,"Nothing in life .*",The focusing illusion,"favorite, attention",/);
+    assert.match(rows[2], /^1003,/);
+  });
+
+  it('keeps spreadsheets from evaluating CSV cells as formulas', async () => {
+    const highlight = {
+      id: 1, text: '=HYPERLINK("https://example.com","click")', note: '@SUM(A1)', tags: ['-2+3'],
+      title: '+cmd', author: null, location: -1, url: null, highlighted_at: null, book_id: 1
+    };
+    async function* batches() {
+      yield [highlight];
+    }
+    let text = '';
+    const document = { title: 'Test', source: 'search' as const, query: 'test', exported_at: '' };
+    for await (const chunk of renderExport(exportTemplateSchema.parse(csvTemplate), document, batches())) {
+      text += chunk.text;
+    }
+    assert.equal(text.split('\r\n')[1], `1,"'=HYPERLINK(""https://example.com"",""click"")",'@SUM(A1),'-2+3,'+cmd,,-1,,,1`);
+  });
+
+  it('uses templates from EXPORT_TEMPLATES_DIR', async () => {
+    const result = await client.callTool('export_highlights_as', { book_id: 102, format: 'list', title: 'Pragmatic' });
+    assert.equal(result.content[0].text.split('\n')[0], 'Pragmatic');
+    assert.match(result.content[0].text, /\n- Don't live with broken windows\. \(Fix small problems before they spread\)\n/);
+    assert.equal(result.structuredContent.filename, 'pragmatic.md');
+  });
+
+  it('rejects requests without exactly one source or with an unknown format', async () => {
+    const none = await client.callTool('export_highlights_as', {});
+    assert.equal(none.isError, true);
+    const unknown = await client.callTool('export_highlights_as', { tag: 'favorite', format: 'docx' });
+    assert.match(unknown.content[0].text, /Unknown export format docx; available: obsidian, jsonl, csv, list/);
+  });
+
+  it('cuts long exports short and links to GET /export', async () => {
+    const small = await startHarness({ export: { inlineLimit: 300 } });
+    try {
+      const smallClient = new McpTestClient(small.url);
+      await smallClient.initialize();
+      const result = await smallClient.callTool('export_highlights_as', { book_id: 102, format: 'jsonl' });
+      assert.equal(result.structuredContent.truncated, true);
+      // As many whole highlights as fit, not whole pages of them
+      assert.equal(result.structuredContent.highlights, 1);
+      assert.equal(JSON.parse(result.content[0].text).book_id, 102);
+      assert.match(result.content[1].text, /The complete export is at \/export\?book_id=102&format=jsonl&max_pages=10/);
+
+      const response = await fetch(`${small.url}${result.structuredContent.download_url}`);
+      assert.equal(response.status, 200);
+      assert.equal(response.headers.get('content-type'), 'application/x-ndjson; charset=utf-8');
+      assert.equal(response.headers.get('content-disposition'), 'attachment; filename="readwise-book-102.jsonl"');
+      assert.equal((await response.text()).trim().split('\n').length, 3);
+    } finally {
+      await small.close();
+    }
+  });
+
+  it('GET /export reports bad requests and upstream errors', async () => {
+    const search = await fetch(`${harness.url}/export?format=csv&search=${encodeURIComponent('{"vector_search_term":"windows","full_text_queries":[]}')}`);
+    assert.match(await search.text(), /\r\n1003,/);
+
+    assert.equal((await fetch(`${harness.url}/export?book_id=101&tag=favorite`)).status, 400);
+    assert.equal((await fetch(`${harness.url}/export?book_id=abc`)).status, 400);
+
+    const missing = await fetch(`${harness.url}/export?book_id=999`);
+    assert.equal(missing.status, 404);
+    assert.equal((await missing.json()).error.type, 'not_found');
+  });
+});
+
+describe('read-only mode', () => {
+  let harness: Harness;
+  let client: McpTestClient;
+
+  before(async () => {
+    harness = await startHarness({ readOnly: true });
+    client = new McpTestClient(harness.url);
+    await client.initialize();
+  });
+
+  after(() => harness.close());
+
+  it('hides and refuses the tools that write', async () => {
+    const { result } = await client.request('tools/list');
+    const names: string[] = result.tools.map((tool: any) => tool.name);
+    assert.ok(names.includes('search_readwise_highlights'));
+    assert.ok(!names.includes('create_highlights'));
+    assert.ok(!names.includes('save_reader_document'));
+
+    const refused = await client.request('tools/call', { name: 'create_highlights', arguments: { highlights: [{ text: 'x' }] } });
+    assert.ok(refused.error);
+    assert.ok(!harness.mock.requests.some(request => request.method === 'POST' && request.path === '/api/v2/highlights/'));
+  });
+});
+
+describe('local mirror', () => {
+  let harness: Harness;
+  let client: McpTestClient;
+  let directory: string;
+
+  before(async () => {
+    directory = mkdtempSync(join(tmpdir(), 'readwise-mirror-'));
+    harness = await startHarness({ mirror: { database: join(directory, 'mirror.db') } });
+    client = new McpTestClient(harness.url);
+    await client.initialize();
+    await waitFor(async () => (await (await fetch(`${harness.url}/admin/sync`)).json()).lastSyncAt);
+  });
+
+  after(async () => {
+    await harness.close();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('search_local_highlights searches the synced library', async () => {
+    const page = await client.callToolJson('search_local_highlights', { query: 'broken windows', format: 'json' });
+    assert.deepEqual(page.results.map((highlight: any) => highlight.id), [1003]);
+    assert.ok(page.last_synced_at);
+
+    const tagged = await client.callToolJson('search_local_highlights', { tag: 'favorite', format: 'json' });
+    assert.deepEqual(tagged.results.map((highlight: any) => highlight.id).sort(), [1001, 1003]);
+  });
+
+  it('random_highlights draws from the mirror', async () => {
+    const page = await client.callToolJson('random_highlights', { tag: 'favorite', count: 5, format: 'json' });
+    assert.equal(page.source, 'mirror');
+    assert.deepEqual(page.results.map((highlight: any) => highlight.id).sort(), [1001, 1003]);
+  });
+
+  it('export_highlights_as exports tags from the mirror, book by book', async () => {
+    const before = harness.mock.requests.length;
+    const result = await client.callTool('export_highlights_as', { tag: 'FAVORITE', format: 'jsonl' });
+    const lines = result.content[0].text.trim().split('\n').map((line: string) => JSON.parse(line));
+    assert.deepEqual(lines.map((highlight: any) => [highlight.book_id, highlight.id]), [[101, 1001], [102, 1003]]);
+    assert.equal(harness.mock.requests.length, before);
+  });
+
+  it('picks up deletions on the next sync', async () => {
+    harness.mock.deleteHighlight(1003);
+    const synced = (await (await fetch(`${harness.url}/admin/sync`)).json()).lastSyncAt;
+    assert.equal((await fetch(`${harness.url}/admin/sync`, { method: 'POST' })).status, 202);
+    await waitFor(async () => {
+      const status = await (await fetch(`${harness.url}/admin/sync`)).json();
+      return !status.running && status.lastSyncAt !== synced;
+    });
+    const page = await client.callToolJson('search_local_highlights', { query: 'broken windows', format: 'json' });
+    assert.equal(page.count, 0);
+  });
+});
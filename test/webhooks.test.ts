@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import { createHmac } from 'node:crypto';
+import { after, before, describe, it } from 'node:test';
+import { parseConfig } from '../src/config.js';
+import { Harness, McpTestClient, startHarness } from './helpers.js';
+
+const SECRET = 'webhook-secret';
+
+describe('webhooks', () => {
+  let harness: Harness;
+  let client: McpTestClient;
+
+  before(async () => {
+    harness = await startHarness({ webhooks: { secret: SECRET } });
+    client = new McpTestClient(harness.url);
+    await client.initialize();
+  });
+
+  after(() => harness.close());
+
+  function deliver(body: unknown, headers: Record<string, string> = {}): Promise<Response> {
+    return fetch(`${harness.url}/webhooks/readwise`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body)
+    });
+  }
+
+  it('rejects events without the secret or a valid signature', async () => {
+    assert.equal((await deliver({ event_type: 'readwise.highlight.created' })).status, 401);
+    assert.equal((await deliver({ event_type: 'readwise.highlight.created', secret: 'wrong' })).status, 401);
+    assert.equal((await deliver({ event_type: 'readwise.highlight.created' }, { 'X-Readwise-Signature': 'sha256=00' })).status, 401);
+    assert.equal((await deliver({ secret: SECRET })).status, 400);
+  });
+
+  it('accepts events signed with the secret', async () => {
+    const body = JSON.stringify({ event_type: 'reader.any_document.created', id: 'doc-1' });
+    const signature = createHmac('sha256', SECRET).update(body).digest('hex');
+    const response = await fetch(`${harness.url}/webhooks/readwise`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Readwise-Signature': `sha256=${signature}` },
+      body
+    });
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { received: true, event: 'reader.any_document.created', notified: 0 });
+  });
+
+  it('clears cached responses', async () => {
+    const searches = () => harness.mock.requests.filter(request => request.path === '/api/mcp/highlights').length;
+    const search = () => client.callTool('search_readwise_highlights', { vector_search_term: 'thinking', full_text_queries: [] });
+    await search();
+    const before = searches();
+    await search();
+    assert.equal(searches(), before);
+
+    await deliver({ event_type: 'readwise.highlight.updated', secret: SECRET, id: 1001, book_id: 101 });
+    await search();
+    assert.equal(searches(), before + 1);
+  });
+
+  it('notifies subscribed sessions and advertises resources.listChanged', async () => {
+    const session = new McpTestClient(harness.url);
+    const initialized = await session.initialize();
+    assert.equal(initialized.result.capabilities.resources.listChanged, true);
+    await session.request('resources/subscribe', { uri: 'readwise://book/102' });
+    const stream = await session.listen();
+    try {
+      const response = await deliver({ event_type: 'readwise.highlight.created', secret: SECRET, id: 1010, book_id: 102 });
+      // Only sessions with an open GET stream count as notified
+      assert.equal((await response.json()).notified, 2);
+      assert.deepEqual(await stream.next(), {
+        jsonrpc: '2.0',
+        method: 'notifications/resources/updated',
+        params: { uri: 'readwise://book/102' }
+      });
+      assert.deepEqual(await stream.next(), { jsonrpc: '2.0', method: 'notifications/resources/list_changed' });
+    } finally {
+      stream.close();
+    }
+  });
+
+  it('are single-tenant only', () => {
+    assert.throws(
+      () => parseConfig({ tenants: { mode: 'header' }, webhooks: { secret: SECRET } }),
+      /Webhooks are only supported with tenants.mode single/
+    );
+  });
+});